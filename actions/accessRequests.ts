@@ -0,0 +1,355 @@
+"use server";
+
+import { PoolClient } from "pg";
+
+import { recordAuditEvents } from "@/lib/audit";
+import { usersPool as pool } from "@/lib/db";
+import { editRoles } from "@/lib/memberships";
+import { authorizeUser, osoUserMgmt as oso } from "@/lib/oso";
+import { Result, stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
+import { assertDestructiveAllowed } from "@/lib/session";
+
+/**
+ * A member's request for a different role in one of their organizations.
+ */
+export interface AccessRequest {
+  id: string;
+  username: string;
+  org: string;
+  role: string;
+  // The member's current role, or `null` if they are no longer a member.
+  currentRole: string | null;
+  reason: string;
+  status: "pending" | "approved" | "denied";
+  created_at: Date;
+  decided_by: string | null;
+  decided_at: Date | null;
+  decision_reason: string | null;
+}
+
+const ACCESS_REQUEST_COLUMNS = `access_requests.id, access_requests.username,
+  access_requests.org, access_requests.role,
+  memberships.role AS "currentRole", access_requests.reason,
+  access_requests.status, access_requests.created_at,
+  access_requests.decided_by, access_requests.decided_at,
+  access_requests.decision_reason`;
+
+/**
+ * Locks the pending access request `id`, ensuring that `requestor` has the
+ * `edit_role` permission on the user who made it, and the `create_user`
+ * permission on the organization it is for, as `editRoles` requires to change
+ * the user's role there.
+ *
+ * @throws {Error} If the request is not pending or authorization fails.
+ */
+async function lockPendingAccessRequest(
+  client: PoolClient,
+  requestor: string,
+  id: string,
+  action: string
+): Promise<AccessRequest> {
+  const res = await client.query<AccessRequest>(
+    `SELECT ${ACCESS_REQUEST_COLUMNS}
+    FROM access_requests
+    LEFT JOIN memberships
+      ON memberships.username = access_requests.username
+      AND memberships.org = access_requests.org
+    WHERE access_requests.id = $1 AND access_requests.status = 'pending'
+    FOR UPDATE OF access_requests`,
+    [id]
+  );
+  if (res.rowCount !== 1) {
+    throw new Error(`cannot find pending access request ${id}`);
+  }
+  const request = res.rows[0];
+  const checks: [string, { type: string; id: string }][] = [
+    ["edit_role", { type: "User", id: request.username }],
+    ["create_user", { type: "Organization", id: request.org }],
+  ];
+  for (const [permission, resource] of checks) {
+    if (!(await authorizeUser(oso, client, requestor, permission, resource))) {
+      await recordAuditEvents(pool, [
+        {
+          requestor,
+          action,
+          permission,
+          allowed: false,
+          target_type: "User",
+          target_id: request.username,
+          org: request.org,
+          before: { id, role: request.role },
+        },
+      ]);
+      throw new Error(
+        `not permitted to decide access requests for User ${request.username} in Organization ${request.org}`
+      );
+    }
+  }
+  return request;
+}
+
+/**
+ * Requests the form's `role` in the form's `organization` on behalf of
+ * `requestor`, who must be a member of the organization.
+ *
+ * Requires `requestor` to have the `read` permission on the organization.
+ * Members may only have one pending request per organization.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function createAccessRequest(
+  _prevState: Result<undefined> | null,
+  formData: FormData
+): Promise<Result<undefined>> {
+  const requestor = await getRequestor();
+  const data = {
+    org: formData.get("organization")! as string,
+    role: formData.get("role")! as string,
+    reason: ((formData.get("reason") as string | null) ?? "").trim(),
+  };
+
+  const client = await pool.connect();
+  try {
+    if (!data.reason) {
+      throw new Error(`reason cannot be empty`);
+    }
+
+    const auth = await authorizeUser(oso, client, requestor, "read", {
+      type: "Organization",
+      id: data.org,
+    });
+    const auditEvent = {
+      requestor,
+      action: "createAccessRequest",
+      permission: "read",
+      target_type: "User",
+      target_id: requestor,
+      org: data.org,
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [
+        {
+          ...auditEvent,
+          allowed: false,
+          after: { role: data.role, reason: data.reason },
+        },
+      ]);
+      return {
+        success: false,
+        error: `not permitted to request access to Organization ${data.org}`,
+      };
+    }
+
+    await client.query("BEGIN");
+    const membership = await client.query<{ role: string }>(
+      `SELECT role FROM memberships WHERE username = $1 AND org = $2`,
+      [requestor, data.org]
+    );
+    if (membership.rowCount !== 1) {
+      throw new Error(`not a member of Organization ${data.org}`);
+    }
+    if (membership.rows[0].role === data.role) {
+      throw new Error(`already have role ${data.role} in ${data.org}`);
+    }
+
+    const res = await client.query<{ id: string }>(
+      `INSERT INTO access_requests (username, org, role, reason)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id`,
+      [requestor, data.org, data.role, data.reason]
+    );
+    await recordAuditEvents(client, [
+      {
+        ...auditEvent,
+        allowed: true,
+        before: { role: membership.rows[0].role },
+        after: { id: res.rows[0].id, role: data.role, reason: data.reason },
+      },
+    ]);
+    await client.query("COMMIT");
+
+    return { success: true, value: undefined };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the access requests `requestor` has made, most recent first.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getOwnAccessRequests(): Promise<AccessRequest[]> {
+  const requestor = await getRequestor();
+  const res = await pool.query<AccessRequest>(
+    `SELECT ${ACCESS_REQUEST_COLUMNS}
+    FROM access_requests
+    LEFT JOIN memberships
+      ON memberships.username = access_requests.username
+      AND memberships.org = access_requests.org
+    WHERE access_requests.username = $1
+    ORDER BY access_requests.created_at DESC`,
+    [requestor]
+  );
+  return res.rows;
+}
+
+/**
+ * Get the pending access requests made by users on whom `requestor` has the
+ * `edit_role` permission, for organizations on which `requestor` has the
+ * `create_user` permission, oldest first, i.e. the requests `requestor` can
+ * decide.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getPendingAccessRequests(): Promise<AccessRequest[]> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const osoUser = { type: "User", id: requestor };
+    const [editRoleCond, manageOrgCond] = await Promise.all([
+      oso.listLocal(osoUser, "edit_role", "User", "access_requests.username"),
+      oso.listLocal(
+        osoUser,
+        "create_user",
+        "Organization",
+        "access_requests.org"
+      ),
+    ]);
+    const res = await client.query<AccessRequest>(
+      `SELECT ${ACCESS_REQUEST_COLUMNS}
+      FROM access_requests
+      LEFT JOIN memberships
+        ON memberships.username = access_requests.username
+        AND memberships.org = access_requests.org
+      WHERE access_requests.status = 'pending'
+        AND access_requests.username <> $1
+        AND ${editRoleCond}
+        AND ${manageOrgCond}
+      ORDER BY access_requests.created_at`,
+      [requestor]
+    );
+    return res.rows;
+  } catch (error) {
+    console.error("Error in getPendingAccessRequests:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Approves the pending access request `id`, changing the requesting user's
+ * role with `editRoles`, which authorizes and audits the change. The role
+ * change commits in the same transaction as the approval, so a request is
+ * never approved without its role being granted, nor vice versa.
+ *
+ * Requires `requestor` to have the `edit_role` permission on the requesting
+ * user, and the `create_user` permission on the request's organization.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the request is not pending.
+ */
+export async function approveAccessRequest(id: string): Promise<undefined> {
+  const requestor = await getRequestor();
+  assertDestructiveAllowed("edit roles");
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    // Holding the lock until the request is marked approved prevents
+    // concurrently deciding it.
+    const request = await lockPendingAccessRequest(
+      client,
+      requestor,
+      id,
+      "approveAccessRequest"
+    );
+    if (request.currentRole === null) {
+      throw new Error(
+        `User ${request.username} is no longer a member of Organization ${request.org}`
+      );
+    }
+    await editRoles(client, requestor, [
+      { username: request.username, org: request.org, role: request.role },
+    ]);
+    await client.query(
+      `UPDATE access_requests
+      SET status = 'approved', decided_by = $2, decided_at = now()
+      WHERE id = $1`,
+      [id, requestor]
+    );
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in approveAccessRequest:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Denies the pending access request `id`, recording `reason`.
+ *
+ * Requires `requestor` to have the `edit_role` permission on the requesting
+ * user, and the `create_user` permission on the request's organization.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the request is not pending.
+ */
+export async function denyAccessRequest(
+  id: string,
+  reason: string
+): Promise<undefined> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    reason = reason.trim();
+    if (!reason) {
+      throw new Error(`reason for denying cannot be empty`);
+    }
+
+    await client.query("BEGIN");
+    const request = await lockPendingAccessRequest(
+      client,
+      requestor,
+      id,
+      "denyAccessRequest"
+    );
+    await client.query(
+      `UPDATE access_requests
+      SET status = 'denied', decided_by = $2, decided_at = now(),
+        decision_reason = $3
+      WHERE id = $1`,
+      [id, requestor, reason]
+    );
+    await recordAuditEvents(client, [
+      {
+        requestor,
+        action: "denyAccessRequest",
+        permission: "edit_role",
+        allowed: true,
+        target_type: "User",
+        target_id: request.username,
+        org: request.org,
+        before: { id, role: request.role },
+        after: { id, status: "denied", reason },
+      },
+    ]);
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in denyAccessRequest:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,131 @@
+"use server";
+
+import { recordAuditEvents } from "@/lib/audit";
+import { signApiToken } from "@/lib/apiTokens";
+import { usersPool as pool } from "@/lib/db";
+import { Result, stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
+import { getImpersonator } from "@/lib/session";
+
+/**
+ * Describes one of the requestor's REST API bearer tokens, without the token
+ * itself.
+ */
+export interface ApiTokenInfo {
+  id: string;
+  name: string;
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
+/**
+ * Get the REST API bearer tokens `requestor` has created.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getApiTokens(): Promise<ApiTokenInfo[]> {
+  const requestor = await getRequestor();
+  const res = await pool.query<ApiTokenInfo>(
+    `SELECT id, name, created_at, last_used_at, revoked_at
+    FROM api_tokens
+    WHERE username = $1
+    ORDER BY id DESC`,
+    [requestor]
+  );
+  return res.rows;
+}
+
+/**
+ * Creates a REST API bearer token that acts as `requestor`, returning the
+ * token. The token cannot be retrieved again.
+ *
+ * Tokens cannot be created while impersonating, because they would outlive
+ * the impersonation.
+ */
+export async function createApiToken(
+  _prevState: Result<string> | null,
+  formData: FormData
+): Promise<Result<string>> {
+  const requestor = await getRequestor();
+  const name = formData.get("name")! as string;
+  if (getImpersonator()) {
+    return {
+      success: false,
+      error: "cannot create API tokens while impersonating",
+    };
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const res = await client.query<{ id: string }>(
+      `INSERT INTO api_tokens (username, name) VALUES ($1, $2) RETURNING id`,
+      [requestor, name]
+    );
+    const id = res.rows[0].id;
+    await recordAuditEvents(client, [
+      {
+        requestor,
+        action: "createApiToken",
+        // Users may always manage their own tokens.
+        permission: "self",
+        allowed: true,
+        target_type: "User",
+        target_id: requestor,
+        after: { id, name },
+      },
+    ]);
+    await client.query("COMMIT");
+    return {
+      success: true,
+      value: await signApiToken({ username: requestor, id }),
+    };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in createApiToken:", error);
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Revokes one of `requestor`'s REST API bearer tokens.
+ *
+ * @throws {Error} If there is a problem with the database connection or the
+ * requestor has no such token.
+ */
+export async function revokeApiToken(id: string): Promise<undefined> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const res = await client.query(
+      `UPDATE api_tokens SET revoked_at = now()
+      WHERE id = $1 AND username = $2 AND revoked_at IS NULL`,
+      [id, requestor]
+    );
+    if (res.rowCount !== 1) {
+      throw new Error(`cannot find API token ${id}`);
+    }
+    await recordAuditEvents(client, [
+      {
+        requestor,
+        action: "revokeApiToken",
+        permission: "self",
+        allowed: true,
+        target_type: "User",
+        target_id: requestor,
+        before: { id },
+      },
+    ]);
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in revokeApiToken:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
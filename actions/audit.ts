@@ -0,0 +1,119 @@
+"use server";
+
+import { usersPool as pool } from "@/lib/db";
+import { osoUserMgmt as oso } from "@/lib/oso";
+import { AuditEvent } from "@/lib/relations";
+import { getRequestor } from "@/lib/requestor";
+
+/**
+ * Restricts the audit events returned by `getAuditEvents`. Unset fields do not
+ * restrict the results.
+ */
+export interface AuditFilter {
+  requestor?: string;
+  action?: string;
+  target?: string;
+  org?: string;
+  allowed?: boolean;
+  // Only return events older than the event with this ID.
+  cursor?: string;
+}
+
+/**
+ * A page of audit events, as well as the cursor to fetch the next page, if
+ * there is one.
+ */
+export interface AuditPage {
+  events: AuditEvent[];
+  nextCursor: string | null;
+}
+
+const AUDIT_PAGE_SIZE = 50;
+
+/**
+ * Get a page of the audit events which `requestor` can read, newest first.
+ *
+ * Requires `requestor` to have the `read_audit` permission on the
+ * organization each event belongs to.
+ *
+ * ## Oso documentation
+ * Demonstrates a standard read path with local authorization, relying on
+ * `listLocal` to generate a condition for a query that also contains
+ * user-supplied filters and pagination.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getAuditEvents(filter: AuditFilter): Promise<AuditPage> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const osoUser = { type: "User", id: requestor };
+    const readAuditCond = await oso.listLocal(
+      osoUser,
+      "read_audit",
+      "Organization",
+      "audit_events.org"
+    );
+
+    const conditions = [readAuditCond];
+    const params: (string | boolean)[] = [];
+    const addCondition = (cond: string, value: string | boolean) => {
+      params.push(value);
+      conditions.push(cond.replace("?", `$${params.length}`));
+    };
+
+    if (filter.requestor) {
+      addCondition("audit_events.requestor = ?", filter.requestor);
+    }
+    if (filter.action) {
+      addCondition("audit_events.action = ?", filter.action);
+    }
+    if (filter.target) {
+      addCondition("audit_events.target_id = ?", filter.target);
+    }
+    if (filter.org) {
+      addCondition("audit_events.org = ?", filter.org);
+    }
+    if (filter.allowed !== undefined) {
+      addCondition("audit_events.allowed = ?", filter.allowed);
+    }
+    if (filter.cursor) {
+      addCondition("audit_events.id < ?", filter.cursor);
+    }
+
+    // Fetch one more event than the page size to determine if there is a next
+    // page.
+    const res = await client.query<AuditEvent>(
+      `SELECT *
+      FROM audit_events
+      WHERE ${conditions.map((cond) => `(${cond})`).join(" AND ")}
+      ORDER BY id DESC
+      LIMIT ${AUDIT_PAGE_SIZE + 1}`,
+      params
+    );
+
+    const events = res.rows.slice(0, AUDIT_PAGE_SIZE);
+    return {
+      events,
+      nextCursor:
+        res.rows.length > AUDIT_PAGE_SIZE ? events[events.length - 1].id : null,
+    };
+  } catch (error) {
+    console.error("Error in getAuditEvents:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Fetch the names of all actions that have been audited, for use in filters.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getAuditActions(): Promise<string[]> {
+  const res = await pool.query<{ action: string }>(
+    `SELECT DISTINCT action FROM audit_events ORDER BY action`
+  );
+  return res.rows.map((row) => row.action);
+}
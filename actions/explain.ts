@@ -0,0 +1,117 @@
+"use server";
+
+import { readFile } from "fs/promises";
+import path from "path";
+
+import { usersPool as pool } from "@/lib/db";
+import {
+  Derivation,
+  explain,
+  FactSource,
+  GLOBAL,
+  parsePolicy,
+  Resource,
+} from "@/lib/explain";
+import { Membership, Org, UserStatus } from "@/lib/relations";
+import { getRequestor } from "@/lib/requestor";
+
+/**
+ * Explains why `requestor` does or does not have `action` on `resource`
+ * (or `action` as a `global` permission if `resource` is omitted), including
+ * when they are assigned roles that grant it but are suspended.
+ *
+ * Only explains the requestor's own permissions, which reveals the roles and
+ * relations they depend on, so requires no further authorization.
+ *
+ * ## Oso documentation
+ * Demonstrates how the facts in `oso_local_auth_user_mgmt.yml` combine with
+ * the rules in `oso_policy.polar` to produce a decision. Note that this
+ * re-derives the decision in TypeScript for display purposes; to actually
+ * authorize requests, always ask Oso.
+ *
+ * @throws {Error} If there is a problem with the database connection or
+ * reading the policy.
+ */
+export async function explainPermission(
+  action: string,
+  resource?: Resource
+): Promise<Derivation> {
+  const requestor = await getRequestor();
+  const policy = parsePolicy(
+    await readFile(path.join(process.cwd(), "oso_policy.polar"), "utf8")
+  );
+
+  const client = await pool.connect();
+  try {
+    // Mirrors the bindings, which ignore expired temporary roles.
+    const getMemberships = async (username: string): Promise<Membership[]> => {
+      const res = await client.query<Membership>(
+        `SELECT username, org, role
+        FROM effective_memberships
+        WHERE username = $1
+        ORDER BY org`,
+        [username]
+      );
+      return res.rows;
+    };
+
+    const facts: FactSource = {
+      roles: async (actor, resource) => {
+        if (resource.type !== GLOBAL.type && resource.type !== "Organization") {
+          return [];
+        }
+        // `global` roles are the roles of users in `_root`.
+        const org = resource.type === GLOBAL.type ? "_root" : resource.id;
+        const memberships = await getMemberships(actor);
+        return memberships.filter((m) => m.org === org).map((m) => m.role);
+      },
+      status: async (actor) => {
+        const res = await client.query<{ status: UserStatus }>(
+          `SELECT status FROM users WHERE username = $1`,
+          [actor]
+        );
+        return res.rows[0]?.status ?? null;
+      },
+      related: async (resource, relation) => {
+        if (resource.type === "User" && relation === "parent") {
+          const memberships = await getMemberships(resource.id);
+          return memberships.map((m) => ({ type: "Organization", id: m.org }));
+        }
+        if (resource.type === "Organization" && relation === "parent") {
+          const res = await client.query<Org>(
+            `SELECT name, parent FROM organizations WHERE name = $1`,
+            [resource.id]
+          );
+          return res.rows
+            .filter((org) => org.parent !== null)
+            .map((org) => ({ type: "Organization", id: org.parent! }));
+        }
+        return [];
+      },
+      grantingRoles: async (actor, resource, permission) => {
+        if (resource.type !== "Organization") {
+          return [];
+        }
+        const res = await client.query<{ role: string }>(
+          `SELECT role_permissions.role
+          FROM effective_memberships
+          JOIN role_permissions
+            ON role_permissions.org = effective_memberships.org
+            AND role_permissions.role = effective_memberships.role
+          WHERE effective_memberships.username = $1
+            AND effective_memberships.org = $2
+            AND role_permissions.permission = $3`,
+          [actor, resource.id, permission]
+        );
+        return res.rows.map((row) => row.role);
+      },
+    };
+
+    return await explain(policy, facts, requestor, action, resource ?? GLOBAL);
+  } catch (error) {
+    console.error("Error in explainPermission:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,273 @@
+"use server";
+
+import { PoolClient } from "pg";
+
+import { recordAuditEvents } from "@/lib/audit";
+import { usersPool as pool } from "@/lib/db";
+import { ImportRow, parseUserImport } from "@/lib/import";
+import { unassignableRoles } from "@/lib/memberships";
+import { osoUserMgmt as oso } from "@/lib/oso";
+import { enqueueBatch } from "@/lib/outbox";
+import { Result, stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
+
+/**
+ * A row of an import, as well as why it was rejected, if it was.
+ */
+export interface ImportRowResult extends Omit<ImportRow, "password"> {
+  // Whether the requestor may create users in the row's organization, with the
+  // row's role.
+  authorized: boolean;
+  reason: string | null;
+}
+
+/**
+ * Describes whether each row of an import is accepted.
+ */
+export interface ImportReport {
+  rows: ImportRowResult[];
+  accepted: number;
+  rejected: number;
+}
+
+// Reads the import from the form's uploaded `file`, if any, or else its `data`.
+async function readImport(formData: FormData): Promise<ImportRow[]> {
+  const file = formData.get("file") as File | null;
+  const text = file?.size
+    ? await file.text()
+    : (formData.get("data") as string);
+  return parseUserImport(text ?? "");
+}
+
+/**
+ * Validates every row of an import, including that `requestor` has the
+ * `create_user` permission on each row's organization, and could already do
+ * everything the row's role permits there.
+ *
+ * Rows for existing users, or users listed on earlier rows, add the user to
+ * the row's organization. Passwords can only be set on a new user's first row.
+ *
+ * ## Oso documentation
+ * Demonstrates authorizing many resources at once by applying the condition
+ * generated by `listLocal` to a set of IDs supplied by the client, rather than
+ * to a table.
+ */
+async function validateImport(
+  client: PoolClient,
+  requestor: string,
+  rows: ImportRow[]
+): Promise<ImportReport> {
+  const osoUser = { type: "User", id: requestor };
+  const createUserCond = await oso.listLocal(
+    osoUser,
+    "create_user",
+    "Organization",
+    "v.org"
+  );
+
+  const usernames = rows.map((row) => row.username);
+  const orgs = Array.from(new Set(rows.map((row) => row.org)));
+  const res = await client.query<{
+    existing_users: string[];
+    existing_memberships: { username: string; org: string }[];
+    orgs: string[];
+    roles: { org: string; name: string }[];
+    create_user_orgs: string[];
+  }>(
+    `SELECT
+      ARRAY(SELECT username FROM users WHERE username = ANY($1)) AS existing_users,
+      (
+        SELECT COALESCE(
+          jsonb_agg(jsonb_build_object('username', username, 'org', org)),
+          '[]'
+        )
+        FROM memberships WHERE username = ANY($1)
+      ) AS existing_memberships,
+      ARRAY(SELECT name FROM organizations WHERE name = ANY($2)) AS orgs,
+      (
+        SELECT COALESCE(
+          jsonb_agg(jsonb_build_object('org', org, 'name', name)),
+          '[]'
+        )
+        FROM roles WHERE org = ANY($2)
+      ) AS roles,
+      ARRAY(
+        SELECT v.org FROM unnest($2::TEXT[]) AS v(org) WHERE ${createUserCond}
+      ) AS create_user_orgs`,
+    [usernames, orgs]
+  );
+  const lookup = res.rows[0];
+
+  // Identifies memberships, as well as users who are listed on earlier rows.
+  const seen = new Set<string>(
+    lookup.existing_memberships.map((m) => JSON.stringify([m.username, m.org]))
+  );
+  const seenUsers = new Set<string>(lookup.existing_users);
+  const results = rows.map(({ line, username, org, role, password }) => {
+    const row = { line, username, org, role };
+    const authorized = lookup.create_user_orgs.includes(row.org);
+    const membership = JSON.stringify([row.username, row.org]);
+    let reason: string | null = null;
+    if (!row.username || !row.org || !row.role) {
+      reason = "username, org, and role are required";
+    } else if (seen.has(membership)) {
+      reason = `User ${row.username} already belongs to Organization ${row.org}`;
+    } else if (password && seenUsers.has(row.username)) {
+      reason = `cannot set password of User ${row.username}, which already exists or appears on an earlier row`;
+    } else if (!authorized) {
+      reason = `not permitted to create user in Organization ${row.org}`;
+    } else if (!lookup.orgs.includes(row.org)) {
+      reason = `Organization ${row.org} does not exist`;
+    } else if (
+      !lookup.roles.some((r) => r.org === row.org && r.name === row.role)
+    ) {
+      reason = `role ${row.role} does not exist in Organization ${row.org}`;
+    }
+    seen.add(membership);
+    seenUsers.add(row.username);
+    return { ...row, authorized, reason };
+  });
+
+  // Roles are only checked once they are known to exist.
+  const unassignable = await unassignableRoles(
+    client,
+    requestor,
+    results.filter((row) => !row.reason)
+  );
+  unassignable.forEach((row) => {
+    row.authorized = false;
+    row.reason = `not permitted to assign role ${row.role} in Organization ${row.org}`;
+  });
+
+  const rejected = results.filter((row) => row.reason).length;
+  return { rows: results, accepted: results.length - rejected, rejected };
+}
+
+/**
+ * Reports which users in the form's import would be created by `importUsers`
+ * and why any would be rejected, without creating them.
+ */
+export async function previewUserImport(
+  _prevState: Result<ImportReport> | null,
+  formData: FormData
+): Promise<Result<ImportReport>> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const rows = await readImport(formData);
+    return {
+      success: true,
+      value: await validateImport(client, requestor, rows),
+    };
+  } catch (error) {
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Creates every user in the form's import and adds them to its organizations,
+ * or does nothing if any row is rejected.
+ *
+ * Requires `requestor` to have the `create_user` permission on each row's
+ * organization.
+ *
+ * ## Oso documentation
+ * Demonstrates authorizing a bulk operation with a single local authorization
+ * query, and synchronizing all of its changes to Oso's centralized
+ * authorization data in a single outbox entry, i.e. a single `oso.batch`.
+ */
+export async function importUsers(
+  _prevState: Result<ImportReport> | null,
+  formData: FormData
+): Promise<Result<ImportReport>> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const rows = await readImport(formData);
+
+    await client.query("BEGIN");
+    const report = await validateImport(client, requestor, rows);
+    if (report.rejected) {
+      await client.query("ROLLBACK");
+      await recordAuditEvents(
+        pool,
+        report.rows
+          .filter((row) => !row.authorized)
+          .map((row) => ({
+            requestor,
+            action: "importUsers",
+            permission: "create_user",
+            allowed: false,
+            target_type: "User",
+            target_id: row.username,
+            org: row.org,
+            after: { org: row.org, role: row.role },
+          }))
+      );
+      return {
+        success: false,
+        error: `${report.rejected} of ${rows.length} rows rejected; preview the import for details`,
+      };
+    }
+
+    const rowsJson = JSON.stringify(rows);
+    const newUsers = await client.query<{ username: string }>(
+      `INSERT INTO users (username)
+      SELECT DISTINCT r.username
+      FROM jsonb_to_recordset($1) AS r(username TEXT)
+      ON CONFLICT (username) DO NOTHING
+      RETURNING username`,
+      [rowsJson]
+    );
+    await client.query(
+      `INSERT INTO memberships (username, org, role)
+      SELECT r.username, r.org, r.role
+      FROM jsonb_to_recordset($1) AS r(username TEXT, org TEXT, role TEXT)`,
+      [rowsJson]
+    );
+    await client.query(
+      `INSERT INTO user_credentials (username, password_hash)
+      SELECT r.username, crypt(r.password, gen_salt('bf'))
+      FROM jsonb_to_recordset($1) AS r(username TEXT, password TEXT)
+      WHERE r.password IS NOT NULL`,
+      [rowsJson]
+    );
+    await recordAuditEvents(
+      client,
+      rows.map((row) => ({
+        requestor,
+        action: "importUsers",
+        permission: "create_user",
+        allowed: true,
+        target_type: "User",
+        target_id: row.username,
+        org: row.org,
+        after: { org: row.org, role: row.role },
+      }))
+    );
+
+    // Propagate user roles to Oso's centralized authorization data store for
+    // other services to use.
+    await enqueueBatch(client, (tx) => {
+      for (const { username } of newUsers.rows) {
+        tx.insert(["has_status", { type: "User", id: username }, "active"]);
+      }
+      for (const row of rows) {
+        const user = { type: "User", id: row.username };
+        const org = { type: "Organization", id: row.org };
+        tx.insert(["has_assigned_role", user, row.role, org]);
+        tx.insert(["has_relation", user, "parent", org]);
+      }
+    });
+    await client.query("COMMIT");
+
+    return { success: true, value: report };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
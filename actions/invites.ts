@@ -0,0 +1,476 @@
+"use server";
+
+import { createHash, randomBytes } from "crypto";
+import { PoolClient } from "pg";
+import { redirect } from "next/navigation";
+
+import { recordAuditEvents } from "@/lib/audit";
+import { usersPool as pool } from "@/lib/db";
+import { unassignableRoles } from "@/lib/memberships";
+import { authorizeUser, osoUserMgmt as oso } from "@/lib/oso";
+import { enqueueBatch } from "@/lib/outbox";
+import { Result, stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
+import { setSession } from "@/lib/session";
+
+// Invitations may be valid for at most this many days.
+const MAX_EXPIRY_DAYS = 30;
+
+/**
+ * An invitation that has been neither accepted nor revoked, as well as whether
+ * it has expired.
+ */
+export interface PendingInvite {
+  id: string;
+  org: string;
+  role: string;
+  invitee: string;
+  created_by: string;
+  sent_at: Date;
+  expires_at: Date;
+  expired: boolean;
+}
+
+/**
+ * The details of an invitation that its token reveals to the invitee.
+ */
+export interface InviteDetails {
+  org: string;
+  role: string;
+  invitee: string;
+  expires_at: Date;
+}
+
+// Tokens are only stored hashed, so that they cannot be recovered from the
+// database.
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Returns a new token, which is the path of the page that accepts the
+// invitation, as well as its hash.
+function newToken(): { path: string; hash: string } {
+  const token = randomBytes(32).toString("base64url");
+  return { path: `/invite/${token}`, hash: hashToken(token) };
+}
+
+/**
+ * Locks the pending invitation `id`, ensuring that `requestor` has the
+ * `create_user` permission on its organization.
+ *
+ * @throws {Error} If the invitation is not pending or authorization fails.
+ */
+async function lockPendingInvite(
+  client: PoolClient,
+  requestor: string,
+  id: string,
+  action: string
+): Promise<PendingInvite> {
+  const res = await client.query<PendingInvite>(
+    `SELECT id, org, role, invitee, created_by, sent_at, expires_at,
+      expires_at <= now() AS expired
+    FROM invites
+    WHERE id = $1 AND accepted_at IS NULL AND revoked_at IS NULL
+    FOR UPDATE`,
+    [id]
+  );
+  if (res.rowCount !== 1) {
+    throw new Error(`cannot find pending invitation ${id}`);
+  }
+  const invite = res.rows[0];
+  const auth = await authorizeUser(oso, client, requestor, "create_user", {
+    type: "Organization",
+    id: invite.org,
+  });
+  if (!auth) {
+    await recordAuditEvents(pool, [
+      {
+        requestor,
+        action,
+        permission: "create_user",
+        allowed: false,
+        target_type: "Organization",
+        target_id: invite.org,
+        org: invite.org,
+        before: { id, invitee: invite.invitee },
+      },
+    ]);
+    throw new Error(
+      `not permitted to manage invitations to Organization ${invite.org}`
+    );
+  }
+  return invite;
+}
+
+/**
+ * Invites someone to join the form's `organization` with the form's `role`,
+ * returning the path of the page on which they accept the invitation. The
+ * path cannot be retrieved again, though the invitation can be resent.
+ *
+ * Requires `requestor` to have the `create_user` permission on the
+ * organization, as well as everything the role permits there; see
+ * `unassignableRoles`.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function createInvite(
+  _prevState: Result<string> | null,
+  formData: FormData
+): Promise<Result<string>> {
+  const requestor = await getRequestor();
+  const data = {
+    org: formData.get("organization")! as string,
+    role: formData.get("role")! as string,
+    invitee: ((formData.get("invitee") as string | null) ?? "").trim(),
+    expiresInDays: Number(formData.get("expiresInDays")),
+  };
+
+  const client = await pool.connect();
+  try {
+    if (!data.invitee) {
+      throw new Error(`invitee cannot be empty`);
+    }
+    if (
+      !Number.isInteger(data.expiresInDays) ||
+      data.expiresInDays < 1 ||
+      data.expiresInDays > MAX_EXPIRY_DAYS
+    ) {
+      throw new Error(
+        `invitations must expire in 1 to ${MAX_EXPIRY_DAYS} days`
+      );
+    }
+
+    const auth = await authorizeUser(oso, client, requestor, "create_user", {
+      type: "Organization",
+      id: data.org,
+    });
+    const auditEvent = {
+      requestor,
+      action: "createInvite",
+      permission: "create_user",
+      target_type: "Organization",
+      target_id: data.org,
+      org: data.org,
+    };
+    const after = {
+      invitee: data.invitee,
+      role: data.role,
+      expiresInDays: data.expiresInDays,
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false, after }]);
+      return {
+        success: false,
+        error: `not permitted to invite users to Organization ${data.org}`,
+      };
+    }
+    if ((await unassignableRoles(client, requestor, [data])).length) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false, after }]);
+      return {
+        success: false,
+        error: `not permitted to assign role ${data.role} in Organization ${data.org}`,
+      };
+    }
+
+    await client.query("BEGIN");
+    const { path, hash } = newToken();
+    const res = await client.query<{ id: string }>(
+      `INSERT INTO invites
+        (org, role, invitee, token_hash, created_by, expires_at)
+      VALUES ($1, $2, $3, $4, $5, now() + make_interval(days => $6))
+      RETURNING id`,
+      [data.org, data.role, data.invitee, hash, requestor, data.expiresInDays]
+    );
+    await recordAuditEvents(client, [
+      {
+        ...auditEvent,
+        allowed: true,
+        after: { ...after, id: res.rows[0].id },
+      },
+    ]);
+    await client.query("COMMIT");
+
+    return { success: true, value: path };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the invitations which have been neither accepted nor revoked to the
+ * organizations on which `requestor` has the `create_user` permission.
+ *
+ * ## Oso documentation
+ * Demonstrates filtering rows related to a resource, rather than the resource
+ * itself, by applying the condition generated by `listLocal` to the column
+ * that identifies the resource.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getPendingInvites(): Promise<PendingInvite[]> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const createUserCond = await oso.listLocal(
+      { type: "User", id: requestor },
+      "create_user",
+      "Organization",
+      "invites.org"
+    );
+    const res = await client.query<PendingInvite>(
+      `SELECT id, org, role, invitee, created_by, sent_at, expires_at,
+        expires_at <= now() AS expired
+      FROM invites
+      WHERE accepted_at IS NULL AND revoked_at IS NULL AND ${createUserCond}
+      ORDER BY org, sent_at DESC`
+    );
+    return res.rows;
+  } catch (error) {
+    console.error("Error in getPendingInvites:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Replaces the token of the pending invitation `id`, which invalidates the
+ * previous link, and extends its expiry by its original duration. Returns the
+ * path of the page on which the invitee accepts the invitation.
+ *
+ * Requires `requestor` to have the `create_user` permission on the
+ * invitation's organization.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the invitation is not pending.
+ */
+export async function resendInvite(id: string): Promise<string> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const invite = await lockPendingInvite(
+      client,
+      requestor,
+      id,
+      "resendInvite"
+    );
+    const { path, hash } = newToken();
+    const res = await client.query<{ expires_at: Date }>(
+      `UPDATE invites
+      SET token_hash = $2, sent_at = now(), expires_at = now() + (expires_at - sent_at)
+      WHERE id = $1
+      RETURNING expires_at`,
+      [id, hash]
+    );
+    await recordAuditEvents(client, [
+      {
+        requestor,
+        action: "resendInvite",
+        permission: "create_user",
+        allowed: true,
+        target_type: "Organization",
+        target_id: invite.org,
+        org: invite.org,
+        before: { id, expires_at: invite.expires_at },
+        after: { id, expires_at: res.rows[0].expires_at },
+      },
+    ]);
+    await client.query("COMMIT");
+
+    return path;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in resendInvite:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Revokes the pending invitation `id`.
+ *
+ * Requires `requestor` to have the `create_user` permission on the
+ * invitation's organization.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the invitation is not pending.
+ */
+export async function revokeInvite(id: string): Promise<undefined> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const invite = await lockPendingInvite(
+      client,
+      requestor,
+      id,
+      "revokeInvite"
+    );
+    await client.query(`UPDATE invites SET revoked_at = now() WHERE id = $1`, [
+      id,
+    ]);
+    await recordAuditEvents(client, [
+      {
+        requestor,
+        action: "revokeInvite",
+        permission: "create_user",
+        allowed: true,
+        target_type: "Organization",
+        target_id: invite.org,
+        org: invite.org,
+        before: { id, invitee: invite.invitee, role: invite.role },
+      },
+    ]);
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in revokeInvite:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the details of the invitation identified by `token`, or `null` if it is
+ * not pending or has expired.
+ *
+ * Possessing the token authorizes reading the invitation, so this does not
+ * require signing in.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getInvite(token: string): Promise<InviteDetails | null> {
+  const res = await pool.query<InviteDetails>(
+    `SELECT org, role, invitee, expires_at
+    FROM invites
+    WHERE token_hash = $1
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > now()`,
+    [hashToken(token)]
+  );
+  return res.rows[0] ?? null;
+}
+
+/**
+ * Accepts the invitation identified by `token`, creating a user with the
+ * form's `username` and `password` in the invitation's organization, and
+ * signing in as them.
+ *
+ * Invitations act on behalf of the user who created them, who must still have
+ * the `create_user` permission on the organization, and still be able to
+ * assign the invitation's role; see `unassignableRoles`.
+ *
+ * ## Oso documentation
+ * Demonstrates authorizing a deferred action as the user who requested it,
+ * rather than the (unauthenticated) user completing it, as well as using the
+ * outbox to synchronize changes to Oso's centralized authorization data.
+ */
+export async function acceptInvite(
+  // Bound parameter because `acceptInvite` is used as a form action.
+  token: string,
+  _prevState: Result<string> | null,
+  formData: FormData
+): Promise<Result<string>> {
+  const username = ((formData.get("username") as string | null) ?? "").trim();
+  const password = (formData.get("password") as string | null) ?? "";
+
+  const client = await pool.connect();
+  try {
+    if (!username || !password) {
+      throw new Error(`username and password are required`);
+    }
+
+    await client.query("BEGIN");
+    const res = await client.query<{
+      id: string;
+      org: string;
+      role: string;
+      created_by: string;
+    }>(
+      `SELECT id, org, role, created_by
+      FROM invites
+      WHERE token_hash = $1
+        AND accepted_at IS NULL
+        AND revoked_at IS NULL
+        AND expires_at > now()
+      FOR UPDATE`,
+      [hashToken(token)]
+    );
+    if (res.rowCount !== 1) {
+      throw new Error(`invitation is invalid or has expired`);
+    }
+    const invite = res.rows[0];
+    const org = { type: "Organization", id: invite.org };
+    const auth = await authorizeUser(
+      oso,
+      client,
+      invite.created_by,
+      "create_user",
+      org
+    );
+    const auditEvent = {
+      requestor: invite.created_by,
+      action: "acceptInvite",
+      permission: "create_user",
+      target_type: "User",
+      target_id: username,
+      org: invite.org,
+      after: { org: invite.org, role: invite.role, invite: invite.id },
+    };
+    // The inviter's roles may have changed since they sent the invitation, so
+    // they must still be able to assign its role.
+    if (
+      !auth ||
+      (await unassignableRoles(client, invite.created_by, [invite])).length
+    ) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      throw new Error(`invitation is no longer valid`);
+    }
+
+    await client.query(`INSERT INTO users (username) VALUES ($1);`, [username]);
+    await client.query(
+      `INSERT INTO memberships (username, org, role) VALUES ($1, $2, $3);`,
+      [username, invite.org, invite.role]
+    );
+    await client.query(
+      `INSERT INTO user_credentials (username, password_hash)
+      VALUES ($1, crypt($2, gen_salt('bf')));`,
+      [username, password]
+    );
+    await client.query(
+      `UPDATE invites SET accepted_by = $2, accepted_at = now() WHERE id = $1`,
+      [invite.id, username]
+    );
+    await recordAuditEvents(client, [{ ...auditEvent, allowed: true }]);
+
+    // Propagate the new user's role to Oso's centralized authorization data
+    // store for other services to use.
+    const user = { type: "User", id: username };
+    await enqueueBatch(client, (tx) => {
+      tx.insert(["has_status", user, "active"]);
+      tx.insert(["has_assigned_role", user, invite.role, org]);
+      tx.insert(["has_relation", user, "parent", org]);
+    });
+    await client.query("COMMIT");
+
+    await setSession(username);
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in acceptInvite:", error);
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+
+  // `redirect` throws, so must occur outside of the `try`.
+  redirect(`/user/${username}`);
+}
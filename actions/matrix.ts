@@ -0,0 +1,165 @@
+"use server";
+
+import { typedVar } from "oso-cloud";
+
+import { usersPool as pool } from "@/lib/db";
+import {
+  grantKey,
+  MatrixFilter,
+  MatrixResource,
+  MatrixUser,
+  MATRIX_ACTIONS,
+  PermissionMatrix,
+} from "@/lib/matrix";
+import { osoUserMgmt as oso } from "@/lib/oso";
+import { getRequestor } from "@/lib/requestor";
+
+/**
+ * Get the permission matrix of which actions the users `requestor` can `read`
+ * have on the global resource, and on the organizations and users `requestor`
+ * can `read`.
+ *
+ * ## Oso documentation
+ * Demonstrates evaluating `allow` with variables for the actor, action, and
+ * resource, which computes every permission in a single local query per
+ * resource type. `in` constrains those variables to the rows the requestor
+ * can read, so the resulting queries stay bounded.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getPermissionMatrix(
+  filter: MatrixFilter
+): Promise<PermissionMatrix> {
+  const requestor = await getRequestor();
+  const osoUser = { type: "User", id: requestor };
+  const client = await pool.connect();
+  try {
+    const [readUserCond, readOrgCond, readMembershipCond] = await Promise.all([
+      oso.listLocal(osoUser, "read", "User", "users.username"),
+      oso.listLocal(osoUser, "read", "Organization", "organizations.name"),
+      oso.listLocal(osoUser, "read", "Organization", "memberships.org"),
+    ]);
+
+    // Users must have a membership matching the filter.
+    const params: string[] = [];
+    const filterConditions = ["filtered.username = users.username"];
+    if (filter.org) {
+      params.push(filter.org);
+      filterConditions.push(`filtered.org = $${params.length}`);
+    }
+    if (filter.role) {
+      params.push(filter.role);
+      filterConditions.push(`filtered.role = $${params.length}`);
+    }
+
+    const [usersRes, orgsRes, rolesRes] = await Promise.all([
+      client.query<MatrixUser>(
+        `SELECT users.username,
+          json_agg(
+            json_build_object('org', memberships.org, 'role', memberships.role)
+            ORDER BY memberships.org
+          ) AS memberships
+        FROM users
+        JOIN memberships ON memberships.username = users.username
+        WHERE ${readUserCond} AND ${readMembershipCond} AND EXISTS (
+          SELECT 1 FROM memberships AS filtered
+          WHERE ${filterConditions.join(" AND ")}
+        )
+        GROUP BY users.username
+        ORDER BY users.username`,
+        params
+      ),
+      client.query<{ name: string }>(
+        `SELECT name FROM organizations WHERE ${readOrgCond} ORDER BY name`
+      ),
+      client.query<{ name: string }>(
+        `SELECT DISTINCT roles.name
+        FROM roles
+        JOIN organizations ON organizations.name = roles.org
+        WHERE ${readOrgCond}
+        ORDER BY roles.name`
+      ),
+    ]);
+    const users = usersRes.rows;
+    const orgs = orgsRes.rows.map((org) => org.name);
+    const roles = rolesRes.rows.map((role) => role.name);
+    const matrixOrgs = orgs.filter((org) => !filter.org || org === filter.org);
+
+    const resources: MatrixResource[] = [
+      { type: "global", id: null },
+      ...matrixOrgs.map((id) => ({ type: "Organization" as const, id })),
+      ...users.map((user) => ({ type: "User" as const, id: user.username })),
+    ];
+    const grants = new Map<string, string[]>();
+    if (!users.length) {
+      return { users, resources, grants, orgs, roles };
+    }
+
+    const usernames = users.map((user) => user.username);
+    const actorVar = typedVar("User");
+    const actionVar = typedVar("String");
+    const userVar = typedVar("User");
+    const orgVar = typedVar("Organization");
+
+    const userGrants = await oso
+      .buildQuery(["allow", actorVar, actionVar, userVar])
+      .in(actorVar, usernames)
+      .in(actionVar, MATRIX_ACTIONS)
+      .in(userVar, usernames)
+      .evaluateLocalSelect({
+        username: actorVar,
+        action: actionVar,
+        resource_id: userVar,
+      });
+    const globalGrants = await oso
+      .buildQuery(["has_permission", actorVar, "create_org"])
+      .in(actorVar, usernames)
+      .evaluateLocalSelect({ username: actorVar });
+
+    // Each query returns rows of `username`, `type`, `id`, and `actions`.
+    const grantQueries = [
+      `SELECT username, 'User' AS type, resource_id AS id,
+        array_agg(DISTINCT action) AS actions
+      FROM (${userGrants}) AS user_grants
+      GROUP BY username, resource_id`,
+      `SELECT DISTINCT username, 'global', NULL, ARRAY['create_org']
+      FROM (${globalGrants}) AS global_grants`,
+    ];
+    // `in` requires at least one value.
+    if (matrixOrgs.length) {
+      const orgGrants = await oso
+        .buildQuery(["allow", actorVar, actionVar, orgVar])
+        .in(actorVar, usernames)
+        .in(actionVar, MATRIX_ACTIONS)
+        .in(orgVar, matrixOrgs)
+        .evaluateLocalSelect({
+          username: actorVar,
+          action: actionVar,
+          resource_id: orgVar,
+        });
+      grantQueries.push(
+        `SELECT username, 'Organization', resource_id,
+          array_agg(DISTINCT action)
+        FROM (${orgGrants}) AS org_grants
+        GROUP BY username, resource_id`
+      );
+    }
+
+    const grantsRes = await client.query<{
+      username: string;
+      type: MatrixResource["type"];
+      id: string | null;
+      actions: string[];
+    }>(grantQueries.join("\nUNION ALL\n"));
+    for (const row of grantsRes.rows) {
+      grants.set(grantKey(row.username, row), row.actions);
+    }
+
+    return { users, resources, grants, orgs, roles };
+  } catch (error) {
+    console.error("Error in getPermissionMatrix:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
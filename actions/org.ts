@@ -1,8 +1,21 @@
 "use server";
 
+import { PoolClient } from "pg";
+
 import { usersPool as pool, query } from "@/lib/db";
+import { recordAuditEvents } from "@/lib/audit";
+import { unassignableRoles } from "@/lib/memberships";
 import { authorizeUser, osoUserMgmt as oso } from "@/lib/oso";
-import { Org, Role } from "@/lib/relations";
+import { getRequestor } from "@/lib/requestor";
+import { assertDestructiveAllowed } from "@/lib/session";
+import { enqueueBatch } from "@/lib/outbox";
+import {
+  Membership,
+  Org,
+  Role,
+  RolePermission,
+  UserStatus,
+} from "@/lib/relations";
 import { Result, stringifyError } from "@/lib/result";
 
 /**
@@ -15,7 +28,8 @@ import { Result, stringifyError } from "@/lib/result";
  *
  * @throws {Error} If there is a problem with the database connection.
  */
-export async function canCreateOrg(requestor: string): Promise<boolean> {
+export async function canCreateOrg(): Promise<boolean> {
+  const requestor = await getRequestor();
   const client = await pool.connect();
   try {
     return await authorizeUser(oso, client, requestor, "create_org");
@@ -28,9 +42,46 @@ export async function canCreateOrg(requestor: string): Promise<boolean> {
 }
 
 /**
- * Create a new organization.
+ * Ensures that `parent` exists and that making it the parent of `org` would
+ * not make `org` its own ancestor.
+ *
+ * @throws {Error} If `parent` does not exist, or is `org` or one of its
+ * descendants.
+ */
+async function assertNoCycle(
+  client: PoolClient,
+  org: string,
+  parent: string
+): Promise<void> {
+  // `UNION` discards repeated rows, so this terminates even if the existing
+  // organizations already contain a cycle.
+  const res = await client.query<Org>(
+    `WITH RECURSIVE ancestors (name, parent) AS (
+      SELECT name, parent FROM organizations WHERE name = $1
+      UNION
+      SELECT organizations.name, organizations.parent
+      FROM organizations
+      JOIN ancestors ON organizations.name = ancestors.parent
+    )
+    SELECT name, parent FROM ancestors`,
+    [parent]
+  );
+  if (res.rowCount === 0) {
+    throw new Error(`cannot find Organization ${parent}`);
+  }
+  if (res.rows.some((ancestor) => ancestor.name === org)) {
+    throw new Error(
+      `cannot make Organization ${parent} the parent of ${org}, which would create a cycle`
+    );
+  }
+}
+
+/**
+ * Create a new organization, optionally as a sub-organization of the form's
+ * `parent`.
  *
- * Requires that the user has the `create_org` `global` permission.
+ * Requires that the user has the `create_org` `global` permission. `_root`
+ * cannot have sub-organizations because its roles are `global` roles.
  *
  * ## Oso documentation
  * This function demonstrates a standard write path––determining the user has
@@ -39,13 +90,13 @@ export async function canCreateOrg(requestor: string): Promise<boolean> {
  * `global` permission.
  */
 export async function createOrg(
-  // Bound parameter because `createUser` is used as a form action.
-  p: { requestor: string },
   _prevState: Result<string> | null,
   formData: FormData
 ): Promise<Result<string>> {
+  const requestor = await getRequestor();
   const data = {
     name: formData.get("orgName")! as string,
+    parent: (formData.get("parent") as string | null) || null,
   };
 
   const client = await pool.connect();
@@ -53,18 +104,53 @@ export async function createOrg(
     const auth = await await authorizeUser(
       oso,
       client,
-      p.requestor,
+      requestor,
       "create_org"
     );
+    const auditEvent = {
+      requestor,
+      action: "createOrg",
+      permission: "create_org",
+      target_type: "Organization",
+      target_id: data.name,
+      org: data.name,
+      after: { parent: data.parent },
+    };
     if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
       throw new Error(`not permitted to create Organization ${data.name}`);
     }
+    if (data.parent === "_root") {
+      throw new Error(`cannot create sub-organizations of Organization _root`);
+    }
 
-    await client.query(`INSERT INTO organizations (name) VALUES ($1);`, [
-      data.name,
-    ]);
+    await client.query("BEGIN");
+    if (data.parent !== null) {
+      await assertNoCycle(client, data.name, data.parent);
+    }
+    await client.query(
+      `INSERT INTO organizations (name, parent, created_by) VALUES ($1, $2, $3);`,
+      [data.name, data.parent, requestor]
+    );
+    await recordAuditEvents(client, [{ ...auditEvent, allowed: true }]);
+
+    // Synchronize the organization's parent to Oso's centralized
+    // authorization data for use in other services.
+    const parent = data.parent;
+    if (parent !== null) {
+      await enqueueBatch(client, (tx) => {
+        tx.insert([
+          "has_relation",
+          { type: "Organization", id: data.name },
+          "parent",
+          { type: "Organization", id: parent },
+        ]);
+      });
+    }
+    await client.query("COMMIT");
     return { success: true, value: data.name };
   } catch (error) {
+    await client.query("ROLLBACK");
     console.error("Error in createOrg:", error);
     return { success: false, error: stringifyError(error) };
   } finally {
@@ -73,7 +159,7 @@ export async function createOrg(
 }
 
 /**
- * Determine which organizations this user can create users on.
+ * Determine which organizations the requestor can create users on.
  *
  * ## Oso documentation
  * This function demonstrates a standard "authorized list" query, returning a
@@ -81,12 +167,13 @@ export async function createOrg(
  *
  * @throws {Error} If there is a problem with the database connection.
  */
-export async function getCreateUserOrgs(username: string): Promise<Org[]> {
+export async function getCreateUserOrgs(): Promise<Org[]> {
+  const requestor = await getRequestor();
   // Inline the condition generated from `listLocal` into a query the get the
   // organization's names.
   const client = await pool.connect();
   try {
-    const osoUser = { type: "User", id: username };
+    const osoUser = { type: "User", id: requestor };
 
     // Determine the organizations for which the user has `create_user`
     // permissions.
@@ -99,7 +186,7 @@ export async function getCreateUserOrgs(username: string): Promise<Org[]> {
 
     // Inline the condition generated from `listLocal` into a query the get the
     // organization's names.
-    const canCreateUserOrg = `SELECT organizations.name FROM organizations WHERE ${canCreateUserOrgCond}`;
+    const canCreateUserOrg = `SELECT organizations.name, organizations.parent FROM organizations WHERE ${canCreateUserOrgCond}`;
     const value = await client.query<Org>(canCreateUserOrg);
     return value.rows;
   } catch (error) {
@@ -111,13 +198,666 @@ export async function getCreateUserOrgs(username: string): Promise<Org[]> {
 }
 
 /**
- * Fetch the roles that exist on organizations.
+ * Get the organizations which `requestor` can `read`.
+ *
+ * ## Oso documentation
+ * This function demonstrates a standard "authorized list" query.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getReadableOrgs(): Promise<Org[]> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const osoUser = { type: "User", id: requestor };
+    const readOrgCond = await oso.listLocal(
+      osoUser,
+      "read",
+      "Organization",
+      "organizations.name"
+    );
+    const res = await client.query<Org>(
+      `SELECT name, parent FROM organizations WHERE ${readOrgCond} ORDER BY name`
+    );
+    return res.rows;
+  } catch (error) {
+    console.error("Error in getReadableOrgs:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Fetch the roles that exist on organization `org`: the built-in roles from
+ * `oso_policy.polar`, followed by the organization's custom roles.
  *
  * @throws {Error} If there is a problem with the database connection.
  */
-export async function getOrgRoles(): Promise<Role[]> {
+export async function getOrgRoles(org: string): Promise<Role[]> {
   return query<Role>(
     pool,
-    `SELECT DISTINCT name FROM unnest(enum_range(NULL::organization_role)) AS name`
+    `SELECT org, name, builtin
+    FROM roles
+    WHERE org = $1
+    ORDER BY builtin DESC, name`,
+    [org]
   );
 }
+
+/**
+ * Identifies an `Organization` the requestor is permitted to read, as well as
+ * fields describing the requestor's permissions to manage it.
+ */
+export interface ManageableOrg extends Org {
+  renameOrg: boolean;
+  deleteOrg: boolean;
+}
+
+/**
+ * Get the organizations which `requestor` can `read` and either `rename` or
+ * `delete`, as well as which of those permissions they have.
+ *
+ * ## Oso documentation
+ * Demonstrates combining multiple conditions generated by `listLocal` in a
+ * single query, both to filter rows and to compute per-row permissions.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getManageableOrgs(): Promise<ManageableOrg[]> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const osoUser = { type: "User", id: requestor };
+
+    const [readCond, renameCond, deleteCond] = await Promise.all(
+      ["read", "rename", "delete"].map((action) =>
+        oso.listLocal(osoUser, action, "Organization", "organizations.name")
+      )
+    );
+
+    const orgs = await client.query<ManageableOrg>(
+      `SELECT name, parent, renameOrg AS "renameOrg", deleteOrg AS "deleteOrg"
+      FROM (
+        SELECT
+          organizations.name,
+          organizations.parent,
+          (${renameCond}) AS renameOrg,
+          (${deleteCond}) AS deleteOrg
+        FROM organizations
+        WHERE ${readCond}
+      ) AS orgs
+      WHERE renameOrg OR deleteOrg
+      ORDER BY name`
+    );
+    return orgs.rows;
+  } catch (error) {
+    console.error("Error in getManageableOrgs:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Identifies an `Organization` the requestor is permitted to read, as well as
+ * its profile, how many members have each role, and the requestor's
+ * permissions on it.
+ */
+export interface OrgProfile extends Org {
+  // Shown instead of `name` where set.
+  display_name: string | null;
+  description: string;
+  created_at: Date;
+  // `null` if the creator was deleted or is unknown.
+  created_by: string | null;
+  // The number of members with each role, whether built-in or custom.
+  roleCounts: { role: string; members: number }[];
+  // The `Organization` permissions the requestor has on it.
+  actions: string[];
+}
+
+/**
+ * Fetches the profile of organization `org`.
+ *
+ * Requires `requestor` to have the `read` permission on `org`.
+ *
+ * ## Oso documentation
+ * Demonstrates `actionsLocal`, which fetches all of the requestor's
+ * permissions on a single resource, both to authorize the read and to let the
+ * UI show only the actions the requestor can take.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or `org` does not exist.
+ */
+export async function getOrgProfile(org: string): Promise<OrgProfile> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const actionsQuery = await oso.actionsLocal(
+      { type: "User", id: requestor },
+      { type: "Organization", id: org }
+    );
+    const actionsRes = await client.query<[string]>({
+      text: actionsQuery,
+      rowMode: "array",
+    });
+    const actions = actionsRes.rows.map(([action]) => action).sort();
+    if (!actions.includes("read")) {
+      throw new Error(`not permitted to read Organization ${org}`);
+    }
+
+    const orgRes = await client.query<
+      Omit<OrgProfile, "roleCounts" | "actions">
+    >(
+      `SELECT name, parent, display_name, description, created_at, created_by
+      FROM organizations
+      WHERE name = $1`,
+      [org]
+    );
+    if (orgRes.rowCount !== 1) {
+      throw new Error(`cannot find Organization ${org}`);
+    }
+    // Temporary roles that have expired count as the role they revert to.
+    const countsRes = await client.query<{ role: string; members: number }>(
+      `SELECT role, count(*)::int AS members
+      FROM effective_memberships
+      WHERE org = $1
+      GROUP BY role
+      ORDER BY role`,
+      [org]
+    );
+
+    return { ...orgRes.rows[0], roleCounts: countsRes.rows, actions };
+  } catch (error) {
+    console.error("Error in getOrgProfile:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Edits the display name and description of organization `org` to those in
+ * the form; an empty display name clears it.
+ *
+ * Requires `requestor` to have the `edit` permission on `org`.
+ *
+ * ## Oso documentation
+ * Demonstrates a standard authorized write that changes only data the
+ * application owns, so has no facts to synchronize to Oso Cloud.
+ */
+export async function editOrgProfile(
+  org: string,
+  _prevState: Result<string> | null,
+  formData: FormData
+): Promise<Result<string>> {
+  const requestor = await getRequestor();
+  const data = {
+    display_name:
+      ((formData.get("displayName") as string | null) ?? "").trim() || null,
+    description: ((formData.get("description") as string | null) ?? "").trim(),
+  };
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const auth = await authorizeUser(oso, client, requestor, "edit", {
+      type: "Organization",
+      id: org,
+    });
+    const auditEvent = {
+      requestor,
+      action: "editOrgProfile",
+      permission: "edit",
+      target_type: "Organization",
+      target_id: org,
+      org,
+      after: data,
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      throw new Error(`not permitted to edit Organization ${org}`);
+    }
+
+    const before = await client.query<
+      Pick<OrgProfile, "display_name" | "description">
+    >(
+      `SELECT display_name, description
+      FROM organizations
+      WHERE name = $1
+      FOR UPDATE`,
+      [org]
+    );
+    if (before.rowCount !== 1) {
+      throw new Error(`cannot find Organization ${org}`);
+    }
+    await client.query(
+      `UPDATE organizations
+      SET display_name = $2, description = $3
+      WHERE name = $1`,
+      [org, data.display_name, data.description]
+    );
+    await recordAuditEvents(client, [
+      { ...auditEvent, allowed: true, before: before.rows[0] },
+    ]);
+    await client.query("COMMIT");
+    return { success: true, value: org };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in editOrgProfile:", error);
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Renames an organization, moving all of its users, sub-organizations and
+ * audit events to the new name.
+ *
+ * Requires `requestor` to have the `rename` permission on the organization.
+ * The `_root` organization cannot be renamed because the global roles are
+ * derived from it.
+ *
+ * ## Oso documentation
+ * Demonstrates a standard authorized endpoint, as well as using the outbox to
+ * replace all of the facts that reference a resource whose ID changed.
+ *
+ * @throws {Error} If there is a problem with the database connection or
+ * authorization fails.
+ */
+export async function renameOrg(
+  org: string,
+  newName: string
+): Promise<undefined> {
+  const requestor = await getRequestor();
+  assertDestructiveAllowed("rename organizations");
+  if (org === "_root" || newName === "_root") {
+    throw new Error(`cannot rename Organization _root`);
+  }
+  if (!newName) {
+    throw new Error(`Organization name cannot be empty`);
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const auth = await authorizeUser(oso, client, requestor, "rename", {
+      type: "Organization",
+      id: org,
+    });
+    const auditEvent = {
+      requestor,
+      action: "renameOrg",
+      permission: "rename",
+      target_type: "Organization",
+      target_id: org,
+      before: { name: org },
+      after: { name: newName },
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false, org }]);
+      throw new Error(`not permitted to rename Organization ${org}`);
+    }
+
+    // Lock the organization's memberships so that the facts we replace below
+    // reflect the rows we move.
+    const members = await client.query<Membership>(
+      `SELECT username, org, role
+      FROM memberships
+      WHERE org = $1
+      FOR UPDATE`,
+      [org]
+    );
+    const grants = await client.query<RolePermission>(
+      `SELECT org, role, permission
+      FROM role_permissions
+      WHERE org = $1
+      FOR UPDATE`,
+      [org]
+    );
+    // The organization itself, as well as its sub-organizations.
+    const related = await client.query<Org>(
+      `SELECT name, parent
+      FROM organizations
+      WHERE name = $1 OR parent = $1
+      FOR UPDATE`,
+      [org]
+    );
+
+    // `memberships.org`, `roles.org`, `role_permissions.org` and
+    // `organizations.parent` cascade the update.
+    const res = await client.query(
+      `UPDATE organizations SET name = $2 WHERE name = $1`,
+      [org, newName]
+    );
+    if (res.rowCount !== 1) {
+      throw new Error(`cannot find Organization ${org}`);
+    }
+    // Audit events outlive their organization, so `audit_events.org` has no
+    // foreign key to cascade the update. Moving them keeps the history
+    // readable by the organization's `read_audit` holders, and away from any
+    // organization later created with the old name.
+    await client.query(`UPDATE audit_events SET org = $2 WHERE org = $1`, [
+      org,
+      newName,
+    ]);
+    // Record the event under the new name, which is what readers are
+    // authorized against.
+    await recordAuditEvents(client, [
+      { ...auditEvent, allowed: true, org: newName },
+    ]);
+
+    const oldOrg = { type: "Organization", id: org };
+    const newOrg = { type: "Organization", id: newName };
+
+    // Synchronize the moved users' roles and relations to Oso's centralized
+    // authorization data for use in other services.
+    await enqueueBatch(client, (tx) => {
+      members.rows.forEach((member) => {
+        const user = { type: "User", id: member.username };
+        tx.delete(["has_assigned_role", user, member.role, oldOrg]);
+        tx.delete(["has_relation", user, "parent", oldOrg]);
+        tx.insert(["has_assigned_role", user, member.role, newOrg]);
+        tx.insert(["has_relation", user, "parent", newOrg]);
+      });
+      grants.rows.forEach((grant) => {
+        tx.delete(["grants_permission", oldOrg, grant.role, grant.permission]);
+        tx.insert(["grants_permission", newOrg, grant.role, grant.permission]);
+      });
+      related.rows.forEach((related) => {
+        if (related.name === org && related.parent !== null) {
+          const parent = { type: "Organization", id: related.parent };
+          tx.delete(["has_relation", oldOrg, "parent", parent]);
+          tx.insert(["has_relation", newOrg, "parent", parent]);
+        } else if (related.name !== org) {
+          const child = { type: "Organization", id: related.name };
+          tx.delete(["has_relation", child, "parent", oldOrg]);
+          tx.insert(["has_relation", child, "parent", newOrg]);
+        }
+      });
+    });
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in renameOrg:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Describes what happens to an organization's users when it is deleted.
+ *
+ * - `block` refuses to delete organizations that have users.
+ * - `reassign` moves all users, with their current roles, to `org`. Users who
+ *   already belong to `org` keep their role there, and users whose role `org`
+ *   does not define become `member`s.
+ * - `cascade` removes all users from the organization, deleting those who do
+ *   not belong to any other organization.
+ */
+export type MemberDisposition =
+  | { strategy: "block" }
+  | { strategy: "reassign"; org: string }
+  | { strategy: "cascade" };
+
+/**
+ * Deletes an organization, handling its users as described by `members`.
+ *
+ * Requires `requestor` to have the `delete` permission on the organization, as
+ * well as:
+ * - `create_user` on the destination organization when reassigning users, as
+ *   well as everything the roles they are reassigned permit there.
+ * - `delete` on every user deleted when cascading the deletion.
+ *
+ * The `_root` organization, and organizations with sub-organizations, cannot be
+ * deleted.
+ *
+ * ## Oso documentation
+ * Demonstrates authorizing a single write that affects many resources, using
+ * local authorization inside of a transaction, as well as using the outbox to
+ * remove all facts that reference a deleted resource.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the organization still has users and `members` is
+ * `block`.
+ */
+export async function deleteOrg(
+  org: string,
+  members: MemberDisposition
+): Promise<undefined> {
+  const requestor = await getRequestor();
+  assertDestructiveAllowed("delete organizations");
+  if (org === "_root") {
+    throw new Error(`cannot delete Organization _root`);
+  }
+  if (members.strategy === "reassign" && members.org === org) {
+    throw new Error(`cannot reassign users to the deleted Organization`);
+  }
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const osoOrg = { type: "Organization", id: org };
+    const auth = await authorizeUser(oso, client, requestor, "delete", osoOrg);
+    const auditEvent = {
+      requestor,
+      action: "deleteOrg",
+      permission: "delete",
+      target_type: "Organization",
+      target_id: org,
+      org,
+      after: members,
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      throw new Error(`not permitted to delete Organization ${org}`);
+    }
+
+    // Lock the organization and its sub-organizations, which must be deleted
+    // first.
+    const related = await client.query<Org>(
+      `SELECT name, parent
+      FROM organizations
+      WHERE name = $1 OR parent = $1
+      FOR UPDATE`,
+      [org]
+    );
+    const subOrgs = related.rows.filter((related) => related.name !== org);
+    if (subOrgs.length > 0) {
+      throw new Error(
+        `cannot delete Organization ${org} while it has ${subOrgs.length} sub-organization(s)`
+      );
+    }
+    const parent = related.rows.find((related) => related.name === org)?.parent;
+
+    // Lock the organization's memberships so that no users are added to it
+    // while we determine how to handle them.
+    const memberRes = await client.query<Membership>(
+      `SELECT username, org, role
+      FROM memberships
+      WHERE org = $1
+      FOR UPDATE`,
+      [org]
+    );
+    const orgMembers = memberRes.rows;
+    // The members added to the destination organization when reassigning.
+    let reassigned: Membership[] = [];
+    // The users deleted, with their statuses, when cascading.
+    let deleted: { username: string; status: UserStatus }[] = [];
+
+    switch (members.strategy) {
+      case "block":
+        if (orgMembers.length > 0) {
+          throw new Error(
+            `cannot delete Organization ${org} while it has ${orgMembers.length} user(s)`
+          );
+        }
+        break;
+      case "reassign": {
+        const destAuth = await authorizeUser(
+          oso,
+          client,
+          requestor,
+          "create_user",
+          { type: "Organization", id: members.org }
+        );
+        if (!destAuth) {
+          await recordAuditEvents(pool, [
+            { ...auditEvent, permission: "create_user", allowed: false },
+          ]);
+          throw new Error(
+            `not permitted to create users in Organization ${members.org}`
+          );
+        }
+        // Members keep their role, if the destination has it, unless they
+        // already belong to the destination.
+        const candidates = await client.query<Membership>(
+          `SELECT username, $2 AS org, COALESCE(
+            (
+              SELECT name FROM roles
+              WHERE org = $2
+                -- Temporary roles are not reassigned.
+                AND name = COALESCE(memberships.revert_role, memberships.role)
+            ),
+            'member'
+          ) AS role
+          FROM memberships
+          WHERE org = $1
+            AND NOT EXISTS (
+              SELECT 1 FROM memberships AS dest
+              WHERE dest.username = memberships.username AND dest.org = $2
+            )`,
+          [org, members.org]
+        );
+        const [unassignable] = await unassignableRoles(
+          client,
+          requestor,
+          candidates.rows
+        );
+        if (unassignable) {
+          await recordAuditEvents(pool, [
+            { ...auditEvent, permission: "create_user", allowed: false },
+          ]);
+          throw new Error(
+            `not permitted to assign role ${unassignable.role} in Organization ${members.org}`
+          );
+        }
+        const res = await client.query<Membership>(
+          `INSERT INTO memberships (username, org, role)
+          SELECT * FROM unnest($1::TEXT[], $2::TEXT[], $3::TEXT[])
+          ON CONFLICT (username, org) DO NOTHING
+          RETURNING username, org, role`,
+          [
+            candidates.rows.map((m) => m.username),
+            candidates.rows.map((m) => m.org),
+            candidates.rows.map((m) => m.role),
+          ]
+        );
+        reassigned = res.rows;
+        break;
+      }
+      case "cascade": {
+        // Users who belong to other organizations only lose their membership.
+        const soleMembers = await client.query<{ username: string }>(
+          `SELECT username
+          FROM memberships
+          WHERE org = $1 AND NOT EXISTS (
+            SELECT 1 FROM memberships AS others
+            WHERE others.username = memberships.username AND others.org <> $1
+          )`,
+          [org]
+        );
+        // Ensure the requestor can delete every other user in the
+        // organization, mirroring the approach in `editRoles`.
+        const deleteAuthorized = await oso.listLocal(
+          { type: "User", id: requestor },
+          "delete",
+          "User",
+          "users.username"
+        );
+        const res = await client.query<{
+          username: string;
+          status: UserStatus;
+        }>(
+          `DELETE FROM users WHERE username = ANY($1) AND ${deleteAuthorized}
+          RETURNING username, status`,
+          [soleMembers.rows.map((member) => member.username)]
+        );
+        if (res.rowCount !== soleMembers.rowCount) {
+          await recordAuditEvents(pool, [
+            { ...auditEvent, allowed: false, before: { users: orgMembers } },
+          ]);
+          throw new Error(`not permitted to delete all users in ${org}`);
+        }
+        deleted = res.rows;
+        break;
+      }
+    }
+
+    await client.query(`DELETE FROM memberships WHERE org = $1`, [org]);
+    // `roles` and `role_permissions` cascade the deletion.
+    const grants = await client.query<RolePermission>(
+      `SELECT org, role, permission FROM role_permissions WHERE org = $1`,
+      [org]
+    );
+    const res = await client.query(
+      `DELETE FROM organizations WHERE name = $1`,
+      [org]
+    );
+    if (res.rowCount !== 1) {
+      throw new Error(`cannot find Organization ${org}`);
+    }
+    await recordAuditEvents(client, [
+      { ...auditEvent, allowed: true, before: { users: orgMembers } },
+    ]);
+
+    // Synchronize the removed users' roles and relations, the deleted users'
+    // statuses, as well as the organization's custom roles and parent, to
+    // Oso's centralized authorization data for use in other services.
+    await enqueueBatch(client, (tx) => {
+      orgMembers.forEach((member) => {
+        const user = { type: "User", id: member.username };
+        tx.delete(["has_assigned_role", user, member.role, osoOrg]);
+        tx.delete(["has_relation", user, "parent", osoOrg]);
+      });
+      grants.rows.forEach((grant) => {
+        tx.delete(["grants_permission", osoOrg, grant.role, grant.permission]);
+      });
+      if (parent) {
+        tx.delete([
+          "has_relation",
+          osoOrg,
+          "parent",
+          { type: "Organization", id: parent },
+        ]);
+      }
+      deleted.forEach((user) => {
+        tx.delete([
+          "has_status",
+          { type: "User", id: user.username },
+          user.status,
+        ]);
+      });
+      reassigned.forEach((member) => {
+        const user = { type: "User", id: member.username };
+        const destOrg = { type: "Organization", id: member.org };
+        tx.insert(["has_assigned_role", user, member.role, destOrg]);
+        tx.insert(["has_relation", user, "parent", destOrg]);
+      });
+    });
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in deleteOrg:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
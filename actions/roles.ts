@@ -0,0 +1,363 @@
+"use server";
+
+import { readFile } from "fs/promises";
+import path from "path";
+
+import { recordAuditEvents } from "@/lib/audit";
+import { usersPool as pool } from "@/lib/db";
+import { parsePolicy, Policy } from "@/lib/explain";
+import { authorizeUser, osoUserMgmt as oso } from "@/lib/oso";
+import { enqueueBatch } from "@/lib/outbox";
+import { Org, Role } from "@/lib/relations";
+import { Result, stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
+import { assertDestructiveAllowed } from "@/lib/session";
+
+/**
+ * A role defined by an organization, as well as the `Organization` permissions
+ * it grants.
+ */
+export interface CustomRole extends Role {
+  permissions: string[];
+}
+
+/**
+ * Get the `Organization` permissions from `oso_policy.polar`, which custom
+ * roles can grant.
+ *
+ * @throws {Error} If there is a problem reading the policy.
+ */
+export async function getGrantablePermissions(): Promise<string[]> {
+  const policy = await readPolicy();
+  return policy.get("Organization")?.permissions ?? [];
+}
+
+async function readPolicy(): Promise<Policy> {
+  return parsePolicy(
+    await readFile(path.join(process.cwd(), "oso_policy.polar"), "utf8")
+  );
+}
+
+/**
+ * Determine which organizations the requestor can manage the roles of.
+ *
+ * ## Oso documentation
+ * This function demonstrates a standard "authorized list" query, returning a
+ * set of resources that the requestor has a specific permission on.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function getManageRolesOrgs(): Promise<Org[]> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const manageRolesCond = await oso.listLocal(
+      { type: "User", id: requestor },
+      "manage_roles",
+      "Organization",
+      "organizations.name"
+    );
+    const res = await client.query<Org>(
+      `SELECT name, parent
+      FROM organizations
+      WHERE ${manageRolesCond}
+      ORDER BY name`
+    );
+    return res.rows;
+  } catch (error) {
+    console.error("Error in getManageRolesOrgs:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Get the custom roles of organization `org`, as well as the permissions they
+ * grant.
+ *
+ * Requires `requestor` to have the `manage_roles` permission on `org`.
+ *
+ * @throws {Error} If there is a problem with the database connection or
+ * authorization fails.
+ */
+export async function getCustomRoles(org: string): Promise<CustomRole[]> {
+  const requestor = await getRequestor();
+  const client = await pool.connect();
+  try {
+    const auth = await authorizeUser(oso, client, requestor, "manage_roles", {
+      type: "Organization",
+      id: org,
+    });
+    if (!auth) {
+      throw new Error(`not permitted to manage roles of Organization ${org}`);
+    }
+    const res = await client.query<CustomRole>(
+      `SELECT roles.org, roles.name, roles.builtin,
+        array_remove(
+          array_agg(role_permissions.permission ORDER BY permission),
+          NULL
+        ) AS permissions
+      FROM roles
+      LEFT JOIN role_permissions
+        ON role_permissions.org = roles.org
+        AND role_permissions.role = roles.name
+      WHERE roles.org = $1 AND NOT roles.builtin
+      GROUP BY roles.org, roles.name, roles.builtin
+      ORDER BY roles.name`,
+      [org]
+    );
+    return res.rows;
+  } catch (error) {
+    console.error("Error in getCustomRoles:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Creates or updates the custom role `name` on the form's `org`, so that it
+ * grants exactly the form's `permission`s. Built-in roles cannot be changed,
+ * and custom roles cannot share a name with any of the policy's roles or
+ * permissions.
+ *
+ * Requires `requestor` to have the `manage_roles` permission on the
+ * organization, as well as every permission the role grants.
+ *
+ * ## Oso documentation
+ * Demonstrates synchronizing facts that Polar rules other than shorthand rules
+ * rely on, i.e. `grants_permission`, to Oso's centralized authorization data.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function saveRole(
+  _prevState: Result<string> | null,
+  formData: FormData
+): Promise<Result<string>> {
+  const requestor = await getRequestor();
+  const org = formData.get("org") as string;
+  const name = ((formData.get("name") as string | null) ?? "").trim();
+  const permissions = Array.from(
+    new Set(formData.getAll("permission") as string[])
+  ).sort();
+
+  const client = await pool.connect();
+  try {
+    if (!name) {
+      throw new Error(`role name cannot be empty`);
+    }
+    // Custom roles named after the policy's roles or permissions would be
+    // confused with them, e.g. by `LocalOso`.
+    const policy = await readPolicy();
+    const reserved = Array.from(policy.values()).some(
+      (block) => block.roles.includes(name) || block.permissions.includes(name)
+    );
+    if (reserved) {
+      throw new Error(`role name ${name} is reserved by the policy`);
+    }
+    const grantable = policy.get("Organization")?.permissions ?? [];
+    const unknown = permissions.filter((p) => !grantable.includes(p));
+    if (unknown.length) {
+      throw new Error(`cannot grant unknown permissions ${unknown.join(", ")}`);
+    }
+
+    const osoOrg = { type: "Organization", id: org };
+    const auth = await authorizeUser(
+      oso,
+      client,
+      requestor,
+      "manage_roles",
+      osoOrg
+    );
+    const auditEvent = {
+      requestor,
+      action: "saveRole",
+      permission: "manage_roles",
+      target_type: "Organization",
+      target_id: org,
+      org,
+      after: { role: name, permissions },
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      return {
+        success: false,
+        error: `not permitted to manage roles of Organization ${org}`,
+      };
+    }
+    // Roles cannot grant permissions that the requestor does not have, or else
+    // they could assign the role to escalate their own privileges.
+    const actionsRes = await client.query<[string]>({
+      text: await oso.actionsLocal({ type: "User", id: requestor }, osoOrg),
+      rowMode: "array",
+    });
+    const held = actionsRes.rows.map(([action]) => action);
+    const ungrantable = permissions.filter((p) => !held.includes(p));
+    if (ungrantable.length) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      return {
+        success: false,
+        error: `not permitted to grant ${ungrantable.join(
+          ", "
+        )} on Organization ${org}`,
+      };
+    }
+
+    await client.query("BEGIN");
+    const insertRes = await client.query(
+      `INSERT INTO roles (org, name) VALUES ($1, $2)
+      ON CONFLICT (org, name) DO NOTHING`,
+      [org, name]
+    );
+    // Lock the role so that concurrent saves cannot interleave their changes
+    // to its permissions.
+    const roleRes = await client.query<{ builtin: boolean }>(
+      `SELECT builtin FROM roles WHERE org = $1 AND name = $2 FOR UPDATE`,
+      [org, name]
+    );
+    if (roleRes.rows[0].builtin) {
+      throw new Error(`cannot change built-in role ${name}`);
+    }
+    const prevRes = await client.query<{ permission: string }>(
+      `DELETE FROM role_permissions WHERE org = $1 AND role = $2
+      RETURNING permission`,
+      [org, name]
+    );
+    await client.query(
+      `INSERT INTO role_permissions (org, role, permission)
+      SELECT $1, $2, unnest($3::TEXT[])`,
+      [org, name, permissions]
+    );
+    const prevPermissions = prevRes.rows.map((row) => row.permission).sort();
+    await recordAuditEvents(client, [
+      {
+        ...auditEvent,
+        allowed: true,
+        before: insertRes.rowCount
+          ? null
+          : { role: name, permissions: prevPermissions },
+      },
+    ]);
+
+    // Synchronize the role's permissions to Oso's centralized authorization
+    // data for use in other services.
+    await enqueueBatch(client, (tx) => {
+      prevPermissions.forEach((permission) =>
+        tx.delete(["grants_permission", osoOrg, name, permission])
+      );
+      permissions.forEach((permission) =>
+        tx.insert(["grants_permission", osoOrg, name, permission])
+      );
+    });
+    await client.query("COMMIT");
+
+    return { success: true, value: name };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Deletes the custom role `name` from `org`. Built-in roles, and roles that
+ * users have, cannot be deleted.
+ *
+ * Requires `requestor` to have the `manage_roles` permission on `org`.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the role cannot be deleted.
+ */
+export async function deleteRole(
+  org: string,
+  name: string
+): Promise<undefined> {
+  const requestor = await getRequestor();
+  assertDestructiveAllowed("delete roles");
+  const client = await pool.connect();
+  try {
+    const osoOrg = { type: "Organization", id: org };
+    const auth = await authorizeUser(
+      oso,
+      client,
+      requestor,
+      "manage_roles",
+      osoOrg
+    );
+    const auditEvent = {
+      requestor,
+      action: "deleteRole",
+      permission: "manage_roles",
+      target_type: "Organization",
+      target_id: org,
+      org,
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [
+        { ...auditEvent, allowed: false, before: { role: name } },
+      ]);
+      throw new Error(`not permitted to manage roles of Organization ${org}`);
+    }
+
+    await client.query("BEGIN");
+    const roleRes = await client.query<{ builtin: boolean; users: number }>(
+      `SELECT builtin,
+        (SELECT count(*)::INTEGER FROM memberships
+          WHERE memberships.org = roles.org
+            AND roles.name IN (memberships.role, memberships.revert_role)
+        ) AS users
+      FROM roles
+      WHERE org = $1 AND name = $2
+      FOR UPDATE`,
+      [org, name]
+    );
+    if (roleRes.rowCount !== 1) {
+      throw new Error(`cannot find role ${name} in Organization ${org}`);
+    }
+    const { builtin, users } = roleRes.rows[0];
+    if (builtin) {
+      throw new Error(`cannot delete built-in role ${name}`);
+    }
+    if (users > 0) {
+      throw new Error(
+        `cannot delete role ${name} while ${users} user(s) have it`
+      );
+    }
+    // `role_permissions` cascades the deletion.
+    const prevRes = await client.query<{ permission: string }>(
+      `SELECT permission FROM role_permissions WHERE org = $1 AND role = $2`,
+      [org, name]
+    );
+    await client.query(`DELETE FROM roles WHERE org = $1 AND name = $2`, [
+      org,
+      name,
+    ]);
+    const prevPermissions = prevRes.rows.map((row) => row.permission);
+    await recordAuditEvents(client, [
+      {
+        ...auditEvent,
+        allowed: true,
+        before: { role: name, permissions: prevPermissions },
+      },
+    ]);
+
+    // Synchronize the role's removal to Oso's centralized authorization data
+    // for use in other services.
+    await enqueueBatch(client, (tx) => {
+      prevPermissions.forEach((permission) =>
+        tx.delete(["grants_permission", osoOrg, name, permission])
+      );
+    });
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in deleteRole:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
@@ -0,0 +1,197 @@
+"use server";
+
+import { redirect } from "next/navigation";
+
+import { recordAuditEvents } from "@/lib/audit";
+import { usersPool as pool } from "@/lib/db";
+import { manageAllMembershipsCondition } from "@/lib/memberships";
+import { authorizeUser, osoUserMgmt as oso } from "@/lib/oso";
+import { UserStatus } from "@/lib/relations";
+import { Result } from "@/lib/result";
+import {
+  clearSession,
+  getSession,
+  getSessionUser,
+  setSession,
+} from "@/lib/session";
+
+/**
+ * Signs in as the user identified by the form's `username` and `password`,
+ * and redirects them to their page.
+ *
+ * Passwords are hashed with `pgcrypto`'s `crypt`, so the comparison occurs in
+ * the database. Suspended users cannot sign in.
+ */
+export async function login(
+  _prevState: Result<string> | null,
+  formData: FormData
+): Promise<Result<string>> {
+  const username = formData.get("username")! as string;
+  const password = formData.get("password")! as string;
+
+  try {
+    const res = await pool.query<{ valid: boolean; status: UserStatus }>(
+      `SELECT password_hash = crypt($2, password_hash) AS valid, users.status
+      FROM user_credentials
+      JOIN users ON users.username = user_credentials.username
+      WHERE user_credentials.username = $1`,
+      [username, password]
+    );
+    if (!res.rows[0]?.valid) {
+      // Do not reveal whether the user exists.
+      return { success: false, error: "invalid username or password" };
+    }
+    if (res.rows[0].status === "suspended") {
+      return { success: false, error: "your account is suspended" };
+    }
+    await setSession(username);
+  } catch (error) {
+    console.error("Error in login:", error);
+    return { success: false, error: "unable to sign in" };
+  }
+
+  // `redirect` throws, so must occur outside of the `try`.
+  redirect(`/user/${username}`);
+}
+
+/**
+ * Marks the current session's impersonation, if any, as ended.
+ */
+async function endImpersonation(): Promise<void> {
+  const session = await getSession();
+  if (!session?.impersonationId) {
+    return;
+  }
+  await pool.query(
+    `UPDATE impersonation_sessions SET ended_at = now()
+    WHERE id = $1 AND ended_at IS NULL`,
+    [session.impersonationId]
+  );
+  await recordAuditEvents(pool, [
+    {
+      requestor: session.username,
+      action: "stopImpersonation",
+      permission: "impersonate",
+      allowed: true,
+      target_type: "User",
+      target_id: session.actingAs!,
+    },
+  ]);
+}
+
+/**
+ * Signs out of the current session.
+ */
+export async function logout(): Promise<void> {
+  await endImpersonation();
+  clearSession();
+  redirect("/login");
+}
+
+/**
+ * Acts as `username` for the remainder of the session, e.g. to demonstrate how
+ * the application appears to them.
+ *
+ * Requires the signed-in user (rather than any user they are currently
+ * impersonating) to have the `impersonate` permission on `username`, as well
+ * as the `create_user` permission on each of `username`'s organizations, so
+ * that impersonation does not grant access to other organizations.
+ *
+ * Unless the form's `allowDestructive` is checked, actions that destroy or
+ * overwrite data are refused while impersonating. Suspended users cannot be
+ * impersonated, and `suspendUser` ends any impersonation of them.
+ *
+ * ## Oso documentation
+ * Demonstrates authorizing the signed-in user, rather than the effective
+ * requestor, which ensures impersonation cannot be chained to escalate
+ * privileges.
+ *
+ * @throws {Error} If there is a problem with the database connection or
+ * authorization fails, or the user is suspended.
+ */
+export async function startImpersonation(
+  // Bound parameter because `startImpersonation` is used as a form action.
+  username: string,
+  formData: FormData
+): Promise<void> {
+  const sessionUser = getSessionUser();
+  if (username === sessionUser) {
+    return stopImpersonation();
+  }
+  const allowDestructive = formData.get("allowDestructive") === "on";
+
+  const client = await pool.connect();
+  try {
+    const auth = await authorizeUser(oso, client, sessionUser, "impersonate", {
+      type: "User",
+      id: username,
+    });
+    const auditEvent = {
+      requestor: sessionUser,
+      action: "startImpersonation",
+      permission: "impersonate",
+      target_type: "User",
+      target_id: username,
+      after: { allowDestructive },
+    };
+    const manageAllCond = await manageAllMembershipsCondition(
+      sessionUser,
+      "users.username"
+    );
+    const manageAllRes = await client.query<{
+      manageAll: boolean;
+      status: UserStatus;
+    }>(
+      `SELECT (${manageAllCond}) AS "manageAll", status
+      FROM users
+      WHERE username = $1`,
+      [username]
+    );
+    if (!auth || !manageAllRes.rows[0]?.manageAll) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      throw new Error(`not permitted to impersonate User ${username}`);
+    }
+    // Suspended users are not permitted anything, so impersonating them would
+    // not demonstrate the app as anyone sees it.
+    if (manageAllRes.rows[0].status === "suspended") {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      throw new Error(`cannot impersonate suspended User ${username}`);
+    }
+
+    await endImpersonation();
+    await client.query("BEGIN");
+    const res = await client.query<{ id: string }>(
+      `INSERT INTO impersonation_sessions
+        (real_user, effective_user, allow_destructive)
+      VALUES ($1, $2, $3)
+      RETURNING id`,
+      [sessionUser, username, allowDestructive]
+    );
+    await recordAuditEvents(client, [{ ...auditEvent, allowed: true }]);
+    await client.query("COMMIT");
+
+    await setSession(sessionUser, {
+      actingAs: username,
+      impersonationId: res.rows[0].id,
+      allowDestructive,
+    });
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in startImpersonation:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+
+  redirect(`/user/${username}`);
+}
+
+/**
+ * Stops impersonating, returning to the signed-in user's page.
+ */
+export async function stopImpersonation(): Promise<void> {
+  const sessionUser = getSessionUser();
+  await endImpersonation();
+  await setSession(sessionUser);
+  redirect(`/user/${sessionUser}`);
+}
@@ -3,42 +3,68 @@
 import { typedVar } from "oso-cloud";
 
 import { usersPool as pool } from "@/lib/db";
+import { recordAuditEvents } from "@/lib/audit";
+import {
+  assertOrgsHaveAdmins,
+  editRoles,
+  lockOrgsWithAdmins,
+  manageAllMembershipsCondition,
+  MEMBERSHIP_PAGE_SIZE,
+  membershipFilterClauses,
+  MembershipFilter,
+  MembershipPage,
+  RoleEdit,
+  toMembershipPage,
+  unassignableRoles,
+} from "@/lib/memberships";
 import { authorizeUser, osoUserMgmt as oso } from "@/lib/oso";
-import { User } from "@/lib/relations";
+import { getRequestor } from "@/lib/requestor";
+import { assertDestructiveAllowed } from "@/lib/session";
+import { enqueueBatch } from "@/lib/outbox";
+import { Membership, User, UserStatus } from "@/lib/relations";
 import { Result, stringifyError } from "@/lib/result";
 
 /**
- * Identifies a `User`, as well as fields describing its permissions on its
- * parent organization.
+ * Identifies one of a user's memberships, as well as fields describing the
+ * user's permissions on the membership's organization.
  */
-export interface UserWOrgPermissions extends User {
+export interface MembershipWOrgPermissions extends Membership {
   readOrg: boolean;
   createUser: boolean;
+  readAudit: boolean;
   // Base permissions on specialized app go here.
 }
 
 /**
- * Fetches the specified user, as well as their permissions on their
- * organization.
+ * Identifies a `User`, as well as their memberships and their permissions on
+ * each membership's organization.
+ */
+export interface UserWOrgPermissions extends User {
+  memberships: MembershipWOrgPermissions[];
+}
+
+/**
+ * Fetches the requestor, as well as their permissions on each of their
+ * organizations.
  *
- * This is a super-admin-like function that intentionally omits any
+ * Users may always read their own memberships, so this requires no further
  * authorization.
  *
  * ## Oso documentation
- * Demonstrates a the `actionsLocal` API, which is useful for fetching all of a
- * user's permissions in a single query.
+ * Demonstrates evaluating `allow` with variables for the action and resource,
+ * which fetches all of a user's permissions on many resources in a single
+ * query. `in` constrains the resources to the user's organizations.
  *
  * @throws {Error} If there is a problem with the database connection or the
  * user does not exist.
  */
-export async function getUserWOrgPermissions(
-  username: string
-): Promise<UserWOrgPermissions> {
+export async function getUserWOrgPermissions(): Promise<UserWOrgPermissions> {
+  const username = await getRequestor();
   const osoUser = { type: "User", id: username };
   const client = await pool.connect();
   try {
     const userRes = await client.query<User>(
-      `SELECT username, org, role
+      `SELECT username
       FROM users
       WHERE username = $1`,
       [username]
@@ -46,25 +72,47 @@ export async function getUserWOrgPermissions(
     if (userRes.rowCount != 1) {
       throw new Error(`cannot find User ${username}`);
     }
-    const user = userRes.rows[0];
-
-    const actionsQuery = await oso.actionsLocal(osoUser, {
-      type: "Organization",
-      id: user.org,
-    });
+    const membershipsRes = await client.query<Membership>(
+      `SELECT username, org, role
+      FROM memberships
+      WHERE username = $1
+      ORDER BY org`,
+      [username]
+    );
+    const memberships = membershipsRes.rows;
 
-    const orgActionsQuery = `
-    SELECT array_agg(actions) AS actions FROM (
-        ${actionsQuery}
-    ) AS actions`;
+    const orgActions = new Map<string, string[]>();
+    // `in` requires at least one value.
+    if (memberships.length) {
+      const actionVar = typedVar("String");
+      const orgVar = typedVar("Organization");
+      const actionsQuery = await oso
+        .buildQuery(["allow", osoUser, actionVar, orgVar])
+        .in(
+          orgVar,
+          memberships.map((membership) => membership.org)
+        )
+        .evaluateLocalSelect({ org: orgVar, action: actionVar });
 
-    const res = await client.query<{ actions: string[] }>(orgActionsQuery);
-    const orgActions = res.rows[0].actions;
+      const res = await client.query<{ org: string; actions: string[] }>(
+        `SELECT org, array_agg(action) AS actions
+        FROM (${actionsQuery}) AS org_actions
+        GROUP BY org`
+      );
+      res.rows.forEach((row) => orgActions.set(row.org, row.actions));
+    }
 
     return {
-      ...user,
-      readOrg: orgActions.includes("read"),
-      createUser: orgActions.includes("create_user"),
+      ...userRes.rows[0],
+      memberships: memberships.map((membership) => {
+        const actions = orgActions.get(membership.org) ?? [];
+        return {
+          ...membership,
+          readOrg: actions.includes("read"),
+          createUser: actions.includes("create_user"),
+          readAudit: actions.includes("read_audit"),
+        };
+      }),
     };
   } catch (error) {
     console.error("Error in getUser:", error);
@@ -75,17 +123,38 @@ export async function getUserWOrgPermissions(
 }
 
 /**
- * Identifies a `User` the requestor is permitted to read, as well as fields
+ * Identifies a membership of a `User` the requestor is permitted to read, in
+ * an organization the requestor is permitted to read, as well as fields
  * describing other permissions.
  */
-export interface ReadableUser extends User {
+export interface ReadableMembership extends Membership {
+  // When the user's role, if temporary, reverts to `revert_role`.
+  expires_at: Date | null;
+  revert_role: string | null;
+  status: UserStatus;
+  // Whether the requestor can change the user's role in this organization.
   editRole: boolean;
+  // Whether the requestor can delete the user, which removes all of their
+  // memberships.
   deleteUser: boolean;
+  // Whether the requestor can suspend or reactivate the user, which affects
+  // all of their memberships.
+  suspendUser: boolean;
+  // Whether the requestor can remove this membership or move it to another
+  // organization.
+  manageMembership: boolean;
 }
 
 /**
- * Get the list of users which `requestor` can `read`, as well as additional
- * information about permissions on those users.
+ * Get the memberships of the users which `requestor` can `read`, in the
+ * organizations `requestor` can `read`, as well as additional information
+ * about permissions on those memberships.
+ *
+ * See `getReadableMembershipsPage` to filter and paginate them.
+ *
+ * A user's role can only be edited in organizations where `requestor` can
+ * create users, and a user can only be deleted by requestors who can create
+ * users in all of the user's organizations.
  *
  * This data can include the requestor's own data, so the requestor might need
  * to be filtered out before using the data.
@@ -96,33 +165,86 @@ export interface ReadableUser extends User {
  *   `read` permission on all returned users.
  * - Takes a query generated from local auth and performs aggregations and joins
  *   on it.
+ * - Selects conditions generated by `listLocal` as columns, rather than
+ *   filtering on them.
  *
  * @throws {Error} If there is a problem with the database connection.
  */
-export async function getReadableUsersWithPermissions(
-  requestor: string
-): Promise<ReadableUser[]> {
+export async function getReadableMemberships(): Promise<ReadableMembership[]> {
+  return selectReadableMemberships(null);
+}
+
+/**
+ * Get a page of the memberships returned by `getReadableMemberships` that
+ * match `filter`.
+ *
+ * ## Oso documentation
+ * Demonstrates applying user-supplied filters, sorting, and cursor-based
+ * pagination on top of the conditions generated by local authorization.
+ *
+ * @throws {Error} If there is a problem with the database connection, or
+ * `filter` is invalid.
+ */
+export async function getReadableMembershipsPage(
+  filter: MembershipFilter
+): Promise<MembershipPage<ReadableMembership>> {
+  return toMembershipPage(await selectReadableMemberships(filter), filter);
+}
+
+// Selects the memberships described by `getReadableMemberships`, either all of
+// them or, with `filter`, one more than a page of them.
+async function selectReadableMemberships(
+  filter: MembershipFilter | null
+): Promise<ReadableMembership[]> {
+  const requestor = await getRequestor();
   const osoUser = { type: "User", id: requestor };
   const client = await pool.connect();
   try {
     const actionVar = typedVar("String");
     const userVar = typedVar("User");
-    const usersActions = await oso
-      .buildQuery(["allow", osoUser, actionVar, userVar])
-      // `requestor` must have `read` permission on all users.
-      .and(["allow", osoUser, "read", userVar])
-      .evaluateLocalSelect({
-        actions: actionVar,
-        username: userVar,
-      });
+    const [usersActions, readOrgCond, manageOrgCond, manageAllCond] =
+      await Promise.all([
+        oso
+          .buildQuery(["allow", osoUser, actionVar, userVar])
+          // `requestor` must have `read` permission on all users.
+          .and(["allow", osoUser, "read", userVar])
+          .evaluateLocalSelect({
+            actions: actionVar,
+            username: userVar,
+          }),
+        oso.listLocal(osoUser, "read", "Organization", "memberships.org"),
+        oso.listLocal(
+          osoUser,
+          "create_user",
+          "Organization",
+          "memberships.org"
+        ),
+        manageAllMembershipsCondition(requestor, "memberships.username"),
+      ]);
+
+    const params: unknown[] = [];
+    const { conditions, orderBy } = filter
+      ? membershipFilterClauses(filter, params)
+      : {
+          conditions: [],
+          orderBy: "memberships.username, memberships.org",
+        };
 
-    const usersWActions = await client.query<{
-      username: string;
-      role: string;
-      org: string;
-      actions: string[];
-    }>(
-      `SELECT users.username, role, org, actions_per_user.actions
+    const membershipsWActions = await client.query<
+      Membership & {
+        expires_at: Date | null;
+        revert_role: string | null;
+        status: UserStatus;
+        actions: string[];
+        manageMembership: boolean;
+        manageAll: boolean;
+      }
+    >(
+      `SELECT memberships.username, memberships.org, memberships.role,
+        memberships.expires_at, memberships.revert_role, users.status,
+        actions_per_user.actions,
+        (${manageOrgCond}) AS "manageMembership",
+        (${manageAllCond}) AS "manageAll"
       FROM (
         -- Get all actions for each user
         SELECT username, array_agg(actions) AS actions
@@ -131,16 +253,27 @@ export async function getReadableUsersWithPermissions(
         ) AS user_actions
         GROUP BY user_actions.username
       ) AS actions_per_user
-      JOIN users ON actions_per_user.username = users.username`
+      JOIN memberships ON actions_per_user.username = memberships.username
+      JOIN users ON users.username = memberships.username
+      WHERE ${[readOrgCond, ...conditions]
+        .map((cond) => `(${cond})`)
+        .join(" AND ")}
+      ORDER BY ${orderBy}
+      ${filter ? `LIMIT ${MEMBERSHIP_PAGE_SIZE + 1}` : ""}`,
+      params
     );
 
-    return usersWActions.rows.map((user) => ({
-      ...user,
-      editRole: user.actions.includes("edit_role"),
-      deleteUser: user.actions.includes("delete"),
-    }));
+    return membershipsWActions.rows.map(
+      ({ actions, manageMembership, manageAll, ...membership }) => ({
+        ...membership,
+        editRole: actions.includes("edit_role") && Boolean(manageMembership),
+        deleteUser: actions.includes("delete") && Boolean(manageAll),
+        suspendUser: actions.includes("suspend") && Boolean(manageAll),
+        manageMembership: Boolean(manageMembership),
+      })
+    );
   } catch (error) {
-    console.error("Error in getReadableUsersWithPermissions:", error);
+    console.error("Error in selectReadableMemberships:", error);
     throw error;
   } finally {
     client.release();
@@ -148,31 +281,35 @@ export async function getReadableUsersWithPermissions(
 }
 
 /**
- * Creates a new user on an organization with a specified role.
+ * Creates a new user on an organization with a specified role and, optionally,
+ * an initial password.
  *
  * Requires `requestor` to have the `create_user` permission on the
- * organization.
+ * organization, as well as everything the role permits there; see
+ * `unassignableRoles`.
  *
  * ## Oso documentation
  * Demonstrates a standard authorized endpoint––ensuring the user has a specific
  * permission, and permitting it to occur only if they do.
  *
- * Also demonstrates using `batch` to synchronize changes to Oso's centralized
- * authorization data.
+ * Also demonstrates using the outbox to synchronize changes to Oso's
+ * centralized authorization data.
  *
  * @throws {Error} If there is a problem with the database connection or
  * authorization fails.
  */
 export async function createUser(
-  // Bound parameter because `createUser` is used as a form action.
-  p: { requestor: string },
   _prevState: Result<string> | null,
   formData: FormData
 ): Promise<Result<string>> {
+  const requestor = await getRequestor();
   const data = {
     username: formData.get("username")! as string,
     org: formData.get("organization")! as string,
     role: formData.get("role")! as string,
+    // Optional, e.g. for users provisioned through SCIM, who cannot sign in
+    // until they have a password.
+    password: (formData.get("password") as string | null) || null,
   };
 
   const client = await pool.connect();
@@ -184,21 +321,51 @@ export async function createUser(
     const auth = await authorizeUser(
       oso,
       client,
-      p.requestor,
+      requestor,
       "create_user",
       org
     );
+    const auditEvent = {
+      requestor,
+      action: "createUser",
+      permission: "create_user",
+      target_type: "User",
+      target_id: data.username,
+      org: data.org,
+      after: { org: data.org, role: data.role },
+    };
     if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
       return {
         success: false,
         error: `not permitted to create user in Organization ${data.org}`,
       };
     }
+    if ((await unassignableRoles(client, requestor, [data])).length) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      return {
+        success: false,
+        error: `not permitted to assign role ${data.role} in Organization ${data.org}`,
+      };
+    }
 
+    await client.query("BEGIN");
+    await client.query(`INSERT INTO users (username) VALUES ($1);`, [
+      data.username,
+    ]);
     await client.query(
-      `INSERT INTO users (username, org, role) VALUES ($1, $2, $3::organization_role);`,
+      `INSERT INTO memberships (username, org, role)
+      VALUES ($1, $2, $3);`,
       [data.username, data.org, data.role]
     );
+    if (data.password) {
+      await client.query(
+        `INSERT INTO user_credentials (username, password_hash)
+        VALUES ($1, crypt($2, gen_salt('bf')));`,
+        [data.username, data.password]
+      );
+    }
+    await recordAuditEvents(client, [{ ...auditEvent, allowed: true }]);
 
     const user = {
       type: "User",
@@ -207,13 +374,16 @@ export async function createUser(
 
     // Propagate user roles to Oso's centralized authorization data store for
     // other services to use.
-    await oso.batch((tx) => {
-      tx.insert(["has_role", user, data.role, org]);
+    await enqueueBatch(client, (tx) => {
+      tx.insert(["has_status", user, "active"]);
+      tx.insert(["has_assigned_role", user, data.role, org]);
       tx.insert(["has_relation", user, "parent", org]);
     });
+    await client.query("COMMIT");
 
     return { success: true, value: data.username };
   } catch (error) {
+    await client.query("ROLLBACK");
     return { success: false, error: stringifyError(error) };
   } finally {
     client.release();
@@ -221,61 +391,309 @@ export async function createUser(
 }
 
 /**
- * Deletes the specified user.
+ * Adds an existing user to an organization with a specified role.
  *
- * Requires `requestor` to have the `delete` permission for the specified user.
+ * Requires `requestor` to have the `create_user` permission on the
+ * organization, as well as everything the role permits there; see
+ * `unassignableRoles`.
  *
  * ## Oso documentation
  * Demonstrates a standard authorized endpoint––ensuring the user has a specific
  * permission, and permitting it to occur only if they do.
  *
- * Also demonstrates using `batch` to synchronize changes to Oso's centralized
- * authorization data.
+ * Also demonstrates using the outbox to synchronize changes to Oso's
+ * centralized authorization data.
  *
- * @throws {Error} If there is a problem with the database connection or
- * authorization fails.
+ * @throws {Error} If there is a problem with the database connection.
  */
-export async function deleteUser(
-  requestor: string,
-  username: string
+export async function addMembership(
+  _prevState: Result<string> | null,
+  formData: FormData
+): Promise<Result<string>> {
+  const requestor = await getRequestor();
+  const data = {
+    username: formData.get("username")! as string,
+    org: formData.get("organization")! as string,
+    role: formData.get("role")! as string,
+  };
+
+  const client = await pool.connect();
+  try {
+    const org = {
+      type: "Organization",
+      id: data.org,
+    };
+    const auth = await authorizeUser(
+      oso,
+      client,
+      requestor,
+      "create_user",
+      org
+    );
+    const auditEvent = {
+      requestor,
+      action: "addMembership",
+      permission: "create_user",
+      target_type: "User",
+      target_id: data.username,
+      org: data.org,
+      after: { org: data.org, role: data.role },
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      return {
+        success: false,
+        error: `not permitted to add users to Organization ${data.org}`,
+      };
+    }
+    if ((await unassignableRoles(client, requestor, [data])).length) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      return {
+        success: false,
+        error: `not permitted to assign role ${data.role} in Organization ${data.org}`,
+      };
+    }
+
+    await client.query("BEGIN");
+    const res = await client.query(
+      `INSERT INTO memberships (username, org, role)
+      SELECT username, $2, $3
+      FROM users
+      WHERE username = $1;`,
+      [data.username, data.org, data.role]
+    );
+    if (res.rowCount !== 1) {
+      throw new Error(`cannot find User ${data.username}`);
+    }
+    await recordAuditEvents(client, [{ ...auditEvent, allowed: true }]);
+
+    const user = {
+      type: "User",
+      id: data.username,
+    };
+
+    // Propagate user roles to Oso's centralized authorization data store for
+    // other services to use.
+    await enqueueBatch(client, (tx) => {
+      tx.insert(["has_assigned_role", user, data.role, org]);
+      tx.insert(["has_relation", user, "parent", org]);
+    });
+    await client.query("COMMIT");
+
+    return { success: true, value: data.username };
+  } catch (error) {
+    await client.query("ROLLBACK");
+    return { success: false, error: stringifyError(error) };
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Removes the specified user from an organization. Users must belong to at
+ * least one organization, so their last membership cannot be removed; delete
+ * the user instead.
+ *
+ * Requires `requestor` to have the `create_user` permission on the
+ * organization.
+ *
+ * ## Oso documentation
+ * Demonstrates a standard authorized endpoint––ensuring the user has a specific
+ * permission, and permitting it to occur only if they do.
+ *
+ * Also demonstrates using the outbox to synchronize changes to Oso's
+ * centralized authorization data.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, the membership is the user's last, or the user is the
+ * organization's last admin.
+ */
+export async function removeMembership(
+  username: string,
+  org: string
 ): Promise<undefined> {
+  const requestor = await getRequestor();
+  assertDestructiveAllowed("remove users from organizations");
+  const client = await pool.connect();
+  try {
+    const osoOrg = { type: "Organization", id: org };
+    const auth = await authorizeUser(
+      oso,
+      client,
+      requestor,
+      "create_user",
+      osoOrg
+    );
+    const auditEvent = {
+      requestor,
+      action: "removeMembership",
+      permission: "create_user",
+      target_type: "User",
+      target_id: username,
+      org,
+    };
+    if (!auth) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      throw new Error(`not permitted to remove users from Organization ${org}`);
+    }
+
+    await client.query("BEGIN");
+    const orgsWithAdmins = await lockOrgsWithAdmins(client, [org]);
+    // Lock all of the user's memberships so that concurrent removals cannot
+    // leave them without any.
+    const membershipsRes = await client.query<Membership>(
+      `SELECT username, org, role
+      FROM memberships
+      WHERE username = $1
+      FOR UPDATE`,
+      [username]
+    );
+    const membership = membershipsRes.rows.find((m) => m.org === org);
+    if (!membership) {
+      throw new Error(`cannot find User ${username} in Organization ${org}`);
+    }
+    if (membershipsRes.rowCount === 1) {
+      throw new Error(
+        `cannot remove User ${username} from their only Organization; delete them instead`
+      );
+    }
+    await client.query(
+      `DELETE FROM memberships WHERE username = $1 AND org = $2;`,
+      [username, org]
+    );
+    await assertOrgsHaveAdmins(client, orgsWithAdmins);
+    await recordAuditEvents(client, [
+      {
+        ...auditEvent,
+        allowed: true,
+        before: { org, role: membership.role },
+      },
+    ]);
+
+    const user = {
+      type: "User",
+      id: username,
+    };
+
+    // Propagate user roles to Oso's centralized authorization data store for
+    // other services to use.
+    await enqueueBatch(client, (tx) => {
+      tx.delete(["has_assigned_role", user, membership.role, osoOrg]);
+      tx.delete(["has_relation", user, "parent", osoOrg]);
+    });
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in removeMembership:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Deletes the specified user, removing them from all of their organizations.
+ *
+ * Requires `requestor` to have the `delete` permission for the specified user,
+ * as well as the `create_user` permission on each of the user's organizations.
+ *
+ * ## Oso documentation
+ * Demonstrates a standard authorized endpoint––ensuring the user has a specific
+ * permission, and permitting it to occur only if they do.
+ *
+ * Also demonstrates using the outbox to synchronize changes to Oso's
+ * centralized authorization data.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the user is the last admin of an organization.
+ */
+export async function deleteUser(username: string): Promise<undefined> {
+  const requestor = await getRequestor();
+  assertDestructiveAllowed("delete users");
   const client = await pool.connect();
   try {
     const auth = await authorizeUser(oso, client, requestor, "delete", {
       type: "User",
       id: username,
     });
-    if (!auth) {
+    const auditEvent = {
+      requestor,
+      action: "deleteUser",
+      permission: "delete",
+      target_type: "User",
+      target_id: username,
+    };
+    const manageAllCond = await manageAllMembershipsCondition(
+      requestor,
+      "users.username"
+    );
+    const manageAllRes = await client.query<{ manageAll: boolean }>(
+      `SELECT (${manageAllCond}) AS "manageAll"
+      FROM users
+      WHERE username = $1`,
+      [username]
+    );
+    if (!auth || !manageAllRes.rows[0]?.manageAll) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
       throw new Error(`not permitted to delete User ${username}`);
     }
 
-    const res = await client.query<{ org: string; role: string }>(
-      `DELETE FROM users WHERE username = $1 RETURNING org, role;`,
+    await client.query("BEGIN");
+    const orgsRes = await client.query<{ org: string }>(
+      `SELECT org FROM memberships WHERE username = $1`,
       [username]
     );
-    if (res.rowCount !== 1) {
+    const orgsWithAdmins = await lockOrgsWithAdmins(
+      client,
+      orgsRes.rows.map((row) => row.org)
+    );
+    const res = await client.query<Membership>(
+      `DELETE FROM memberships WHERE username = $1
+      RETURNING username, org, role;`,
+      [username]
+    );
+    const userRes = await client.query<{ status: UserStatus }>(
+      `DELETE FROM users WHERE username = $1 RETURNING status;`,
+      [username]
+    );
+    if (userRes.rowCount !== 1) {
       throw new Error(`cannot find user ${username}`);
     }
-    const resReturnValues = res.rows[0];
+    await assertOrgsHaveAdmins(client, orgsWithAdmins);
+    // Record an event in each organization, so that each one's auditors can
+    // see that the user left it.
+    await recordAuditEvents(
+      client,
+      res.rows.map((membership) => ({
+        ...auditEvent,
+        allowed: true,
+        org: membership.org,
+        before: { org: membership.org, role: membership.role },
+      }))
+    );
 
     const user = {
       type: "User",
       id: username,
     };
-    const org = {
-      type: "Organization",
-      id: resReturnValues.org,
-    };
 
     // Propagate user roles to Oso's centralized authorization data store for
     // other services to use.
-    await oso.batch((tx) => {
-      tx.delete(["has_role", user, resReturnValues.role, org]);
-      tx.delete(["has_relation", user, "parent", org]);
+    await enqueueBatch(client, (tx) => {
+      tx.delete(["has_status", user, userRes.rows[0].status]);
+      res.rows.forEach((membership) => {
+        const org = { type: "Organization", id: membership.org };
+        tx.delete(["has_assigned_role", user, membership.role, org]);
+        tx.delete(["has_relation", user, "parent", org]);
+      });
     });
+    await client.query("COMMIT");
 
     return;
   } catch (error) {
+    await client.query("ROLLBACK");
     console.error("Error in deleteUser:", error);
     throw error;
   } finally {
@@ -284,100 +702,331 @@ export async function deleteUser(
 }
 
 /**
- * Edits a set of users' roles, identifying the users by their username.
+ * Suspends the specified user, who keeps their memberships but is not
+ * permitted anything until they are reactivated. Ends any impersonation of
+ * them, or by them.
  *
- * Requires `requestor` to have the `edit` permission on all edited users.
+ * Requires `requestor` to have the `suspend` permission for the specified
+ * user, as well as the `create_user` permission on each of the user's
+ * organizations. Users cannot suspend themselves.
  *
  * ## Oso documentation
- * Demonstrates a complex approach to authorizing many resources at once using
- * local authorization, relying on a transaction to verify authorization
- * occurred as the requestor expected.
+ * Demonstrates changing a fact that every `allow` rule depends on, which
+ * revokes all of a user's permissions without changing their roles.
+ *
+ * @throws {Error} If there is a problem with the database connection,
+ * authorization fails, or the user is the last admin of an organization.
+ */
+export async function suspendUser(username: string): Promise<undefined> {
+  assertDestructiveAllowed("suspend users");
+  if (username === (await getRequestor())) {
+    throw new Error(`cannot suspend yourself`);
+  }
+  return setUserStatus(username, "suspended");
+}
+
+/**
+ * Reactivates the specified suspended user, restoring the permissions of their
+ * roles.
  *
- * Also demonstrates using `batch` to synchronize changes to Oso's centralized
- * authorization data.
+ * Requires the same permissions as `suspendUser`.
+ *
+ * @throws {Error} If there is a problem with the database connection or
+ * authorization fails.
+ */
+export async function reactivateUser(username: string): Promise<undefined> {
+  return setUserStatus(username, "active");
+}
+
+// Changes the status of `username` to `status`, i.e. suspends or reactivates
+// them.
+async function setUserStatus(
+  username: string,
+  status: UserStatus
+): Promise<undefined> {
+  const requestor = await getRequestor();
+  const [action, verb] =
+    status === "suspended"
+      ? ["suspendUser", "suspend"]
+      : ["reactivateUser", "reactivate"];
+  const client = await pool.connect();
+  try {
+    const auth = await authorizeUser(oso, client, requestor, "suspend", {
+      type: "User",
+      id: username,
+    });
+    const auditEvent = {
+      requestor,
+      action,
+      permission: "suspend",
+      target_type: "User",
+      target_id: username,
+      after: { status },
+    };
+    const manageAllCond = await manageAllMembershipsCondition(
+      requestor,
+      "users.username"
+    );
+    const manageAllRes = await client.query<{ manageAll: boolean }>(
+      `SELECT (${manageAllCond}) AS "manageAll"
+      FROM users
+      WHERE username = $1`,
+      [username]
+    );
+    if (!auth || !manageAllRes.rows[0]?.manageAll) {
+      await recordAuditEvents(pool, [{ ...auditEvent, allowed: false }]);
+      throw new Error(`not permitted to ${verb} User ${username}`);
+    }
+
+    await client.query("BEGIN");
+    const orgsRes = await client.query<{ org: string }>(
+      `SELECT org FROM memberships WHERE username = $1`,
+      [username]
+    );
+    const orgs = orgsRes.rows.map((row) => row.org);
+    const orgsWithAdmins = await lockOrgsWithAdmins(client, orgs);
+    const userRes = await client.query<{ status: UserStatus }>(
+      `SELECT status FROM users WHERE username = $1 FOR UPDATE`,
+      [username]
+    );
+    if (userRes.rowCount !== 1) {
+      throw new Error(`cannot find User ${username}`);
+    }
+    const before = userRes.rows[0].status;
+    if (before === status) {
+      throw new Error(`User ${username} is already ${status}`);
+    }
+    await client.query(`UPDATE users SET status = $2 WHERE username = $1`, [
+      username,
+      status,
+    ]);
+    await assertOrgsHaveAdmins(client, orgsWithAdmins);
+    if (status === "suspended") {
+      await client.query(
+        `UPDATE impersonation_sessions SET ended_at = now()
+        WHERE (effective_user = $1 OR real_user = $1) AND ended_at IS NULL`,
+        [username]
+      );
+    }
+    // Record an event in each organization, so that each one's auditors can
+    // see the change.
+    await recordAuditEvents(
+      client,
+      orgs.map((org) => ({
+        ...auditEvent,
+        allowed: true,
+        org,
+        before: { status: before },
+      }))
+    );
+
+    // Propagate the user's status to Oso's centralized authorization data
+    // store for other services to use.
+    const user = { type: "User", id: username };
+    await enqueueBatch(client, (tx) => {
+      tx.delete(["has_status", user, before]);
+      tx.insert(["has_status", user, status]);
+    });
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error(`Error in ${action}:`, error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Edits a set of users' roles in organizations they belong to, identifying the
+ * memberships by username and organization; see `editRoles` in
+ * `lib/memberships.ts`, which authorizes and audits the edits.
  *
  * @throws {Error} If there is a problem with the database connection, or the
- * requestor cannot does not have permission to edit all requested users.
+ * requestor cannot does not have permission to edit all requested users, or
+ * the edits would leave an organization without an admin.
  */
 export async function editUsersRoleByUsername(
-  requestor: string,
-  updates: User[]
+  updates: RoleEdit[]
 ): Promise<undefined> {
+  const requestor = await getRequestor();
   if (updates.length === 0) {
     return;
   }
+  assertDestructiveAllowed("edit roles");
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await editRoles(client, requestor, updates);
+    await client.query("COMMIT");
+
+    return;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in editUsersRoleByUsername:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Moves a user's membership from `prevOrg` to `org`, assigning them `role` in
+ * `org`.
+ */
+export interface MembershipTransfer extends Membership {
+  prevOrg: string;
+}
+
+/**
+ * Moves a set of users' memberships to new organizations, assigning them the
+ * specified role in their new organization, which is permanent even if their
+ * current role is temporary. Users' other memberships are unaffected.
+ *
+ * Requires `requestor` to have the `create_user` permission on both the
+ * organization each membership is moving from and the one it is moving to, as
+ * well as everything the new roles permit there; see `unassignableRoles`.
+ *
+ * ## Oso documentation
+ * Demonstrates authorizing a write against two different resources at once by
+ * inlining multiple conditions generated by `listLocal` into queries run
+ * inside a transaction.
+ *
+ * Also demonstrates using the outbox to atomically swap relations in Oso's
+ * centralized authorization data.
+ *
+ * @throws {Error} If there is a problem with the database connection, or the
+ * requestor does not have permission to move all requested users, or the
+ * moves would leave an organization without an admin.
+ */
+export async function transferUsers(
+  updates: MembershipTransfer[]
+): Promise<undefined> {
+  const requestor = await getRequestor();
+  if (updates.length === 0) {
+    return;
+  }
+  assertDestructiveAllowed("move users");
   const client = await pool.connect();
 
   const osoUser = { type: "User", id: requestor };
 
   try {
-    // Ensure that this user has `edit_role` permission for all users being
-    // updated. We perform this as a `listLocal` operation because there are an
-    // arbitrary number of users that could be updated here.
-    const editRoleAuthorized = await oso.listLocal(
-      osoUser,
-      "edit_role",
-      "User",
-      "users.username"
-    );
-
-    // Ensure that the users edited are part of the set of users the requestor
-    // has `edit_role` permissions on.
-    const queryText = `
-        UPDATE users
-        SET role = v.role::organization_role
-        FROM (VALUES
-          ${updates.map((_, i) => `($${i * 2 + 1}, $${i * 2 + 2})`).join(", ")}
-        ) AS v(username, role)
-        WHERE users.username = v.username AND ${editRoleAuthorized}
-        RETURNING users.username, users.org, users.role;
-      `;
-
-    const userFields: string[] = updates.flatMap((user) => [
-      user.username,
-      user.role,
+    // Determine the conditions under which the requestor can move users out
+    // of their current organization, and into their new organization.
+    const [sourceAuthorized, destAuthorized] = await Promise.all([
+      oso.listLocal(osoUser, "create_user", "Organization", "memberships.org"),
+      oso.listLocal(osoUser, "create_user", "Organization", "v.org"),
     ]);
 
     await client.query("BEGIN");
-    const res = await client.query<User>(queryText, userFields);
-
-    // Check the affected row count, which is our signal that there is a
-    // discrepancy between the number of users submitted and the number of users
-    // that passed the condition expressed by `editRoleAuthorized`.
-    if (res.rowCount !== updates.length) {
-      // If these numbers do not align, abort the operation.
-      throw new Error(`not permitted to edit role of all submitted users`);
+    const orgsWithAdmins = await lockOrgsWithAdmins(
+      client,
+      updates.map((user) => user.prevOrg)
+    );
+    // Ensure that the requestor could already do everything the new roles
+    // permit.
+    const [unassignable] = await unassignableRoles(client, requestor, updates);
+
+    // Lock the memberships being moved, and fetch their current values so that
+    // we can remove their current facts.
+    const prevRes = await client.query<Membership>(
+      `SELECT memberships.username, memberships.org, memberships.role
+      FROM memberships
+      JOIN unnest($1::TEXT[], $2::TEXT[]) AS v(username, org)
+        ON memberships.username = v.username AND memberships.org = v.org
+      WHERE ${sourceAuthorized}
+      FOR UPDATE OF memberships`,
+      [
+        updates.map((user) => user.username),
+        updates.map((user) => user.prevOrg),
+      ]
+    );
+    const auditEvents = updates.map((user) => ({
+      requestor,
+      action: "transferUsers",
+      permission: "create_user",
+      target_type: "User",
+      target_id: user.username,
+      before: prevRes.rows.find(
+        (prev) => prev.username === user.username && prev.org === user.prevOrg
+      ),
+      after: { org: user.org, role: user.role },
+    }));
+    if (prevRes.rowCount !== updates.length) {
+      await recordAuditEvents(
+        pool,
+        auditEvents.map((event) => ({ ...event, allowed: false }))
+      );
+      throw new Error(`not permitted to move all submitted users`);
     }
-    // If these numbers aligned things are good.
-    client.query("COMMIT");
-
-    // Synchronize user's new role to Oso's centralized authorization data for
-    // use in other services.
-    await oso.batch((tx) => {
-      // Insert new values.
-      updates.map((user) =>
-        tx.insert([
-          "has_role",
-          { type: "User", id: user.username },
-          user.role,
-          { type: "Organization", id: user.org },
-        ])
+
+    const res = await client.query(
+      `UPDATE memberships
+      SET org = v.org, role = v.role, expires_at = NULL, revert_role = NULL
+      FROM (VALUES
+        ${updates
+          .map(
+            (_, i) =>
+              `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${i * 4 + 4})`
+          )
+          .join(", ")}
+      ) AS v(username, prev_org, org, role)
+      WHERE memberships.username = v.username
+        AND memberships.org = v.prev_org
+        AND ${destAuthorized}`,
+      updates.flatMap((user) => [
+        user.username,
+        user.prevOrg,
+        user.org,
+        user.role,
+      ])
+    );
+    if (res.rowCount !== updates.length || unassignable) {
+      await recordAuditEvents(
+        pool,
+        auditEvents.map((event) => ({ ...event, allowed: false }))
       );
-      // Delete current values.
-      res.rows.map((user) => {
-        tx.delete([
-          "has_role",
-          { type: "User", id: user.username },
-          user.role,
-          { type: "Organization", id: user.org },
-        ]);
+      throw new Error(
+        unassignable
+          ? `not permitted to assign role ${unassignable.role} in Organization ${unassignable.org}`
+          : `not permitted to move users to all submitted orgs`
+      );
+    }
+    await assertOrgsHaveAdmins(client, orgsWithAdmins);
+    await recordAuditEvents(
+      client,
+      auditEvents.map((event) => ({
+        ...event,
+        allowed: true,
+        org: event.after.org,
+      }))
+    );
+
+    // Synchronize users' new organizations and roles to Oso's centralized
+    // authorization data for use in other services.
+    await enqueueBatch(client, (tx) => {
+      prevRes.rows.forEach((user) => {
+        const osoUser = { type: "User", id: user.username };
+        const org = { type: "Organization", id: user.org };
+        tx.delete(["has_assigned_role", osoUser, user.role, org]);
+        tx.delete(["has_relation", osoUser, "parent", org]);
+      });
+      updates.forEach((user) => {
+        const osoUser = { type: "User", id: user.username };
+        const org = { type: "Organization", id: user.org };
+        tx.insert(["has_assigned_role", osoUser, user.role, org]);
+        tx.insert(["has_relation", osoUser, "parent", org]);
       });
     });
+    await client.query("COMMIT");
 
     return;
   } catch (error) {
-    client.query("ROLLBACK");
-    console.error("Error in editUsersRoleByUsername:", error);
+    await client.query("ROLLBACK");
+    console.error("Error in transferUsers:", error);
     throw error;
   } finally {
     client.release();
@@ -385,8 +1034,8 @@ export async function editUsersRoleByUsername(
 }
 
 /**
- * Get all users in a specified organization for which `requestor` has the
- * `read` permission.
+ * Get a page of the memberships in a specified organization of the users for
+ * which `requestor` has the `read` permission, matching `filter`.
  *
  * ## Oso documentation
  * This function demonstrates a standard read path with local authorization,
@@ -395,9 +1044,10 @@ export async function editUsersRoleByUsername(
  * @throws {Error} If there is a problem with the database connection.
  */
 export async function getOrgUsers(
-  requestor: string,
-  org: string
-): Promise<User[]> {
+  org: string,
+  filter: MembershipFilter = {}
+): Promise<MembershipPage<Membership>> {
+  const requestor = await getRequestor();
   const client = await pool.connect();
   try {
     const osoUser = { type: "User", id: requestor };
@@ -411,14 +1061,20 @@ export async function getOrgUsers(
       .and(["has_relation", userVar, "parent", osoOrg])
       .evaluateLocalFilter("username", userVar);
 
-    const orgUsers = await client.query<User>(
+    const params: unknown[] = [org];
+    const { conditions, orderBy } = membershipFilterClauses(filter, params);
+    const orgUsers = await client.query<Membership>(
       `SELECT username, org, role
-        FROM users
-        WHERE ${readableUsersCond}
-        ORDER BY username`
+        FROM memberships
+        WHERE ${["org = $1", readableUsersCond, ...conditions]
+          .map((cond) => `(${cond})`)
+          .join(" AND ")}
+        ORDER BY ${orderBy}
+        LIMIT ${MEMBERSHIP_PAGE_SIZE + 1}`,
+      params
     );
 
-    return orgUsers.rows;
+    return toMembershipPage(orgUsers.rows, filter);
   } catch (error) {
     console.error("Error in getOrgUsers:", error);
     throw error;
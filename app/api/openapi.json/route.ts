@@ -0,0 +1,11 @@
+import { NextResponse } from "next/server";
+
+import { openApiDocument } from "@/lib/openapi";
+
+/**
+ * Serves the REST API's OpenAPI document, which does not require a bearer
+ * token.
+ */
+export function GET() {
+  return NextResponse.json(openApiDocument);
+}
@@ -0,0 +1,41 @@
+import { deleteOrg, MemberDisposition, renameOrg } from "@/actions/org";
+import { ApiError, apiHandler, readJsonBody, requireString } from "@/lib/api";
+
+export const dynamic = "force-dynamic";
+
+interface Context {
+  params: { name: string };
+}
+
+/**
+ * Renames an organization.
+ */
+export const PATCH = apiHandler(async (request, { params }: Context) => {
+  const body = await readJsonBody(request);
+  const newName = requireString(body, "name");
+  await renameOrg(params.name, newName);
+  return newName;
+});
+
+/**
+ * Deletes an organization, handling its users as described by the `members`
+ * and `reassignTo` query parameters.
+ */
+export const DELETE = apiHandler(async (request, { params }: Context) => {
+  const { searchParams } = request.nextUrl;
+  const strategy = searchParams.get("members") ?? "block";
+  let members: MemberDisposition;
+  if (strategy === "reassign") {
+    const org = searchParams.get("reassignTo");
+    if (!org) {
+      throw new ApiError(400, `"reassignTo" is required to reassign users`);
+    }
+    members = { strategy, org };
+  } else if (strategy === "block" || strategy === "cascade") {
+    members = { strategy };
+  } else {
+    throw new ApiError(400, `unknown "members" strategy ${strategy}`);
+  }
+  await deleteOrg(params.name, members);
+  return params.name;
+});
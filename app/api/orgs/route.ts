@@ -0,0 +1,25 @@
+import { createOrg, getReadableOrgs } from "@/actions/org";
+import { apiHandler, readJsonBody, requireString, toFormData } from "@/lib/api";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the organizations the requestor can read.
+ */
+export const GET = apiHandler(async () => getReadableOrgs());
+
+/**
+ * Creates an organization, which is a sub-organization of `parent` if
+ * specified.
+ */
+export const POST = apiHandler(async (request) => {
+  const body = await readJsonBody(request);
+  return createOrg(
+    null,
+    toFormData({
+      orgName: requireString(body, "name"),
+      parent:
+        body.parent === undefined ? undefined : requireString(body, "parent"),
+    })
+  );
+}, 201);
@@ -0,0 +1,107 @@
+import { deleteOrg, getReadableOrgs, renameOrg } from "@/actions/org";
+import {
+  addMembership,
+  getReadableMemberships,
+  removeMembership,
+} from "@/actions/user";
+import { toFormData } from "@/lib/api";
+import {
+  groupChangesFromPatch,
+  readPatchOperations,
+  readScimBody,
+  scimHandler,
+  ScimError,
+  SCIM_DEFAULT_ROLE,
+  toScimGroup,
+} from "@/lib/scim";
+
+export const dynamic = "force-dynamic";
+
+interface Context {
+  params: { id: string };
+}
+
+/**
+ * Returns the organization `org`, if the requestor can read it, and the
+ * usernames of its members the requestor can read.
+ *
+ * @throws {ScimError} If the organization does not exist or the requestor
+ * cannot read it.
+ */
+async function findGroup(org: string) {
+  const [orgs, memberships] = await Promise.all([
+    getReadableOrgs(),
+    getReadableMemberships(),
+  ]);
+  if (!orgs.some((o) => o.name === org)) {
+    throw new ScimError(404, `cannot find Organization ${org}`);
+  }
+  const members = memberships
+    .filter((membership) => membership.org === org)
+    .map((membership) => membership.username);
+  return { org, members };
+}
+
+function toUsers(usernames: string[]) {
+  return usernames.map((username) => ({ username }));
+}
+
+/**
+ * Fetches an organization the requestor can read.
+ */
+export const GET = scimHandler(async (request, { params }: Context) => {
+  const { org, members } = await findGroup(params.id);
+  return toScimGroup(request, org, toUsers(members));
+});
+
+/**
+ * Renames an organization, or adds or removes members. Added members are
+ * given the default role; users cannot be removed from their only
+ * organization.
+ *
+ * Requires `rename` on the organization to rename it, and `create_user` on it
+ * to add or remove members.
+ */
+export const PATCH = scimHandler(async (request, { params }: Context) => {
+  const operations = readPatchOperations(await readScimBody(request));
+  let { org, members } = await findGroup(params.id);
+  const changes = groupChangesFromPatch(operations, members);
+
+  const newName = changes.displayName;
+  if (newName !== undefined && newName !== org) {
+    await renameOrg(org, newName);
+    org = newName;
+  }
+
+  for (const username of Array.from(new Set(changes.removeMembers))) {
+    if (members.includes(username)) {
+      await removeMembership(username, org);
+      members = members.filter((member) => member !== username);
+    }
+  }
+  for (const username of Array.from(new Set(changes.addMembers))) {
+    if (members.includes(username)) {
+      continue;
+    }
+    const result = await addMembership(
+      null,
+      toFormData({ username, organization: org, role: SCIM_DEFAULT_ROLE })
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    members.push(username);
+  }
+
+  return toScimGroup(request, org, toUsers(members));
+});
+
+/**
+ * Deletes an organization, which must not have any users.
+ *
+ * Requires `delete` on the organization.
+ */
+export const DELETE = scimHandler(async (_request, { params }: Context) => {
+  await deleteOrg(params.id, { strategy: "block" });
+  return null;
+});
@@ -0,0 +1,63 @@
+import { createOrg, getReadableOrgs } from "@/actions/org";
+import { getReadableMemberships } from "@/actions/user";
+import { toFormData } from "@/lib/api";
+import {
+  GROUP_FILTER_ATTRIBUTES,
+  listResponse,
+  readScimBody,
+  scimHandler,
+  ScimError,
+  toScimGroup,
+} from "@/lib/scim";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the organizations the requestor can read, with the users the
+ * requestor can read as their members.
+ */
+export const GET = scimHandler(async (request) => {
+  const [orgs, memberships] = await Promise.all([
+    getReadableOrgs(),
+    getReadableMemberships(),
+  ]);
+  return listResponse(
+    request,
+    orgs.map((org) => org.name),
+    GROUP_FILTER_ATTRIBUTES,
+    (org) =>
+      toScimGroup(
+        request,
+        org,
+        memberships.filter((membership) => membership.org === org)
+      )
+  );
+});
+
+/**
+ * Creates an organization named `displayName`. Members must be added
+ * separately, with `PATCH`.
+ *
+ * Requires the global `create_org` permission.
+ */
+export const POST = scimHandler(async (request) => {
+  const body = await readScimBody(request);
+  if (typeof body.displayName !== "string" || !body.displayName) {
+    throw new ScimError(400, "displayName is required", "invalidValue");
+  }
+  if (Array.isArray(body.members) && body.members.length) {
+    throw new ScimError(
+      400,
+      "add members after creating the group",
+      "invalidValue"
+    );
+  }
+  const result = await createOrg(
+    null,
+    toFormData({ orgName: body.displayName })
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return toScimGroup(request, result.value, []);
+}, 201);
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+
+/**
+ * Describes the SCIM features this application supports.
+ */
+export function GET() {
+  return NextResponse.json(
+    {
+      schemas: ["urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig"],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: 1000 },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [
+        {
+          type: "oauthbearertoken",
+          name: "Bearer token",
+          description:
+            "API tokens created on a user's page, which act as that user.",
+          primary: true,
+        },
+      ],
+    },
+    { headers: { "Content-Type": "application/scim+json" } }
+  );
+}
@@ -0,0 +1,55 @@
+import { deleteUser } from "@/actions/user";
+import {
+  findScimUser,
+  readPatchOperations,
+  readScimBody,
+  scimHandler,
+  toScimUser,
+  updateScimUser,
+  userChangesFromPatch,
+  userChangesFromResource,
+} from "@/lib/scim";
+
+export const dynamic = "force-dynamic";
+
+interface Context {
+  params: { id: string };
+}
+
+/**
+ * Fetches a user the requestor can read.
+ */
+export const GET = scimHandler(async (request, { params }: Context) =>
+  toScimUser(request, await findScimUser(params.id))
+);
+
+/**
+ * Replaces a user's roles, primary organization, and whether they are active,
+ * i.e. not suspended.
+ */
+export const PUT = scimHandler(async (request, { params }: Context) => {
+  const body = await readScimBody(request);
+  const user = await findScimUser(params.id);
+  const updated = await updateScimUser(user, userChangesFromResource(body));
+  return toScimUser(request, updated);
+});
+
+/**
+ * Changes a user's roles, primary organization, or whether they are active.
+ */
+export const PATCH = scimHandler(async (request, { params }: Context) => {
+  const operations = readPatchOperations(await readScimBody(request));
+  const user = await findScimUser(params.id);
+  const updated = await updateScimUser(user, userChangesFromPatch(operations));
+  return toScimUser(request, updated);
+});
+
+/**
+ * Deprovisions a user.
+ *
+ * Requires `delete` on the user.
+ */
+export const DELETE = scimHandler(async (_request, { params }: Context) => {
+  await deleteUser(params.id);
+  return null;
+});
@@ -0,0 +1,68 @@
+import { createUser } from "@/actions/user";
+import { toFormData } from "@/lib/api";
+import {
+  findScimUser,
+  getScimUsers,
+  listResponse,
+  readScimBody,
+  scimHandler,
+  ScimError,
+  SCIM_DEFAULT_ROLE,
+  toScimUser,
+  userChangesFromResource,
+  USER_FILTER_ATTRIBUTES,
+} from "@/lib/scim";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists the users the requestor can read, filtered and paginated as described
+ * by the SCIM query parameters.
+ */
+export const GET = scimHandler(async (request) => {
+  const users = await getScimUsers();
+  return listResponse(request, users, USER_FILTER_ATTRIBUTES, (user) =>
+    toScimUser(request, user)
+  );
+});
+
+/**
+ * Provisions a user in the enterprise extension's `organization`, with the
+ * primary role of `roles`. Add them to other organizations through their
+ * groups.
+ *
+ * Requires `create_user` on the organization.
+ */
+export const POST = scimHandler(async (request) => {
+  const body = await readScimBody(request);
+  const changes = userChangesFromResource(body);
+  if (!changes.userName) {
+    throw new ScimError(400, "userName is required", "invalidValue");
+  }
+  if (!changes.org) {
+    throw new ScimError(
+      400,
+      "the enterprise extension's organization is required",
+      "invalidValue"
+    );
+  }
+  if (changes.active === false) {
+    throw new ScimError(400, "cannot provision inactive users", "invalidValue");
+  }
+
+  const result = await createUser(
+    null,
+    toFormData({
+      username: changes.userName,
+      organization: changes.org,
+      role:
+        changes.roles?.find((r) => !r.org || r.org === changes.org)?.role ??
+        SCIM_DEFAULT_ROLE,
+      password: typeof body.password === "string" ? body.password : null,
+    })
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return toScimUser(request, await findScimUser(result.value));
+}, 201);
@@ -0,0 +1,16 @@
+import { removeMembership } from "@/actions/user";
+import { apiHandler } from "@/lib/api";
+
+export const dynamic = "force-dynamic";
+
+interface Context {
+  params: { username: string; org: string };
+}
+
+/**
+ * Removes a user from an organization.
+ */
+export const DELETE = apiHandler(async (_request, { params }: Context) => {
+  await removeMembership(params.username, params.org);
+  return params.username;
+});
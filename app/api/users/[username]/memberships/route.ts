@@ -0,0 +1,23 @@
+import { addMembership } from "@/actions/user";
+import { apiHandler, readJsonBody, requireString, toFormData } from "@/lib/api";
+
+export const dynamic = "force-dynamic";
+
+interface Context {
+  params: { username: string };
+}
+
+/**
+ * Adds a user to an organization.
+ */
+export const POST = apiHandler(async (request, { params }: Context) => {
+  const body = await readJsonBody(request);
+  return addMembership(
+    null,
+    toFormData({
+      username: params.username,
+      organization: requireString(body, "org"),
+      role: requireString(body, "role"),
+    })
+  );
+}, 201);
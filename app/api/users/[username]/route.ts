@@ -0,0 +1,43 @@
+import {
+  deleteUser,
+  editUsersRoleByUsername,
+  transferUsers,
+} from "@/actions/user";
+import { ApiError, apiHandler, readJsonBody, requireString } from "@/lib/api";
+
+export const dynamic = "force-dynamic";
+
+interface Context {
+  params: { username: string };
+}
+
+/**
+ * Changes a user's role in an organization, temporarily if `expiresInHours` is
+ * specified, or moves their membership in `prevOrg` to another organization
+ * with the specified role.
+ */
+export const PATCH = apiHandler(async (request, { params }: Context) => {
+  const body = await readJsonBody(request);
+  const { username } = params;
+  const org = requireString(body, "org");
+  const role = requireString(body, "role");
+  if (body.prevOrg !== undefined && body.prevOrg !== org) {
+    const prevOrg = requireString(body, "prevOrg");
+    await transferUsers([{ username, org, role, prevOrg }]);
+  } else {
+    const expiresInHours = body.expiresInHours;
+    if (expiresInHours !== undefined && typeof expiresInHours !== "number") {
+      throw new ApiError(400, `"expiresInHours" must be a number`);
+    }
+    await editUsersRoleByUsername([{ username, org, role, expiresInHours }]);
+  }
+  return username;
+});
+
+/**
+ * Deletes a user.
+ */
+export const DELETE = apiHandler(async (_request, { params }: Context) => {
+  await deleteUser(params.username);
+  return params.username;
+});
@@ -0,0 +1,38 @@
+import { createUser, getReadableMembershipsPage } from "@/actions/user";
+import { apiHandler, readJsonBody, requireString, toFormData } from "@/lib/api";
+import { MembershipSort } from "@/lib/memberships";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Lists a page of the memberships of the users the requestor can read, as well
+ * as the requestor's permissions on them, filtered and sorted as described by
+ * the query parameters.
+ */
+export const GET = apiHandler(async (request) => {
+  const { searchParams } = request.nextUrl;
+  return getReadableMembershipsPage({
+    search: searchParams.get("search") || undefined,
+    org: searchParams.get("org") || undefined,
+    role: searchParams.get("role") || undefined,
+    sort: (searchParams.get("sort") || undefined) as MembershipSort | undefined,
+    descending: searchParams.get("descending") === "true",
+    cursor: searchParams.get("cursor") || undefined,
+  });
+});
+
+/**
+ * Creates a user.
+ */
+export const POST = apiHandler(async (request) => {
+  const body = await readJsonBody(request);
+  return createUser(
+    null,
+    toFormData({
+      username: requireString(body, "username"),
+      organization: requireString(body, "org"),
+      role: requireString(body, "role"),
+      password: requireString(body, "password"),
+    })
+  );
+}, 201);
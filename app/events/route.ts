@@ -0,0 +1,67 @@
+import { NextRequest } from "next/server";
+
+import { changeFeed } from "@/lib/changeFeed";
+import { getRequestor } from "@/lib/requestor";
+
+export const dynamic = "force-dynamic";
+
+// Comments sent periodically so that proxies do not close idle streams.
+const KEEPALIVE_INTERVAL_MS = 30_000;
+
+/**
+ * Streams the kinds of data that change, e.g. `users`, as Server-Sent Events
+ * named after them, which `lib/dbEvents.ts` consumes.
+ *
+ * Events only name the kind of data, so this only requires signing in;
+ * browsers re-fetch the changed data through server actions, which authorize
+ * it as usual.
+ */
+export async function GET(request: NextRequest) {
+  // Throws unless `middleware.ts` found a session.
+  await getRequestor();
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          // The stream has closed.
+          stop();
+        }
+      };
+      const unsubscribe = changeFeed.subscribe((kind) =>
+        send(`event: ${kind}\ndata: ${kind}\n\n`)
+      );
+      const keepalive = setInterval(
+        () => send(": keepalive\n\n"),
+        KEEPALIVE_INTERVAL_MS
+      );
+      stop = () => {
+        unsubscribe();
+        clearInterval(keepalive);
+      };
+      request.signal.addEventListener("abort", () => {
+        stop();
+        try {
+          controller.close();
+        } catch {
+          // The stream was already cancelled.
+        }
+      });
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import React from "react";
+import { useFormState } from "react-dom";
+
+import { SubmitButton } from "@/lib/components";
+
+import { acceptInvite } from "@/actions/invites";
+
+interface AcceptInviteProps {
+  token: string;
+}
+
+/**
+ * Provides a form to accept an invitation by choosing a username and
+ * password.
+ */
+const AcceptInvite: React.FC<AcceptInviteProps> = ({ token }) => {
+  const [formState, formAction] = useFormState(
+    acceptInvite.bind(null, token),
+    null
+  );
+
+  return (
+    <div>
+      {formState && !formState.success && (
+        <div className="error" role="alert">
+          {formState.error}
+        </div>
+      )}
+      <form action={formAction}>
+        <div>
+          <label htmlFor="username">Username:</label>
+          <input id="username" type="text" name="username" required />
+        </div>
+        <div>
+          <label htmlFor="password">Password:</label>
+          <input id="password" type="password" name="password" required />
+        </div>
+        <SubmitButton action="Accept invitation" />
+      </form>
+    </div>
+  );
+};
+
+export default AcceptInvite;
@@ -0,0 +1,43 @@
+export const dynamic = "force-dynamic";
+
+import React from "react";
+
+import { getInvite } from "@/actions/invites";
+
+import AcceptInvite from "./AcceptInvite";
+
+interface InviteProps {
+  params: { token: string };
+}
+
+/**
+ * Render the invitation identified by the token in the URL, as well as a form
+ * to accept it.
+ */
+export default async function InvitePage({ params }: InviteProps) {
+  const invite = await getInvite(params.token);
+
+  if (!invite) {
+    return (
+      <div>
+        <h2>Invitation</h2>
+        <div className="error" role="alert">
+          This invitation is invalid or has expired. Ask whoever invited you to
+          resend it.
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <h2>Invitation</h2>
+      <p>
+        {invite.invitee} is invited to join <b>{invite.org}</b> as a{" "}
+        <b>{invite.role}</b>. This invitation expires at{" "}
+        {invite.expires_at.toISOString()}.
+      </p>
+      <AcceptInvite token={params.token} />
+    </div>
+  );
+}
@@ -1,4 +1,9 @@
 import type { FC, ReactNode } from "react";
+import Link from "next/link";
+import { headers } from "next/headers";
+
+import { SESSION_USER_HEADER } from "@/lib/session";
+import { logout } from "@/actions/session";
 
 import "./globals.css";
 
@@ -6,15 +11,27 @@ type LayoutProps = {
   children?: ReactNode;
 };
 
-const Layout: FC<LayoutProps> = ({ children }) => (
-  <html lang="en">
-    <body>
-      <header>
-        <h1>User management base</h1>
-      </header>
-      <main>{children}</main>
-    </body>
-  </html>
-);
+const Layout: FC<LayoutProps> = ({ children }) => {
+  // Set by `middleware.ts` if the request is signed in.
+  const sessionUser = headers().get(SESSION_USER_HEADER);
+
+  return (
+    <html lang="en">
+      <body>
+        <header>
+          <h1>User management base</h1>
+          {sessionUser && (
+            <form action={logout}>
+              Signed in as{" "}
+              <Link href={`/user/${sessionUser}`}>{sessionUser}</Link>{" "}
+              <button type="submit">Sign out</button>
+            </form>
+          )}
+        </header>
+        <main>{children}</main>
+      </body>
+    </html>
+  );
+};
 
 export default Layout;
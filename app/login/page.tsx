@@ -0,0 +1,37 @@
+"use client";
+
+import React from "react";
+import { useFormState } from "react-dom";
+
+import { SubmitButton } from "@/lib/components";
+
+import { login } from "@/actions/session";
+
+/**
+ * Render the login form.
+ */
+export default function LoginPage() {
+  const [formState, formAction] = useFormState(login, null);
+
+  return (
+    <div>
+      <h2>Sign in</h2>
+      {formState && !formState.success && (
+        <div className="error" role="alert">
+          {formState.error}
+        </div>
+      )}
+      <form action={formAction}>
+        <div>
+          <label htmlFor="username">Username:</label>
+          <input id="username" type="text" name="username" required />
+        </div>
+        <div>
+          <label htmlFor="password">Password:</label>
+          <input id="password" type="password" name="password" required />
+        </div>
+        <SubmitButton action="Sign in" />
+      </form>
+    </div>
+  );
+}
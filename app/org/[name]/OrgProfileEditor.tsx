@@ -0,0 +1,72 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useFormState } from "react-dom";
+import { useRouter } from "next/navigation";
+
+import { editOrgProfile, OrgProfile } from "@/actions/org";
+import { SubmitButton } from "@/lib/components";
+
+interface OrgProfileEditorProps {
+  org: OrgProfile;
+}
+
+/**
+ * Provides a form to edit an organization's display name and description,
+ * which the page only renders for requestors with `edit` on it.
+ */
+const OrgProfileEditor: React.FC<OrgProfileEditorProps> = ({ org }) => {
+  const router = useRouter();
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [formState, formAction] = useFormState(
+    editOrgProfile.bind(null, org.name),
+    null
+  );
+
+  useEffect(() => {
+    if (!formState) {
+      return;
+    }
+    if (formState.success) {
+      setErrorMessage(null);
+      // Re-render the page with the new profile.
+      router.refresh();
+    } else {
+      setErrorMessage(formState.error);
+    }
+  }, [formState]);
+
+  return (
+    <div>
+      <h3>Edit profile</h3>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      <form action={formAction}>
+        <div>
+          <label htmlFor="displayName">Display name:</label>
+          <input
+            id="displayName"
+            type="text"
+            name="displayName"
+            defaultValue={org.display_name ?? ""}
+            placeholder={org.name}
+          />
+        </div>
+        <div>
+          <label htmlFor="description">Description:</label>
+          <textarea
+            id="description"
+            name="description"
+            defaultValue={org.description}
+          />
+        </div>
+        <SubmitButton action="Save profile" />
+      </form>
+    </div>
+  );
+};
+
+export default OrgProfileEditor;
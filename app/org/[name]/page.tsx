@@ -0,0 +1,124 @@
+export const dynamic = "force-dynamic";
+
+import React from "react";
+import Link from "next/link";
+
+import { getOrgProfile, OrgProfile } from "@/actions/org";
+import { getOrgUsers } from "@/actions/user";
+import { MembershipPage } from "@/lib/memberships";
+import { Membership } from "@/lib/relations";
+import { stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
+
+import OrgProfileEditor from "./OrgProfileEditor";
+
+interface OrgProps {
+  params: { name: string };
+  searchParams: { [key: string]: string | undefined };
+}
+
+/**
+ * Render an organization's profile, the members the requestor can read, and
+ * the requestor's permissions on it.
+ */
+export default async function OrgPage({ params, searchParams }: OrgProps) {
+  let errorMessage: string | null = null;
+  let org: OrgProfile | null = null;
+  let members: MembershipPage<Membership> | null = null;
+
+  const requestor = await getRequestor();
+  const { name } = params;
+
+  try {
+    [org, members] = await Promise.all([
+      getOrgProfile(name),
+      getOrgUsers(name, { cursor: searchParams.cursor || undefined }),
+    ]);
+  } catch (e) {
+    errorMessage = stringifyError(e);
+  }
+
+  return (
+    <div>
+      <Link href={`/user/${requestor}`}>Back to {requestor} Home</Link>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      {org && members && (
+        <>
+          <h2>{org.display_name ?? org.name}</h2>
+          <table>
+            <tbody>
+              <tr>
+                <th>Name</th>
+                <td>{org.name}</td>
+              </tr>
+              {org.parent && (
+                <tr>
+                  <th>Parent</th>
+                  <td>
+                    <Link href={`/org/${org.parent}`}>{org.parent}</Link>
+                  </td>
+                </tr>
+              )}
+              <tr>
+                <th>Description</th>
+                <td>{org.description}</td>
+              </tr>
+              <tr>
+                <th>Created</th>
+                <td>
+                  {org.created_at.toISOString()}
+                  {org.created_by && ` by ${org.created_by}`}
+                </td>
+              </tr>
+              <tr>
+                <th>Members</th>
+                <td>
+                  {org.roleCounts
+                    .map(({ role, members }) => `${members} ${role}`)
+                    .join(", ") || "None"}
+                </td>
+              </tr>
+              <tr>
+                <th>Your permissions</th>
+                <td>
+                  {org.actions.map((action) => (
+                    <code key={action}>{action} </code>
+                  ))}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          {org.actions.includes("edit") && <OrgProfileEditor org={org} />}
+          <h3>Members</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>User</th>
+                <th>Role</th>
+              </tr>
+            </thead>
+            <tbody>
+              {members.memberships.map((membership) => (
+                <tr key={membership.username}>
+                  <td>{membership.username}</td>
+                  <td>{membership.role}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {members.nextCursor && (
+            <Link
+              href={`?${new URLSearchParams({ cursor: members.nextCursor })}`}
+            >
+              Next page
+            </Link>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
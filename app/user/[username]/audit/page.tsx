@@ -0,0 +1,159 @@
+export const dynamic = "force-dynamic";
+
+import React from "react";
+import Link from "next/link";
+
+import {
+  AuditFilter,
+  AuditPage,
+  getAuditActions,
+  getAuditEvents,
+} from "@/actions/audit";
+import { stringifyError } from "@/lib/result";
+
+interface AuditProps {
+  params: { username: string };
+  searchParams: { [key: string]: string | undefined };
+}
+
+/**
+ * Render the audit events the user is permitted to read.
+ */
+export default async function AuditLogPage({
+  params,
+  searchParams,
+}: AuditProps) {
+  let errorMessage: string | null = null;
+  let page: AuditPage | null = null;
+  let actions: string[] = [];
+
+  const { username } = params;
+
+  const filter: AuditFilter = {
+    requestor: searchParams.requestor || undefined,
+    action: searchParams.action || undefined,
+    target: searchParams.target || undefined,
+    org: searchParams.org || undefined,
+    allowed:
+      searchParams.allowed === undefined || searchParams.allowed === ""
+        ? undefined
+        : searchParams.allowed === "true",
+    cursor: searchParams.cursor || undefined,
+  };
+
+  try {
+    [page, actions] = await Promise.all([
+      getAuditEvents(filter),
+      getAuditActions(),
+    ]);
+  } catch (e) {
+    errorMessage = stringifyError(e);
+  }
+
+  // Preserve the filters when paging.
+  const nextPageParams = new URLSearchParams(
+    Object.entries(searchParams).filter((entry): entry is [string, string] =>
+      Boolean(entry[1])
+    )
+  );
+  if (page?.nextCursor) {
+    nextPageParams.set("cursor", page.nextCursor);
+  }
+
+  return (
+    <div>
+      <Link href={`/user/${username}`}>Back to {username} Home</Link>
+      <h2>Audit log</h2>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      <form method="GET">
+        <label htmlFor="requestor">Requestor:</label>
+        <input
+          id="requestor"
+          name="requestor"
+          type="text"
+          defaultValue={filter.requestor}
+        />
+        <label htmlFor="action">Action:</label>
+        <select id="action" name="action" defaultValue={filter.action ?? ""}>
+          <option value="">Any</option>
+          {actions.map((action) => (
+            <option key={action} value={action}>
+              {action}
+            </option>
+          ))}
+        </select>
+        <label htmlFor="target">Target:</label>
+        <input
+          id="target"
+          name="target"
+          type="text"
+          defaultValue={filter.target}
+        />
+        <label htmlFor="org">Org:</label>
+        <input id="org" name="org" type="text" defaultValue={filter.org} />
+        <label htmlFor="allowed">Decision:</label>
+        <select
+          id="allowed"
+          name="allowed"
+          defaultValue={searchParams.allowed ?? ""}
+        >
+          <option value="">Any</option>
+          <option value="true">Allowed</option>
+          <option value="false">Denied</option>
+        </select>
+        <button type="submit">Filter</button>
+      </form>
+      {page && (
+        <div className="permissions">
+          <table>
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Requestor</th>
+                <th>Action</th>
+                <th>Target</th>
+                <th>Org</th>
+                <th>Decision</th>
+                <th>Before</th>
+                <th>After</th>
+              </tr>
+            </thead>
+            <tbody>
+              {page.events.map((event) => (
+                <tr key={event.id}>
+                  <td>{event.created_at.toISOString()}</td>
+                  <td>
+                    {event.requestor}
+                    {event.impersonated_by &&
+                      ` (impersonated by ${event.impersonated_by})`}
+                  </td>
+                  <td>
+                    {event.action} (<code>{event.permission}</code>)
+                  </td>
+                  <td>
+                    {event.target_type} {event.target_id}
+                  </td>
+                  <td>{event.org}</td>
+                  <td>{event.allowed ? "allowed" : "denied"}</td>
+                  <td>
+                    <code>{event.before && JSON.stringify(event.before)}</code>
+                  </td>
+                  <td>
+                    <code>{event.after && JSON.stringify(event.after)}</code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {page.nextCursor && (
+            <Link href={`?${nextPageParams.toString()}`}>Next page</Link>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+export const dynamic = "force-dynamic";
+
+import React from "react";
+import Link from "next/link";
+
+import { explainPermission } from "@/actions/explain";
+import { Derivation } from "@/lib/explain";
+import { stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
+
+interface ExplainProps {
+  params: { username: string };
+  searchParams: { action?: string; type?: string; id?: string };
+}
+
+/**
+ * Renders a derivation as a nested list, marking each step with whether it
+ * holds.
+ */
+function DerivationTree({ derivation }: { derivation: Derivation }) {
+  return (
+    <li>
+      <span style={{ color: derivation.holds ? "green" : "red" }}>
+        {derivation.holds ? "✓" : "✗"}
+      </span>{" "}
+      <code>{derivation.goal}</code>
+      {derivation.missing && <em> ({derivation.missing})</em>}
+      {derivation.children.length > 0 && (
+        <ul>
+          {derivation.children.map((child, i) => (
+            <DerivationTree key={i} derivation={child} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * Render why the user does or does not have a permission.
+ */
+export default async function ExplainPage({
+  params,
+  searchParams,
+}: ExplainProps) {
+  let errorMessage: string | null = null;
+  let derivation: Derivation | null = null;
+
+  const { username } = params;
+  const { action, type, id } = searchParams;
+
+  // Explanations reveal other users' roles and relations, so only explain the
+  // requestor's own permissions, as on the user's page.
+  const requestor = await getRequestor();
+  if (username !== requestor) {
+    return (
+      <div>
+        <p>
+          You are acting as <Link href={`/user/${requestor}`}>{requestor}</Link>
+          , so can only explain their permissions.
+        </p>
+      </div>
+    );
+  }
+
+  try {
+    if (!action) {
+      throw new Error("must specify an action to explain");
+    }
+    derivation = await explainPermission(
+      action,
+      type && id ? { type, id } : undefined
+    );
+  } catch (e) {
+    errorMessage = stringifyError(e);
+  }
+
+  return (
+    <div>
+      <Link href={`/user/${username}`}>Back to {username} Home</Link>
+      <h2>
+        Can {username} <code>{action}</code>
+        {type && id ? ` on ${type}:${id}` : ""}?
+      </h2>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      {derivation && (
+        <>
+          <p>
+            <strong>{derivation.holds ? "Yes" : "No"}</strong>. Any one of the
+            rules below is sufficient; a rule holds only if everything nested
+            beneath it holds.
+          </p>
+          <ul>
+            <DerivationTree derivation={derivation} />
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useFormState } from "react-dom";
+
+import { SubmitButton } from "@/lib/components";
+import { Role } from "@/lib/relations";
+import { stringifyError } from "@/lib/result";
+
+import {
+  AccessRequest,
+  approveAccessRequest,
+  createAccessRequest,
+  denyAccessRequest,
+  getOwnAccessRequests,
+  getPendingAccessRequests,
+} from "@/actions/accessRequests";
+import { getOrgRoles } from "@/actions/org";
+import { UserWOrgPermissions } from "@/actions/user";
+
+import { OrgDbEvents, UserDbEvents } from "./UserOverview";
+
+interface AccessRequestsProps {
+  user: UserWOrgPermissions;
+}
+
+/**
+ * Provides a component for members to request different roles in their
+ * organizations, and to approve or deny the requests of users whose roles the
+ * requestor can edit.
+ */
+const AccessRequests: React.FC<AccessRequestsProps> = ({ user }) => {
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  // The roles of each of the user's organizations.
+  const [rolesByOrg, setRolesByOrg] = useState<Record<string, Role[]>>({});
+  // The organization selected in the form, which determines its roles.
+  const [org, setOrg] = useState<string>(user.memberships[0]?.org ?? "");
+  const [ownRequests, setOwnRequests] = useState<AccessRequest[]>([]);
+  const [pendingRequests, setPendingRequests] = useState<AccessRequest[]>([]);
+  // The reason entered to deny each pending request, by ID.
+  const [denyReasons, setDenyReasons] = useState<Record<string, string>>({});
+  // Triggers re-build of form to reset fields.
+  const [formKey, setFormKey] = useState<number>(0);
+
+  const [formState, formAction] = useFormState(createAccessRequest, null);
+
+  const getRoles = async () => {
+    try {
+      const orgRoles = await Promise.all(
+        user.memberships.map((m) => getOrgRoles(m.org))
+      );
+      setRolesByOrg(
+        Object.fromEntries(
+          user.memberships.map((m, index) => [m.org, orgRoles[index]])
+        )
+      );
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  const loadRequests = async () => {
+    try {
+      const [own, pending] = await Promise.all([
+        getOwnAccessRequests(),
+        getPendingAccessRequests(),
+      ]);
+      setOwnRequests(own);
+      setPendingRequests(pending);
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  useEffect(() => {
+    const unsubscribeOrgs = OrgDbEvents.subscribe(() => {
+      getRoles();
+      loadRequests();
+    });
+    const unsubscribeUsers = UserDbEvents.subscribe(loadRequests);
+    getRoles();
+    loadRequests();
+    return () => {
+      unsubscribeOrgs();
+      unsubscribeUsers();
+    };
+  }, [user]);
+
+  useEffect(() => {
+    if (!formState) {
+      return;
+    }
+    if (formState.success) {
+      setFormKey((prevKey) => prevKey + 1);
+      setErrorMessage(null);
+      loadRequests();
+    } else {
+      setErrorMessage(formState.error);
+    }
+  }, [formState]);
+
+  const handleApprove = async (id: string) => {
+    try {
+      await approveAccessRequest(id);
+      setErrorMessage(null);
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  const handleDeny = async (id: string) => {
+    try {
+      await denyAccessRequest(id, denyReasons[id] ?? "");
+      setErrorMessage(null);
+      loadRequests();
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  return (
+    <div>
+      <hr />
+      <h2>Access requests</h2>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      {Boolean(pendingRequests.length) && (
+        <>
+          <h3>Pending requests</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>User</th>
+                <th>Org</th>
+                <th>Current role</th>
+                <th>Requested role</th>
+                <th>Reason</th>
+                <th></th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {pendingRequests.map((request) => (
+                <tr key={request.id}>
+                  <td>{request.username}</td>
+                  <td>{request.org}</td>
+                  <td>{request.currentRole ?? "(no longer a member)"}</td>
+                  <td>{request.role}</td>
+                  <td>{request.reason}</td>
+                  <td>
+                    <button onClick={() => handleApprove(request.id)}>
+                      Approve
+                    </button>
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      aria-label={`Reason to deny ${request.username}`}
+                      placeholder="Reason to deny"
+                      value={denyReasons[request.id] ?? ""}
+                      onChange={(e) =>
+                        setDenyReasons((prev) => ({
+                          ...prev,
+                          [request.id]: e.target.value,
+                        }))
+                      }
+                    />
+                    <button
+                      onClick={() => handleDeny(request.id)}
+                      disabled={!denyReasons[request.id]?.trim()}
+                    >
+                      Deny
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+      <h3>Request a role</h3>
+      <form action={formAction} key={formKey}>
+        <div>
+          <label htmlFor="accessRequestOrganization">Organization:</label>
+          <select
+            id="accessRequestOrganization"
+            name="organization"
+            value={org}
+            onChange={(e) => setOrg(e.target.value)}
+            required
+          >
+            {user.memberships.map((m) => (
+              <option key={m.org} value={m.org}>
+                {m.org}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="accessRequestRole">Role:</label>
+          <select id="accessRequestRole" name="role" required>
+            {(rolesByOrg[org] ?? []).map((role) => (
+              <option key={role.name} value={role.name}>
+                {role.name}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="accessRequestReason">Reason:</label>
+          <input
+            id="accessRequestReason"
+            type="text"
+            name="reason"
+            placeholder="Why do you need this role?"
+            required
+          />
+        </div>
+        <SubmitButton action="Request role" />
+      </form>
+      {Boolean(ownRequests.length) && (
+        <table>
+          <thead>
+            <tr>
+              <th>Org</th>
+              <th>Role</th>
+              <th>Status</th>
+              <th>Decided by</th>
+              <th>Reason for denial</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ownRequests.map((request) => (
+              <tr key={request.id}>
+                <td>{request.org}</td>
+                <td>{request.role}</td>
+                <td>{request.status}</td>
+                <td>{request.decided_by}</td>
+                <td>{request.decision_reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AccessRequests;
@@ -0,0 +1,129 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useFormState } from "react-dom";
+
+import { SubmitButton } from "@/lib/components";
+import { stringifyError } from "@/lib/result";
+
+import {
+  ApiTokenInfo,
+  createApiToken,
+  getApiTokens,
+  revokeApiToken,
+} from "@/actions/apiTokens";
+
+interface ApiTokensProps {
+  requestor: string;
+}
+
+/**
+ * Provides a component to create and revoke the requestor's REST API bearer
+ * tokens.
+ */
+const ApiTokens: React.FC<ApiTokensProps> = ({ requestor }) => {
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [tokens, setTokens] = useState<ApiTokenInfo[]>([]);
+  // The most recently created token, which is only available once.
+  const [newToken, setNewToken] = useState<string | null>(null);
+  // Triggers re-build of form to reset fields.
+  const [formKey, setFormKey] = useState<number>(0);
+
+  const [formState, formAction] = useFormState(createApiToken, null);
+
+  const loadTokens = async () => {
+    try {
+      setTokens(await getApiTokens());
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  useEffect(() => {
+    setNewToken(null);
+    loadTokens();
+  }, [requestor]);
+
+  useEffect(() => {
+    if (!formState) {
+      return;
+    }
+    if (formState.success) {
+      setNewToken(formState.value);
+      setFormKey((prevKey) => prevKey + 1);
+      setErrorMessage(null);
+      loadTokens();
+    } else {
+      setErrorMessage(formState.error);
+    }
+  }, [formState]);
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await revokeApiToken(id);
+      loadTokens();
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  return (
+    <div>
+      <hr />
+      <h2>API tokens</h2>
+      <p>
+        Bearer tokens for the REST API, described by{" "}
+        <a href="/api/openapi.json">its OpenAPI document</a>. Tokens act as{" "}
+        {requestor}.
+      </p>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      {newToken && (
+        <p>
+          Copy this token now; it will not be shown again:{" "}
+          <code>{newToken}</code>
+        </p>
+      )}
+      <form action={formAction} key={formKey}>
+        <label htmlFor="tokenName">Name:</label>
+        <input id="tokenName" type="text" name="name" required />
+        <SubmitButton action="Create token" />
+      </form>
+      {Boolean(tokens.length) && (
+        <table>
+          <thead>
+            <tr>
+              <th>Name</th>
+              <th>Created</th>
+              <th>Last used</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {tokens.map((token) => (
+              <tr key={token.id}>
+                <td>{token.name}</td>
+                <td>{token.created_at.toISOString()}</td>
+                <td>{token.last_used_at?.toISOString() ?? "never"}</td>
+                <td>
+                  {token.revoked_at ? (
+                    "revoked"
+                  ) : (
+                    <button onClick={() => handleRevoke(token.id)}>
+                      Revoke
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default ApiTokens;
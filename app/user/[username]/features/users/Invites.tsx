@@ -0,0 +1,239 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useFormState } from "react-dom";
+
+import { SubmitButton } from "@/lib/components";
+import { Org, Role } from "@/lib/relations";
+import { stringifyError } from "@/lib/result";
+
+import { getCreateUserOrgs, getOrgRoles } from "@/actions/org";
+import {
+  createInvite,
+  getPendingInvites,
+  PendingInvite,
+  resendInvite,
+  revokeInvite,
+} from "@/actions/invites";
+
+import { OrgDbEvents, UserDbEvents } from "./UserOverview";
+
+interface InvitesProps {
+  requestor: string;
+}
+
+/**
+ * Provides a component to invite people to organizations the requestor can
+ * create users on, as well as to resend and revoke pending invitations.
+ */
+const Invites: React.FC<InvitesProps> = ({ requestor }) => {
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [orgs, setOrgs] = useState<Org[]>([]);
+  // The roles of each organization in `orgs`.
+  const [rolesByOrg, setRolesByOrg] = useState<Record<string, Role[]>>({});
+  // The organization selected in the form, which determines its roles.
+  const [org, setOrg] = useState<string>("");
+  const [invites, setInvites] = useState<PendingInvite[]>([]);
+  // The link to the most recently created or resent invitation, which is only
+  // available once.
+  const [newLink, setNewLink] = useState<string | null>(null);
+  // Triggers re-build of form to reset fields.
+  const [formKey, setFormKey] = useState<number>(0);
+
+  const [formState, formAction] = useFormState(createInvite, null);
+
+  const toLink = (path: string) => `${window.location.origin}${path}`;
+
+  const getOrgs = async () => {
+    try {
+      const orgsResult = await getCreateUserOrgs();
+      const orgRoles = await Promise.all(
+        orgsResult.map((o) => getOrgRoles(o.name))
+      );
+      setRolesByOrg(
+        Object.fromEntries(
+          orgsResult.map((o, index) => [o.name, orgRoles[index]])
+        )
+      );
+      setOrgs(orgsResult);
+      setOrg((prev) =>
+        orgsResult.some((o) => o.name === prev)
+          ? prev
+          : orgsResult[0]?.name ?? ""
+      );
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  const loadInvites = async () => {
+    try {
+      setInvites(await getPendingInvites());
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  useEffect(() => {
+    setNewLink(null);
+    const unsubscribeOrgs = OrgDbEvents.subscribe(() => {
+      getOrgs();
+      loadInvites();
+    });
+    // Accepted invitations create users.
+    const unsubscribeUsers = UserDbEvents.subscribe(loadInvites);
+    getOrgs();
+    loadInvites();
+    return () => {
+      unsubscribeOrgs();
+      unsubscribeUsers();
+    };
+  }, [requestor]);
+
+  useEffect(() => {
+    if (!formState) {
+      return;
+    }
+    if (formState.success) {
+      setNewLink(toLink(formState.value));
+      setFormKey((prevKey) => prevKey + 1);
+      setErrorMessage(null);
+      loadInvites();
+    } else {
+      setErrorMessage(formState.error);
+    }
+  }, [formState]);
+
+  const handleResend = async (id: string) => {
+    try {
+      setNewLink(toLink(await resendInvite(id)));
+      setErrorMessage(null);
+      loadInvites();
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    try {
+      await revokeInvite(id);
+      setErrorMessage(null);
+      loadInvites();
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  return (
+    <div>
+      {Boolean(orgs.length) && (
+        <>
+          <h3>Invite users</h3>
+          {errorMessage && (
+            <div className="error" role="alert">
+              {errorMessage}
+            </div>
+          )}
+          {newLink && (
+            <p>
+              Send this link to the invitee; it will not be shown again:{" "}
+              <code>{newLink}</code>
+            </p>
+          )}
+          <form action={formAction} key={formKey}>
+            <div>
+              <label htmlFor="invitee">Invitee:</label>
+              <input
+                id="invitee"
+                type="text"
+                name="invitee"
+                placeholder="e.g. their email address"
+                required
+              />
+            </div>
+            <div>
+              <label htmlFor="inviteOrganization">Organization:</label>
+              <select
+                id="inviteOrganization"
+                name="organization"
+                value={org}
+                onChange={(e) => setOrg(e.target.value)}
+                required
+              >
+                {orgs.map((o) => (
+                  <option key={o.name} value={o.name}>
+                    {o.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="inviteRole">Role:</label>
+              <select id="inviteRole" name="role" required>
+                {(rolesByOrg[org] ?? []).map((role) => (
+                  <option key={role.name} value={role.name}>
+                    {role.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="expiresInDays">Expires in (days):</label>
+              <input
+                id="expiresInDays"
+                type="number"
+                name="expiresInDays"
+                min={1}
+                defaultValue={7}
+                required
+              />
+            </div>
+            <SubmitButton action="Create invitation" />
+          </form>
+          {Boolean(invites.length) && (
+            <table>
+              <thead>
+                <tr>
+                  <th>Invitee</th>
+                  <th>Org</th>
+                  <th>Role</th>
+                  <th>Invited by</th>
+                  <th>Expires</th>
+                  <th></th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {invites.map((invite) => (
+                  <tr key={invite.id}>
+                    <td>{invite.invitee}</td>
+                    <td>{invite.org}</td>
+                    <td>{invite.role}</td>
+                    <td>{invite.created_by}</td>
+                    <td>
+                      {invite.expired
+                        ? "expired"
+                        : invite.expires_at.toISOString()}
+                    </td>
+                    <td>
+                      <button onClick={() => handleResend(invite.id)}>
+                        Resend
+                      </button>
+                    </td>
+                    <td>
+                      <button onClick={() => handleRevoke(invite.id)}>
+                        Revoke
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Invites;
@@ -4,7 +4,8 @@ import React, { useState, useEffect } from "react";
 import { useFormState } from "react-dom";
 
 import { SubmitButton } from "@/lib/components";
-import { canCreateOrg, createOrg, getCreateUserOrgs } from "@/actions/org";
+import { canCreateOrg, createOrg, getReadableOrgs } from "@/actions/org";
+import { flattenOrgTree, OrgTreeNode } from "@/lib/orgTree";
 
 import UserCreator from "../users/UserCreator";
 import { stringifyError } from "@/lib/result";
@@ -27,23 +28,34 @@ const OrgCreator: React.FC<OrgCreatorProps> = ({ requestor }) => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   const [createOrgsPerm, setCreateOrgsPerm] = useState<boolean>(false);
+  // Organizations that new organizations can be sub-organizations of.
+  const [parents, setParents] = useState<OrgTreeNode[]>([]);
 
-  // We need to provide the username of the user creating the new org to ensure
-  // they're permitted to do so.
-  const createOrgWithCreator = createOrg.bind(null, { requestor });
-  const [formState, formAction] = useFormState(createOrgWithCreator, null);
+  const [formState, formAction] = useFormState(createOrg, null);
+
+  const getParents = async () => {
+    try {
+      const orgs = await getReadableOrgs();
+      setParents(flattenOrgTree(orgs.filter((org) => org.name !== "_root")));
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
 
   // Determine if user can create organizations.
   useEffect(() => {
     const initializeCreateOrgFormState = async () => {
       try {
-        const canCreateOrgs = await canCreateOrg(requestor);
+        const canCreateOrgs = await canCreateOrg();
         setCreateOrgsPerm(canCreateOrgs);
       } catch (e) {
         setErrorMessage(stringifyError(e));
       }
     };
     initializeCreateOrgFormState();
+    const unsubscribe = OrgDbEvents.subscribe(getParents);
+    getParents();
+    return unsubscribe;
   }, []);
 
   // Whenever creating new orgs, update the orgs.
@@ -52,7 +64,6 @@ const OrgCreator: React.FC<OrgCreatorProps> = ({ requestor }) => {
       return;
     }
     if (formState.success) {
-      OrgDbEvents.emit();
       // Re-render form after successful submission.
       setFormKey((prevKey) => prevKey + 1);
     } else {
@@ -78,6 +89,17 @@ const OrgCreator: React.FC<OrgCreatorProps> = ({ requestor }) => {
               <label htmlFor="orgName">Name:</label>
               <input id="orgName" type="text" name="orgName" required />
             </div>
+            <div>
+              <label htmlFor="parent">Parent:</label>
+              <select id="parent" name="parent" defaultValue="">
+                <option value="">None</option>
+                {parents.map(({ name, depth }) => (
+                  <option key={name} value={name}>
+                    {"\u00a0\u00a0".repeat(depth) + name}
+                  </option>
+                ))}
+              </select>
+            </div>
             <SubmitButton action="Add org" />
           </form>
         </>
@@ -0,0 +1,194 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+
+import { Org } from "@/lib/relations";
+import { stringifyError } from "@/lib/result";
+
+import {
+  deleteOrg,
+  getCreateUserOrgs,
+  getManageableOrgs,
+  ManageableOrg,
+  MemberDisposition,
+  renameOrg,
+} from "@/actions/org";
+
+import { OrgDbEvents } from "./UserOverview";
+
+interface OrgSettingsProps {
+  requestor: string;
+}
+
+interface OrgWEdits {
+  inner: ManageableOrg;
+  nameCurr: string;
+  strategy: MemberDisposition["strategy"];
+  reassignTo: string;
+}
+
+/**
+ * Provides a component to rename and delete organizations the requestor is
+ * permitted to manage.
+ */
+const OrgSettings: React.FC<OrgSettingsProps> = ({ requestor }) => {
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [orgs, setOrgs] = useState<OrgWEdits[]>([]);
+  // Organizations that users can be reassigned to when deleting an org.
+  const [destOrgs, setDestOrgs] = useState<Org[]>([]);
+
+  const getOrgs = async () => {
+    setErrorMessage(null);
+    try {
+      const [manageableOrgs, createUserOrgs] = await Promise.all([
+        getManageableOrgs(),
+        getCreateUserOrgs(),
+      ]);
+      setOrgs(
+        manageableOrgs.map((org) => ({
+          inner: org,
+          nameCurr: org.name,
+          strategy: "block",
+          reassignTo: "",
+        }))
+      );
+      setDestOrgs(createUserOrgs);
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  useEffect(() => {
+    const unsubscribe = OrgDbEvents.subscribe(getOrgs);
+    getOrgs();
+    return unsubscribe;
+  }, [requestor]);
+
+  const updateOrg = (index: number, update: Partial<OrgWEdits>) => {
+    setOrgs((prev) =>
+      prev.map((org, i) => (i === index ? { ...org, ...update } : org))
+    );
+  };
+
+  const handleRename = async (org: OrgWEdits) => {
+    try {
+      await renameOrg(org.inner.name, org.nameCurr);
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  const handleDelete = async (org: OrgWEdits) => {
+    const members: MemberDisposition =
+      org.strategy === "reassign"
+        ? { strategy: "reassign", org: org.reassignTo }
+        : { strategy: org.strategy };
+    try {
+      await deleteOrg(org.inner.name, members);
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  return (
+    <div>
+      {Boolean(orgs.length) && (
+        <>
+          <h3>Manage orgs</h3>
+          {errorMessage && (
+            <div className="error" role="alert">
+              {errorMessage}
+            </div>
+          )}
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th></th>
+                <th>Users on delete</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {orgs.map((org, index) => (
+                <tr key={org.inner.name}>
+                  <td>
+                    {org.inner.renameOrg ? (
+                      <input
+                        type="text"
+                        value={org.nameCurr}
+                        onChange={(e) =>
+                          updateOrg(index, { nameCurr: e.target.value })
+                        }
+                      />
+                    ) : (
+                      <p>{org.inner.name}</p>
+                    )}
+                  </td>
+                  <td>
+                    <button
+                      onClick={() => handleRename(org)}
+                      disabled={
+                        !org.inner.renameOrg || org.nameCurr === org.inner.name
+                      }
+                    >
+                      Rename
+                    </button>
+                  </td>
+                  <td>
+                    <select
+                      value={org.strategy}
+                      disabled={!org.inner.deleteOrg}
+                      onChange={(e) =>
+                        updateOrg(index, {
+                          strategy: e.target
+                            .value as MemberDisposition["strategy"],
+                        })
+                      }
+                    >
+                      <option value="block">Block if any</option>
+                      <option value="reassign">Reassign to...</option>
+                      <option value="cascade">Delete</option>
+                    </select>
+                    {org.strategy === "reassign" && (
+                      <select
+                        value={org.reassignTo}
+                        onChange={(e) =>
+                          updateOrg(index, { reassignTo: e.target.value })
+                        }
+                      >
+                        <option value="" disabled>
+                          Select org
+                        </option>
+                        {destOrgs
+                          .filter((dest) => dest.name !== org.inner.name)
+                          .map((dest) => (
+                            <option key={dest.name} value={dest.name}>
+                              {dest.name}
+                            </option>
+                          ))}
+                      </select>
+                    )}
+                  </td>
+                  <td>
+                    <button
+                      onClick={() => handleDelete(org)}
+                      disabled={
+                        !org.inner.deleteOrg ||
+                        (org.strategy === "reassign" && !org.reassignTo)
+                      }
+                    >
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default OrgSettings;
@@ -0,0 +1,200 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useFormState } from "react-dom";
+
+import { SubmitButton } from "@/lib/components";
+import { Org } from "@/lib/relations";
+import { stringifyError } from "@/lib/result";
+
+import {
+  CustomRole,
+  deleteRole,
+  getCustomRoles,
+  getGrantablePermissions,
+  getManageRolesOrgs,
+  saveRole,
+} from "@/actions/roles";
+
+import { OrgDbEvents } from "./UserOverview";
+
+interface RoleEditorProps {
+  requestor: string;
+}
+
+interface PermissionCheckboxesProps {
+  permissions: string[];
+  granted: string[];
+}
+
+// Renders one checkbox per permission, submitted as the form's `permission`s.
+const PermissionCheckboxes: React.FC<PermissionCheckboxesProps> = ({
+  permissions,
+  granted,
+}) => (
+  <>
+    {permissions.map((permission) => (
+      <label key={permission}>
+        <input
+          type="checkbox"
+          name="permission"
+          value={permission}
+          defaultChecked={granted.includes(permission)}
+        />
+        {permission}
+      </label>
+    ))}
+  </>
+);
+
+/**
+ * Provides a component to create, edit, and delete the custom roles of
+ * organizations the requestor has the `manage_roles` permission on.
+ */
+const RoleEditor: React.FC<RoleEditorProps> = ({ requestor }) => {
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [orgs, setOrgs] = useState<Org[]>([]);
+  const [org, setOrg] = useState<string>("");
+  const [roles, setRoles] = useState<CustomRole[]>([]);
+  const [permissions, setPermissions] = useState<string[]>([]);
+  // Triggers re-build of forms to reset fields.
+  const [formKey, setFormKey] = useState<number>(0);
+
+  const [formState, formAction] = useFormState(saveRole, null);
+
+  const getOrgs = async () => {
+    setErrorMessage(null);
+    try {
+      const [orgsResult, grantable] = await Promise.all([
+        getManageRolesOrgs(),
+        getGrantablePermissions(),
+      ]);
+      setOrgs(orgsResult);
+      setPermissions(grantable);
+      setOrg((prev) =>
+        orgsResult.some((o) => o.name === prev)
+          ? prev
+          : orgsResult[0]?.name ?? ""
+      );
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  const getRoles = async () => {
+    if (!org) {
+      setRoles([]);
+      return;
+    }
+    try {
+      setRoles(await getCustomRoles(org));
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  useEffect(() => {
+    const unsubscribe = OrgDbEvents.subscribe(getOrgs);
+    getOrgs();
+    return unsubscribe;
+  }, [requestor]);
+
+  useEffect(() => {
+    getRoles();
+  }, [org, formKey]);
+
+  useEffect(() => {
+    if (!formState) {
+      return;
+    }
+    if (formState.success) {
+      setFormKey((prevKey) => prevKey + 1);
+      setErrorMessage(null);
+    } else {
+      setErrorMessage(formState.error);
+    }
+  }, [formState]);
+
+  const handleDelete = async (role: CustomRole) => {
+    try {
+      await deleteRole(role.org, role.name);
+      setFormKey((prevKey) => prevKey + 1);
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  return (
+    <div>
+      {Boolean(orgs.length) && (
+        <>
+          <h3>Manage roles</h3>
+          {errorMessage && (
+            <div className="error" role="alert">
+              {errorMessage}
+            </div>
+          )}
+          <div>
+            <label htmlFor="roleOrg">Organization:</label>
+            <select
+              id="roleOrg"
+              value={org}
+              onChange={(e) => setOrg(e.target.value)}
+            >
+              {orgs.map((o) => (
+                <option key={o.name} value={o.name}>
+                  {o.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <table>
+            <thead>
+              <tr>
+                <th>Role</th>
+                <th>Permissions</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {roles.map((role) => (
+                <tr key={`${formKey}-${role.name}`}>
+                  <td>{role.name}</td>
+                  <td>
+                    <form action={formAction} id={`role-${role.name}`}>
+                      <input type="hidden" name="org" value={role.org} />
+                      <input type="hidden" name="name" value={role.name} />
+                      <PermissionCheckboxes
+                        permissions={permissions}
+                        granted={role.permissions}
+                      />
+                    </form>
+                  </td>
+                  <td>
+                    <button type="submit" form={`role-${role.name}`}>
+                      Save
+                    </button>
+                    <button onClick={() => handleDelete(role)}>Delete</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <form action={formAction} key={formKey}>
+            <input type="hidden" name="org" value={org} />
+            <div>
+              <label htmlFor="roleName">New role:</label>
+              <input id="roleName" type="text" name="name" required />
+            </div>
+            <div>
+              <PermissionCheckboxes permissions={permissions} granted={[]} />
+            </div>
+            <SubmitButton action="Create role" />
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RoleEditor;
@@ -5,9 +5,9 @@ import { useFormState } from "react-dom";
 
 import { SubmitButton } from "@/lib/components";
 import { Org, Role } from "@/lib/relations";
-import { stringifyError } from "@/lib/result";
+import { Result, stringifyError } from "@/lib/result";
 
-import { createUser } from "@/actions/user";
+import { addMembership, createUser } from "@/actions/user";
 import { getCreateUserOrgs, getOrgRoles } from "@/actions/org";
 
 import { OrgDbEvents, UserDbEvents } from "./UserOverview";
@@ -17,28 +17,39 @@ interface UserCreatorProps {
 }
 
 /**
- * Provides a component to create users, as well as manage permitted users.
+ * Provides a component to create users, as well as add existing users to other
+ * organizations.
  *
  * This component receives organizations from `OrgCreator` (`orgsIn`), and
  * creates users, it passes to `UserManager`.
  */
 const UserCreator: React.FC<UserCreatorProps> = ({ requestor }) => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [roles, setRoles] = useState<Role[]>([]);
   // Organizations that user can create new users on.
   const [orgs, setOrgs] = useState<Org[]>([]);
+  // The roles of each organization in `orgs`.
+  const [rolesByOrg, setRolesByOrg] = useState<Record<string, Role[]>>({});
+  // The organizations selected in each form, which determine their roles.
+  const [createOrg, setCreateOrg] = useState<string>("");
+  const [memberOrg, setMemberOrg] = useState<string>("");
   // Triggers re-build of form to reset fields.
   const [formKey, setFormKey] = useState<number>(0);
 
-  // We need to provide the username of the user creating the new user to ensure
-  // they're permitted to do so.
-  const createUserWithCreator = createUser.bind(null, { requestor });
-  const [formState, formAction] = useFormState(createUserWithCreator, null);
+  const [formState, formAction] = useFormState(createUser, null);
+  const [membershipState, membershipAction] = useFormState(addMembership, null);
 
   const getOrgs = async () => {
     setErrorMessage(null);
     try {
-      const orgsResult = await getCreateUserOrgs(requestor);
+      const orgsResult = await getCreateUserOrgs();
+      const orgRoles = await Promise.all(
+        orgsResult.map((org) => getOrgRoles(org.name))
+      );
+      setRolesByOrg(
+        Object.fromEntries(
+          orgsResult.map((org, index) => [org.name, orgRoles[index]])
+        )
+      );
       setOrgs(orgsResult);
     } catch (e) {
       setErrorMessage(stringifyError(e));
@@ -46,36 +57,33 @@ const UserCreator: React.FC<UserCreatorProps> = ({ requestor }) => {
   };
 
   useEffect(() => {
-    const initUserCreator = async () => {
-      const unsubscribeOrgs = OrgDbEvents.subscribe(getOrgs);
-      try {
-        getOrgs();
-
-        // Determine the database's values for `organization_role`.
-        const orgRoles = await getOrgRoles();
-        setRoles(orgRoles);
-        return unsubscribeOrgs;
-      } catch (e) {
-        setErrorMessage(stringifyError(e));
-      }
-    };
-    initUserCreator();
+    const unsubscribeOrgs = OrgDbEvents.subscribe(getOrgs);
+    getOrgs();
+    return unsubscribeOrgs;
   }, [requestor]);
 
-  // Update users whenever new user created.
+  // Keep the selected organizations valid as organizations change.
   useEffect(() => {
-    if (!formState) {
+    const names = orgs.map((org) => org.name);
+    setCreateOrg((prev) => (names.includes(prev) ? prev : names[0] ?? ""));
+    setMemberOrg((prev) => (names.includes(prev) ? prev : names[0] ?? ""));
+  }, [orgs]);
+
+  // Update users whenever new user created or added to an organization.
+  const handleFormState = (state: Result<string> | null) => {
+    if (!state) {
       return;
     }
-    if (formState.success) {
-      UserDbEvents.emit();
-      // Re-render form after successful submission.
+    if (state.success) {
+      // Re-render forms after successful submission.
       setFormKey((prevKey) => prevKey + 1);
       setErrorMessage(null);
     } else {
-      setErrorMessage(formState.error);
+      setErrorMessage(state.error);
     }
-  }, [formState]);
+  };
+  useEffect(() => handleFormState(formState), [formState]);
+  useEffect(() => handleFormState(membershipState), [membershipState]);
 
   return (
     <div>
@@ -97,9 +105,19 @@ const UserCreator: React.FC<UserCreatorProps> = ({ requestor }) => {
             <label htmlFor="username">Username:</label>
             <input id="username" type="text" name="username" required />
           </div>
+          <div>
+            <label htmlFor="password">Initial password:</label>
+            <input id="password" type="password" name="password" required />
+          </div>
           <div>
             <label htmlFor="organization">Organization:</label>
-            <select id="organization" name="organization" required>
+            <select
+              id="organization"
+              name="organization"
+              value={createOrg}
+              onChange={(e) => setCreateOrg(e.target.value)}
+              required
+            >
               {orgs.map((org) => (
                 <option key={org.name} value={org.name}>
                   {org.name}
@@ -110,7 +128,7 @@ const UserCreator: React.FC<UserCreatorProps> = ({ requestor }) => {
           <div>
             <label htmlFor="role">Role:</label>
             <select id="role" name="role" required>
-              {roles.map((role) => (
+              {(rolesByOrg[createOrg] ?? []).map((role) => (
                 <option key={role.name} value={role.name}>
                   {role.name}
                 </option>
@@ -120,6 +138,44 @@ const UserCreator: React.FC<UserCreatorProps> = ({ requestor }) => {
           <SubmitButton action="Create user" />
         </form>
       )}
+      {Boolean(orgs?.length) && (
+        <div>
+          <h3>Add users to organizations</h3>
+          <form action={membershipAction} key={formKey}>
+            <div>
+              <label htmlFor="memberUsername">Username:</label>
+              <input id="memberUsername" type="text" name="username" required />
+            </div>
+            <div>
+              <label htmlFor="memberOrganization">Organization:</label>
+              <select
+                id="memberOrganization"
+                name="organization"
+                value={memberOrg}
+                onChange={(e) => setMemberOrg(e.target.value)}
+                required
+              >
+                {orgs.map((org) => (
+                  <option key={org.name} value={org.name}>
+                    {org.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="memberRole">Role:</label>
+              <select id="memberRole" name="role" required>
+                {(rolesByOrg[memberOrg] ?? []).map((role) => (
+                  <option key={role.name} value={role.name}>
+                    {role.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <SubmitButton action="Add user" />
+          </form>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,154 @@
+"use client";
+
+import React, { useState, useEffect } from "react";
+import { useFormState, useFormStatus } from "react-dom";
+
+import { ImportReport, importUsers, previewUserImport } from "@/actions/import";
+
+interface UserImporterProps {
+  requestor: string;
+}
+
+function ImportButtons({
+  previewAction,
+  importAction,
+}: {
+  previewAction: (formData: FormData) => void;
+  importAction: (formData: FormData) => void;
+}) {
+  const { pending } = useFormStatus();
+  return (
+    <div>
+      <button type="submit" formAction={previewAction} disabled={pending}>
+        Preview
+      </button>
+      <button type="submit" formAction={importAction} disabled={pending}>
+        {pending ? "Working..." : "Import"}
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Provides a component to create many users at once from CSV or JSON, with a
+ * preview of which rows would be accepted.
+ */
+const UserImporter: React.FC<UserImporterProps> = ({ requestor }) => {
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [imported, setImported] = useState<number | null>(null);
+  // Triggers re-build of form to reset fields.
+  const [formKey, setFormKey] = useState<number>(0);
+
+  const [previewState, previewAction] = useFormState(previewUserImport, null);
+  const [importState, importAction] = useFormState(importUsers, null);
+
+  useEffect(() => {
+    setErrorMessage(null);
+    setReport(null);
+    setImported(null);
+  }, [requestor]);
+
+  useEffect(() => {
+    if (!previewState) {
+      return;
+    }
+    setImported(null);
+    if (previewState.success) {
+      setReport(previewState.value);
+      setErrorMessage(null);
+    } else {
+      setReport(null);
+      setErrorMessage(previewState.error);
+    }
+  }, [previewState]);
+
+  useEffect(() => {
+    if (!importState) {
+      return;
+    }
+    if (importState.success) {
+      setImported(importState.value.accepted);
+      setReport(null);
+      setErrorMessage(null);
+      // Re-render form after successful submission.
+      setFormKey((prevKey) => prevKey + 1);
+    } else {
+      setErrorMessage(importState.error);
+    }
+  }, [importState]);
+
+  return (
+    <div>
+      <h3>Import users</h3>
+      <p>
+        Upload or paste CSV with a header row, or a JSON array of objects, with
+        the fields <code>username</code>, <code>org</code>, <code>role</code>,
+        and, optionally, <code>password</code>. Rows for existing users, or
+        users listed more than once, add them to the row&apos;s organization.
+      </p>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      {imported !== null && <p>Imported {imported} rows.</p>}
+      <form key={formKey}>
+        <div>
+          <label htmlFor="importFile">File:</label>
+          <input
+            id="importFile"
+            type="file"
+            name="file"
+            accept=".csv,.json,text/csv,application/json"
+          />
+        </div>
+        <div>
+          <label htmlFor="importData">Or paste:</label>
+          <textarea
+            id="importData"
+            name="data"
+            rows={6}
+            cols={60}
+            placeholder={"username,org,role\nalice,acme,member"}
+          />
+        </div>
+        <ImportButtons
+          previewAction={previewAction}
+          importAction={importAction}
+        />
+      </form>
+      {report && (
+        <div className="permissions">
+          <p>
+            {report.accepted} rows accepted, {report.rejected} rows rejected.
+          </p>
+          <table>
+            <thead>
+              <tr>
+                <th>Row</th>
+                <th>Username</th>
+                <th>Org</th>
+                <th>Role</th>
+                <th>Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.rows.map((row) => (
+                <tr key={row.line}>
+                  <td>{row.line}</td>
+                  <td>{row.username}</td>
+                  <td>{row.org}</td>
+                  <td>{row.role}</td>
+                  <td>{row.reason ?? "accepted"}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UserImporter;
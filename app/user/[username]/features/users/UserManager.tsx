@@ -3,46 +3,117 @@
 import React, { useState, useEffect, useRef } from "react";
 import Link from "next/link";
 
-import { User, Role } from "@/lib/relations";
+import type {
+  MembershipFilter,
+  MembershipSort,
+  RoleEdit,
+} from "@/lib/memberships";
+import { flattenOrgTree } from "@/lib/orgTree";
+import { Membership, Org, Role } from "@/lib/relations";
 import { stringifyError } from "@/lib/result";
 import { useUsersStore } from "@/lib/users";
 
-import { getOrgRoles } from "@/actions/org";
+import { getCreateUserOrgs, getOrgRoles, getReadableOrgs } from "@/actions/org";
 import {
   deleteUser,
   editUsersRoleByUsername,
-  ReadableUser,
-  getReadableUsersWithPermissions,
+  getReadableMembershipsPage,
+  MembershipTransfer,
+  reactivateUser,
+  ReadableMembership,
+  removeMembership,
+  suspendUser,
+  transferUsers,
 } from "@/actions/user";
 
-import { UserDbEvents } from "./UserOverview";
+import { OrgDbEvents, UserDbEvents } from "./UserOverview";
 
 interface UserManagerProps {
   requestor: string;
 }
 
+// Identifies one of a user's memberships; users in many organizations have one
+// for each.
 interface UsersWActions {
-  inner: ReadableUser;
+  inner: ReadableMembership;
   roleCurr: string;
+  orgCurr: string;
+  // How long a newly selected role lasts, or `null` if it is permanent.
+  expiresInHoursCurr: number | null;
   onRoleChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  onOrgChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
+  onDurationChange: (e: React.ChangeEvent<HTMLSelectElement>) => void;
   onEdit: () => void;
   onDelete: () => void;
+  onSuspend: () => void;
+  onRemove: () => void;
+}
+
+// Determines whether the user has pending changes.
+function isChanged(user: UsersWActions): boolean {
+  return (
+    user.inner.role !== user.roleCurr ||
+    user.inner.org !== user.orgCurr ||
+    user.expiresInHoursCurr !== null
+  );
+}
+
+// The durations offered for temporary roles, in hours.
+const ROLE_DURATIONS: { label: string; hours: number | null }[] = [
+  { label: "Permanently", hours: null },
+  { label: "For 1 hour", hours: 1 },
+  { label: "For 8 hours", hours: 8 },
+  { label: "For 1 day", hours: 24 },
+  { label: "For 7 days", hours: 24 * 7 },
+];
+
+// The orders in which users can be listed.
+const SORTS: { label: string; sort: MembershipSort }[] = [
+  { label: "Username", sort: "username" },
+  { label: "Org", sort: "org" },
+  { label: "Role", sort: "role" },
+];
+
+// Describes how long remains until `expiresAt`, e.g. `3h 20m`.
+function formatRemaining(expiresAt: Date): string {
+  const minutes = Math.max(
+    0,
+    Math.ceil((new Date(expiresAt).getTime() - Date.now()) / 60_000)
+  );
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  if (days) {
+    return `${days}d ${hours}h`;
+  }
+  return hours ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
 }
 
 /**
- * Provides a component to manage permitted users.
+ * Provides a component to manage permitted users and their memberships.
  *
  * This component receives users from `UserCreator` (`usersIn`).
  */
 const UserManager: React.FC<UserManagerProps> = ({ requestor }) => {
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
-  const [roles, setRoles] = useState<Role[]>([]);
+  // Organizations that the requestor can move users to and from.
+  const [orgs, setOrgs] = useState<Org[]>([]);
+  // Organizations that the requestor can read, to display their hierarchy.
+  const [readableOrgs, setReadableOrgs] = useState<Org[]>([]);
+  // The roles of each organization in `orgs`.
+  const [rolesByOrg, setRolesByOrg] = useState<Record<string, Role[]>>({});
   const [users, setUsers] = useState<UsersWActions[]>([]);
+  // Restricts and orders the users listed, which are fetched a page at a time.
+  const [filter, setFilter] = useState<MembershipFilter>({});
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const setGlobalUsers = useUsersStore((state) => state.setUsers);
 
   // Use a ref to formData so that closures built over it operate over a
   // reference.
   const usersRef = useRef(users);
+  const rolesByOrgRef = useRef(rolesByOrg);
+  rolesByOrgRef.current = rolesByOrg;
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
 
   // Group users by organization
   const orgUsersMap = React.useMemo(() => {
@@ -58,47 +129,121 @@ const UserManager: React.FC<UserManagerProps> = ({ requestor }) => {
     return map;
   }, [users]);
 
+  // Order the organizations with users so that sub-organizations are displayed
+  // beneath their parents.
+  const orgTree = React.useMemo(() => {
+    const parents = new Map(readableOrgs.map((org) => [org.name, org.parent]));
+    return flattenOrgTree(
+      Array.from(orgUsersMap.keys()).map((name) => ({
+        name,
+        parent: parents.get(name) ?? null,
+      }))
+    );
+  }, [orgUsersMap, readableOrgs]);
+
   // Convenience function to update the form data by reaching out to the
-  // database + applying Oso list filtering.
-  const getUsers = async () => {
+  // database + applying Oso list filtering. Without `cursor`, replaces the
+  // users with the first page; with it, appends the page after `cursor`.
+  const getUsers = async (cursor?: string) => {
     setErrorMessage(null);
     try {
-      const fetchedUsers = await getReadableUsersWithPermissions(requestor);
-      setGlobalUsers(fetchedUsers);
+      const page = await getReadableMembershipsPage({
+        ...filterRef.current,
+        cursor,
+      });
+      const fetchedUsers = page.memberships;
+      // Handlers identify users by their index in all of the loaded users.
+      const offset = cursor ? usersRef.current.length : 0;
       // Filter out the requestor and convert to UsersWActions
       const filteredUsers = fetchedUsers
         .filter(
           (user) =>
-            user.username !== requestor && (user.editRole || user.deleteUser)
+            user.username !== requestor &&
+            (user.editRole ||
+              user.deleteUser ||
+              user.suspendUser ||
+              user.manageMembership)
+        )
+        .map((user, pageIndex) => {
+          const index = offset + pageIndex;
+          return {
+            inner: user,
+            roleCurr: user.role,
+            orgCurr: user.org,
+            expiresInHoursCurr: null,
+            onRoleChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
+              user.editRole ? handleRoleChange(e, index) : {},
+            onOrgChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
+              handleOrgChange(e, index),
+            onDurationChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
+              handleDurationChange(e, index),
+            onEdit: user.editRole ? () => handleEdit(index) : () => {},
+            onDelete: user.deleteUser ? () => handleDelete(index) : () => {},
+            onSuspend: user.suspendUser ? () => handleSuspend(index) : () => {},
+            onRemove: user.manageMembership
+              ? () => handleRemove(index)
+              : () => {},
+          };
+        });
+      const allUsers = cursor
+        ? [...usersRef.current, ...filteredUsers]
+        : filteredUsers;
+      setGlobalUsers(allUsers.map((user) => user.inner));
+      setUsers(allUsers);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      setErrorMessage(stringifyError(e));
+    }
+  };
+
+  const getOrgs = async () => {
+    try {
+      const [orgsResult, readableOrgsResult] = await Promise.all([
+        getCreateUserOrgs(),
+        getReadableOrgs(),
+      ]);
+      const orgRoles = await Promise.all(
+        orgsResult.map((org) => getOrgRoles(org.name))
+      );
+      setRolesByOrg(
+        Object.fromEntries(
+          orgsResult.map((org, index) => [org.name, orgRoles[index]])
         )
-        .map((user, index) => ({
-          inner: user,
-          roleCurr: user.role,
-          onRoleChange: (e: React.ChangeEvent<HTMLSelectElement>) =>
-            user.editRole ? handleRoleChange(e, index) : {},
-          onEdit: user.editRole ? () => handleEdit(index) : () => {},
-          onDelete: user.deleteUser ? () => handleDelete(index) : () => {},
-        }));
-      setUsers(filteredUsers);
+      );
+      setOrgs(orgsResult);
+      setReadableOrgs(readableOrgsResult);
     } catch (e) {
       setErrorMessage(stringifyError(e));
     }
   };
 
   useEffect(() => {
-    const initUserManager = async () => {
-      const unsubscribe = UserDbEvents.subscribe(getUsers);
-      try {
-        await Promise.all([getUsers(), getOrgRoles().then(setRoles)]);
-      } catch (e) {
-        setErrorMessage(stringifyError(e));
-      }
-      return unsubscribe;
+    // Changes can move users between pages, so reload from the first.
+    const unsubscribe = UserDbEvents.subscribe(() => getUsers());
+    const unsubscribeOrgs = OrgDbEvents.subscribe(getOrgs);
+    getOrgs();
+    return () => {
+      unsubscribe();
+      unsubscribeOrgs();
     };
-
-    initUserManager();
   }, [requestor]);
 
+  useEffect(() => {
+    getUsers();
+  }, [requestor, filter]);
+
+  const handleFilter = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const formData = new FormData(e.currentTarget);
+    setFilter({
+      search: (formData.get("search") as string) || undefined,
+      org: (formData.get("org") as string) || undefined,
+      role: (formData.get("role") as string) || undefined,
+      sort: formData.get("sort") as MembershipSort,
+      descending: formData.get("descending") === "on",
+    });
+  };
+
   const handleRoleChange = (
     e: React.ChangeEvent<HTMLSelectElement>,
     index: number
@@ -108,15 +253,72 @@ const UserManager: React.FC<UserManagerProps> = ({ requestor }) => {
     setUsers(newFormData);
   };
 
-  // Edit + Delete buttons
+  const handleOrgChange = (
+    e: React.ChangeEvent<HTMLSelectElement>,
+    index: number
+  ) => {
+    const newFormData = [...usersRef.current];
+    newFormData[index].orgCurr = e.target.value;
+    newFormData[index].expiresInHoursCurr = null;
+    // Custom roles belong to a single organization, so users moved to an
+    // organization that lacks their role default to the built-in `member`.
+    if (
+      !rolesByOrgRef.current[e.target.value]?.some(
+        (role) => role.name === newFormData[index].roleCurr
+      )
+    ) {
+      newFormData[index].roleCurr = "member";
+    }
+    setUsers(newFormData);
+  };
+
+  const handleDurationChange = (
+    e: React.ChangeEvent<HTMLSelectElement>,
+    index: number
+  ) => {
+    const newFormData = [...usersRef.current];
+    newFormData[index].expiresInHoursCurr = e.target.value
+      ? Number(e.target.value)
+      : null;
+    setUsers(newFormData);
+  };
+
+  // Persists pending changes, moving memberships whose org changed and editing
+  // the roles of the remainder. Roles moved to another organization are always
+  // permanent.
+  async function saveChanges(changed: UsersWActions[]) {
+    const toMembership = (user: UsersWActions): Membership => ({
+      username: user.inner.username,
+      org: user.orgCurr,
+      role: user.roleCurr,
+    });
+    const toTransfer = (user: UsersWActions): MembershipTransfer => ({
+      ...toMembership(user),
+      prevOrg: user.inner.org,
+    });
+    await transferUsers(
+      changed.filter((user) => user.orgCurr !== user.inner.org).map(toTransfer)
+    );
+    await editUsersRoleByUsername(
+      changed
+        .filter((user) => user.orgCurr === user.inner.org)
+        .map(
+          (user): RoleEdit => ({
+            ...toMembership(user),
+            expiresInHours: user.expiresInHoursCurr,
+          })
+        )
+    );
+  }
+
+  // Edit, Delete, Suspend, and Remove buttons
   async function handleSingleUserOperation(
-    requestor: string,
     index: number,
-    operation: "edit" | "delete"
+    operation: "edit" | "delete" | "suspend" | "remove"
   ) {
     try {
       usersRef.current.forEach((user, thisIndex) => {
-        if (user.inner.role !== user.roleCurr && index !== thisIndex) {
+        if (isChanged(user) && index !== thisIndex) {
           throw new Error(
             `Cannot edit or delete individual users with multiple users' changes pending. Try 'Save changed roles'.`
           );
@@ -124,40 +326,37 @@ const UserManager: React.FC<UserManagerProps> = ({ requestor }) => {
       });
 
       const user = usersRef.current[index];
-      operation === "edit"
-        ? await editUsersRoleByUsername(requestor, [
-            {
-              username: user.inner.username,
-              role: user.roleCurr,
-              org: user.inner.org,
-            },
-          ])
-        : await deleteUser(requestor, user.inner.username);
-      UserDbEvents.emit();
+      if (operation === "edit") {
+        await saveChanges([user]);
+      } else if (operation === "delete") {
+        await deleteUser(user.inner.username);
+      } else if (operation === "suspend") {
+        // Toggles between suspended and active.
+        await (user.inner.status === "suspended"
+          ? reactivateUser(user.inner.username)
+          : suspendUser(user.inner.username));
+      } else {
+        await removeMembership(user.inner.username, user.inner.org);
+      }
     } catch (e) {
       setErrorMessage(stringifyError(e));
     }
   }
 
   const handleEdit = (index: number) =>
-    handleSingleUserOperation(requestor, index, "edit");
+    handleSingleUserOperation(index, "edit");
   const handleDelete = (index: number) =>
-    handleSingleUserOperation(requestor, index, "delete");
+    handleSingleUserOperation(index, "delete");
+  const handleSuspend = (index: number) =>
+    handleSingleUserOperation(index, "suspend");
+  const handleRemove = (index: number) =>
+    handleSingleUserOperation(index, "remove");
 
   // Save changed roles button
   const handleSaveUpdatedRoles = async () => {
-    const updatedUsers: User[] = usersRef.current
-      // Only update roles that have changed.
-      .filter((user) => user.roleCurr !== user.inner.role)
-      .map((user) => ({
-        username: user.inner.username,
-        org: user.inner.org,
-        role: user.roleCurr,
-      }));
-
     try {
-      await editUsersRoleByUsername(requestor, updatedUsers);
-      UserDbEvents.emit();
+      // Only update users that have changed.
+      await saveChanges(usersRef.current.filter(isChanged));
     } catch (e) {
       setErrorMessage(stringifyError(e));
     }
@@ -166,7 +365,7 @@ const UserManager: React.FC<UserManagerProps> = ({ requestor }) => {
   return (
     <div>
       {/* Only display table if there are orgs */}
-      {Boolean(orgUsersMap.size) && (
+      {Boolean(orgs.length) && (
         <div>
           <h3>Manage users</h3>
           {errorMessage && (
@@ -174,82 +373,176 @@ const UserManager: React.FC<UserManagerProps> = ({ requestor }) => {
               {errorMessage}
             </div>
           )}
+          <form onSubmit={handleFilter}>
+            <label htmlFor="userSearch">Username:</label>
+            <input id="userSearch" name="search" type="search" />
+            <label htmlFor="userOrgFilter">Org:</label>
+            <select id="userOrgFilter" name="org">
+              <option value="">Any</option>
+              {readableOrgs.map((org) => (
+                <option key={org.name} value={org.name}>
+                  {org.name}
+                </option>
+              ))}
+            </select>
+            <label htmlFor="userRoleFilter">Role:</label>
+            <input id="userRoleFilter" name="role" type="text" />
+            <label htmlFor="userSort">Sort by:</label>
+            <select id="userSort" name="sort">
+              {SORTS.map(({ label, sort }) => (
+                <option key={sort} value={sort}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <input id="userSortDescending" name="descending" type="checkbox" />
+            <label htmlFor="userSortDescending">Descending</label>
+            <button type="submit">Filter</button>
+          </form>
+          {!orgUsersMap.size && <p>No matching users.</p>}
           <button onClick={handleSaveUpdatedRoles}>Save changed roles</button>
-          {Array.from(orgUsersMap.keys())
-            .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
-            .map((org) => (
-              <div key={org}>
-                {/* Show org if there are multiple. */}
-                {orgUsersMap.size > 1 && <h3>{org}</h3>}
-                <table>
-                  <thead>
-                    <tr>
-                      <th>Name</th>
-                      <th>Role</th>
-                      <th></th>
-                      <th></th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    {orgUsersMap.get(org)!.map((userIndex) => {
-                      const user = usersRef.current[userIndex];
+          {orgTree.map(({ name: org, depth }) => (
+            <div key={org} style={{ marginLeft: `${depth * 2}em` }}>
+              {/* Show org if there are multiple. */}
+              {orgUsersMap.size > 1 && <h3>{org}</h3>}
+              <table>
+                <thead>
+                  <tr>
+                    <th>Name</th>
+                    <th>Role</th>
+                    <th>Duration</th>
+                    <th>Org</th>
+                    <th></th>
+                    <th></th>
+                    <th></th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {orgUsersMap.get(org)!.map((userIndex) => {
+                    const user = usersRef.current[userIndex];
+                    // Users can only be moved out of orgs where the
+                    // requestor can create users.
+                    const canMove = user.inner.manageMembership;
+                    const suspended = user.inner.status === "suspended";
 
-                      return (
-                        <tr
-                          key={user.inner.username}
-                          // Highlight all changed values in yellow to indicate to user
-                          // their pending changes.
-                          style={{
-                            backgroundColor:
-                              user.inner.role === user.roleCurr ? "" : "yellow",
-                          }}
-                        >
-                          <td>
-                            <Link href={`/user/` + user.inner.username}>
-                              {user.inner.username}
-                            </Link>
-                          </td>
-                          <td>
-                            {/* Allow selecting a role iff requestor has editRole */}
-                            {user.inner.editRole ? (
+                    return (
+                      <tr
+                        key={user.inner.username}
+                        // Highlight all changed values in yellow to indicate to user
+                        // their pending changes, and grey out suspended users.
+                        style={{
+                          backgroundColor: isChanged(user) ? "yellow" : "",
+                          color: suspended ? "gray" : "",
+                        }}
+                      >
+                        <td>
+                          <Link href={`/user/` + user.inner.username}>
+                            {user.inner.username}
+                          </Link>
+                          {suspended && <p>suspended</p>}
+                        </td>
+                        <td>
+                          {/* Allow selecting a role iff requestor has editRole */}
+                          {user.inner.editRole ? (
+                            <select
+                              name="role"
+                              value={user.roleCurr}
+                              onChange={(e) => user.onRoleChange(e)}
+                            >
+                              {(rolesByOrg[user.orgCurr] ?? []).map((role) => (
+                                <option key={role.name} value={role.name}>
+                                  {role.name}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <p>{user.roleCurr}</p>
+                          )}
+                          {user.inner.expires_at && user.inner.revert_role && (
+                            <p>
+                              reverts to {user.inner.revert_role} in{" "}
+                              {formatRemaining(user.inner.expires_at)}
+                            </p>
+                          )}
+                        </td>
+                        <td>
+                          {/* Temporary roles cannot be moved to another org. */}
+                          {user.inner.editRole &&
+                            user.orgCurr === user.inner.org && (
                               <select
-                                name="role"
-                                value={user.roleCurr}
-                                onChange={(e) => user.onRoleChange(e)}
+                                name="duration"
+                                value={user.expiresInHoursCurr ?? ""}
+                                onChange={(e) => user.onDurationChange(e)}
                               >
-                                {roles.map((role) => (
-                                  <option key={role.name} value={role.name}>
-                                    {role.name}
+                                {ROLE_DURATIONS.map(({ label, hours }) => (
+                                  <option key={label} value={hours ?? ""}>
+                                    {label}
                                   </option>
                                 ))}
                               </select>
-                            ) : (
-                              <p>{user.roleCurr}</p>
                             )}
-                          </td>
-                          <td>
-                            <button
-                              onClick={user.onEdit}
-                              disabled={!user.inner.editRole}
+                        </td>
+                        <td>
+                          {/* Allow selecting an org iff requestor can move the user */}
+                          {canMove ? (
+                            <select
+                              name="org"
+                              value={user.orgCurr}
+                              onChange={(e) => user.onOrgChange(e)}
                             >
-                              Edit
-                            </button>
-                          </td>
-                          <td>
-                            <button
-                              onClick={user.onDelete}
-                              disabled={!user.inner.deleteUser}
-                            >
-                              Delete
-                            </button>
-                          </td>
-                        </tr>
-                      );
-                    })}
-                  </tbody>
-                </table>
-              </div>
-            ))}
+                              {orgs.map((org) => (
+                                <option key={org.name} value={org.name}>
+                                  {org.name}
+                                </option>
+                              ))}
+                            </select>
+                          ) : (
+                            <p>{user.orgCurr}</p>
+                          )}
+                        </td>
+                        <td>
+                          <button
+                            onClick={user.onEdit}
+                            disabled={!user.inner.editRole && !canMove}
+                          >
+                            Edit
+                          </button>
+                        </td>
+                        <td>
+                          <button
+                            onClick={user.onDelete}
+                            disabled={!user.inner.deleteUser}
+                          >
+                            Delete
+                          </button>
+                        </td>
+                        <td>
+                          <button
+                            onClick={user.onSuspend}
+                            disabled={!user.inner.suspendUser}
+                          >
+                            {suspended ? "Reactivate" : "Suspend"}
+                          </button>
+                        </td>
+                        <td>
+                          <button
+                            onClick={user.onRemove}
+                            disabled={!user.inner.manageMembership}
+                          >
+                            Remove from org
+                          </button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ))}
+          {nextCursor && (
+            <button onClick={() => getUsers(nextCursor)}>Load more</button>
+          )}
         </div>
       )}
     </div>
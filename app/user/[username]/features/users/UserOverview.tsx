@@ -5,31 +5,43 @@ import React from "react";
 import { DatabaseEvents } from "@/lib/dbEvents";
 import { UserWOrgPermissions } from "@/actions/user";
 
+import AccessRequests from "./AccessRequests";
+import ApiTokens from "./ApiTokens";
+import Invites from "./Invites";
 import OrgCreator from "./OrgCreator";
+import OrgSettings from "./OrgSettings";
+import RoleEditor from "./RoleEditor";
 import UserCreator from "./UserCreator";
+import UserImporter from "./UserImporter";
 import UserManager from "./UserManager";
 
 interface UserOverview {
   user: UserWOrgPermissions;
 }
 
-// Create event signal handlers for tables that can be updated by this
-// component.
-export const OrgDbEvents = new DatabaseEvents();
-export const UserDbEvents = new DatabaseEvents();
+// Create event signal handlers for the data displayed by this component, which
+// fire whenever anyone changes it.
+export const OrgDbEvents = new DatabaseEvents("orgs");
+export const UserDbEvents = new DatabaseEvents("users");
 
 const UserOverview: React.FC<UserOverview> = ({ user }) => {
   return (
     <div>
-      {user.createUser && (
+      {user.memberships.some((membership) => membership.createUser) && (
         <>
           <h2>User management</h2>
           <UserCreator requestor={user.username} />
+          <Invites requestor={user.username} />
+          <UserImporter requestor={user.username} />
           <UserManager requestor={user.username} />
         </>
       )}
 
       <OrgCreator requestor={user.username} />
+      <OrgSettings requestor={user.username} />
+      <RoleEditor requestor={user.username} />
+      <AccessRequests user={user} />
+      <ApiTokens requestor={user.username} />
     </div>
   );
 };
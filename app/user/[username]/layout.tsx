@@ -0,0 +1,48 @@
+import type { ReactNode } from "react";
+
+import { stopImpersonation } from "@/actions/session";
+import { getRequestor } from "@/lib/requestor";
+import { destructiveAllowed, getImpersonator } from "@/lib/session";
+
+/**
+ * Wraps all of a user's pages, displaying a banner while the signed-in user is
+ * impersonating someone else.
+ */
+export default async function UserLayout({
+  children,
+}: {
+  children: ReactNode;
+}) {
+  const impersonator = getImpersonator();
+  // Refused once the impersonation has ended, e.g. because the impersonator
+  // was suspended; they can then only stop impersonating.
+  const impersonated = impersonator
+    ? await getRequestor().catch(() => null)
+    : null;
+
+  return (
+    <>
+      {impersonator && (
+        <div className="impersonation-banner" role="status">
+          <form action={stopImpersonation}>
+            {impersonated ? (
+              <>
+                <strong>{impersonator}</strong> is impersonating{" "}
+                <strong>{impersonated}</strong>
+                {destructiveAllowed()
+                  ? "; destructive actions are allowed."
+                  : "; destructive actions are disabled."}
+              </>
+            ) : (
+              <>
+                <strong>{impersonator}</strong>&apos;s impersonation has ended.
+              </>
+            )}{" "}
+            <button type="submit">Stop impersonating</button>
+          </form>
+        </div>
+      )}
+      {children}
+    </>
+  );
+}
@@ -0,0 +1,24 @@
+import { NextRequest } from "next/server";
+
+import { getPermissionMatrix } from "@/actions/matrix";
+import { matrixToCsv } from "@/lib/matrix";
+
+export const dynamic = "force-dynamic";
+
+/**
+ * Downloads the permission matrix, using the same filters as the matrix page,
+ * as CSV.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const matrix = await getPermissionMatrix({
+    org: searchParams.get("org") || undefined,
+    role: searchParams.get("role") || undefined,
+  });
+  return new Response(matrixToCsv(matrix), {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": 'attachment; filename="permission-matrix.csv"',
+    },
+  });
+}
@@ -0,0 +1,122 @@
+export const dynamic = "force-dynamic";
+
+import React from "react";
+import Link from "next/link";
+
+import { getPermissionMatrix } from "@/actions/matrix";
+import {
+  describeMemberships,
+  grantKey,
+  MatrixFilter,
+  MatrixResource,
+  PermissionMatrix,
+} from "@/lib/matrix";
+import { stringifyError } from "@/lib/result";
+
+interface MatrixProps {
+  params: { username: string };
+  searchParams: { [key: string]: string | undefined };
+}
+
+function resourceLabel(resource: MatrixResource): string {
+  return resource.id === null ? "global" : `${resource.type} ${resource.id}`;
+}
+
+/**
+ * Render which actions each user the requestor can read has on each resource
+ * the requestor can read.
+ */
+export default async function PermissionMatrixPage({
+  params,
+  searchParams,
+}: MatrixProps) {
+  let errorMessage: string | null = null;
+  let matrix: PermissionMatrix | null = null;
+
+  const { username } = params;
+
+  const filter: MatrixFilter = {
+    org: searchParams.org || undefined,
+    role: searchParams.role || undefined,
+  };
+
+  try {
+    matrix = await getPermissionMatrix(filter);
+  } catch (e) {
+    errorMessage = stringifyError(e);
+  }
+
+  const exportParams = new URLSearchParams(
+    Object.entries(filter).filter((entry): entry is [string, string] =>
+      Boolean(entry[1])
+    )
+  );
+
+  return (
+    <div>
+      <Link href={`/user/${username}`}>Back to {username} Home</Link>
+      <h2>Permission matrix</h2>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      <form method="GET">
+        <label htmlFor="org">Org:</label>
+        <select id="org" name="org" defaultValue={filter.org ?? ""}>
+          <option value="">Any</option>
+          {matrix?.orgs.map((org) => (
+            <option key={org} value={org}>
+              {org}
+            </option>
+          ))}
+        </select>
+        <label htmlFor="role">Role:</label>
+        <select id="role" name="role" defaultValue={filter.role ?? ""}>
+          <option value="">Any</option>
+          {matrix?.roles.map((role) => (
+            <option key={role} value={role}>
+              {role}
+            </option>
+          ))}
+        </select>
+        <button type="submit">Filter</button>
+      </form>
+      {matrix && (
+        <div className="permissions">
+          <a href={`/user/${username}/matrix/export?${exportParams}`}>
+            Export CSV
+          </a>
+          <table>
+            <thead>
+              <tr>
+                <th>User</th>
+                {matrix.resources.map((resource) => (
+                  <th key={resourceLabel(resource)}>
+                    {resourceLabel(resource)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.users.map((user) => (
+                <tr key={user.username}>
+                  <td>
+                    {user.username} ({describeMemberships(user)})
+                  </td>
+                  {matrix!.resources.map((resource) => (
+                    <td key={resourceLabel(resource)}>
+                      {matrix!.grants
+                        .get(grantKey(user.username, resource))
+                        ?.join(", ")}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import React from "react";
+import Link from "next/link";
 
+import { startImpersonation } from "@/actions/session";
 import { getUserWOrgPermissions, UserWOrgPermissions } from "@/actions/user";
 import { stringifyError } from "@/lib/result";
+import { getRequestor } from "@/lib/requestor";
 
 import UserOverview from "./features/users/UserOverview";
 
@@ -9,6 +12,26 @@ interface UserProps {
   params: { username: string };
 }
 
+/**
+ * Links to the explanation of why `username` has or lacks `action` on `org`.
+ */
+function ExplainLink({
+  username,
+  org,
+  action,
+}: {
+  username: string;
+  org: string;
+  action: string;
+}) {
+  const params = new URLSearchParams({
+    action,
+    type: "Organization",
+    id: org,
+  });
+  return <Link href={`/user/${username}/explain?${params}`}>Why?</Link>;
+}
+
 /**
  * Render the user's view of the application.
  */
@@ -18,8 +41,35 @@ export default async function UserPage({ params }: UserProps) {
 
   const { username } = params;
 
+  // Viewing the app as another user requires explicitly impersonating them.
+  const requestor = await getRequestor();
+  if (username !== requestor) {
+    return (
+      <div>
+        <p>
+          You are acting as <Link href={`/user/${requestor}`}>{requestor}</Link>
+          .
+        </p>
+        <form action={startImpersonation.bind(null, username)}>
+          <div>
+            <input
+              id="allowDestructive"
+              type="checkbox"
+              name="allowDestructive"
+            />
+            <label htmlFor="allowDestructive">
+              Allow destructive actions, e.g. deleting users, while
+              impersonating
+            </label>
+          </div>
+          <button type="submit">Impersonate {username}</button>
+        </form>
+      </div>
+    );
+  }
+
   try {
-    user = await getUserWOrgPermissions(username);
+    user = await getUserWOrgPermissions();
   } catch (e) {
     errorMessage = stringifyError(e);
   }
@@ -47,49 +97,100 @@ export default async function UserPage({ params }: UserProps) {
                   <th>Org</th>
                   <th>Role</th>
                 </tr>
-                <tr>
-                  <td>{user.org}</td>
-                  <td>{user.role}</td>
-                </tr>
-              </tbody>
-            </table>
-            <div className="permissions">
-              <table>
-                <thead>
-                  <tr>
-                    <th>
-                      <strong>Permission</strong>
-                    </th>
-                    <th>
-                      <strong>Value</strong>
-                    </th>
-                    <th>
-                      <strong>Lets this user...</strong>
-                    </th>
-                  </tr>
-                </thead>
-                <tbody>
-                  <tr>
-                    <td>Read</td>
-                    <td>{user.readOrg.toString()}</td>
+                {user.memberships.map((membership) => (
+                  <tr key={membership.org}>
                     <td>
-                      Read users from their parent org, <code>{user.org}</code>.
+                      <Link href={`/org/${membership.org}`}>
+                        {membership.org}
+                      </Link>
                     </td>
+                    <td>{membership.role}</td>
                   </tr>
-                  <tr>
-                    <td>Create user</td>
-                    <td>{user.createUser.toString()}</td>
-                    <td>Create new users.</td>
-                  </tr>
-                  {/* Include row for app permissions here
-                  <tr>
-                    <td>Create doc</td>
-                    <td>{user.createDoc.toString()}</td>
-                    <td>Create new docs.</td>
-                  </tr>
-                  */}
-                </tbody>
-              </table>
+                ))}
+              </tbody>
+            </table>
+            <div className="permissions">
+              {user.memberships.map((membership) => (
+                <div key={membership.org}>
+                  {/* Show org if there are multiple. */}
+                  {user!.memberships.length > 1 && <h3>{membership.org}</h3>}
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>
+                          <strong>Permission</strong>
+                        </th>
+                        <th>
+                          <strong>Value</strong>
+                        </th>
+                        <th>
+                          <strong>Lets this user...</strong>
+                        </th>
+                        <th></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      <tr>
+                        <td>Read</td>
+                        <td>{membership.readOrg.toString()}</td>
+                        <td>
+                          Read users from their parent org,{" "}
+                          <code>{membership.org}</code>.
+                        </td>
+                        <td>
+                          <ExplainLink
+                            username={user!.username}
+                            org={membership.org}
+                            action="read"
+                          />
+                        </td>
+                      </tr>
+                      <tr>
+                        <td>Create user</td>
+                        <td>{membership.createUser.toString()}</td>
+                        <td>Create new users.</td>
+                        <td>
+                          <ExplainLink
+                            username={user!.username}
+                            org={membership.org}
+                            action="create_user"
+                          />
+                        </td>
+                      </tr>
+                      <tr>
+                        <td>Read audit</td>
+                        <td>{membership.readAudit.toString()}</td>
+                        <td>
+                          {membership.readAudit ? (
+                            <Link href={`/user/${user!.username}/audit`}>
+                              Read the audit log.
+                            </Link>
+                          ) : (
+                            "Read the audit log."
+                          )}
+                        </td>
+                        <td>
+                          <ExplainLink
+                            username={user!.username}
+                            org={membership.org}
+                            action="read_audit"
+                          />
+                        </td>
+                      </tr>
+                      {/* Include row for app permissions here
+                      <tr>
+                        <td>Create doc</td>
+                        <td>{membership.createDoc.toString()}</td>
+                        <td>Create new docs.</td>
+                      </tr>
+                      */}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+              <Link href={`/user/${user.username}/matrix`}>
+                View the permission matrix.
+              </Link>
             </div>
             <div>
               <UserOverview user={user} />
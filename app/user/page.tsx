@@ -3,16 +3,69 @@ export const dynamic = "force-dynamic";
 import Link from "next/link";
 
 import { usersPool, query } from "@/lib/db";
-import { User } from "@/lib/relations";
+import {
+  MEMBERSHIP_PAGE_SIZE,
+  membershipFilterClauses,
+  MembershipFilter,
+  MembershipPage,
+  MembershipSort,
+  toMembershipPage,
+} from "@/lib/memberships";
+import { flattenOrgTree } from "@/lib/orgTree";
+import { Membership, Org } from "@/lib/relations";
+import { stringifyError } from "@/lib/result";
 
-export default async function Home() {
-  const users = await query<User>(
+interface HomeProps {
+  searchParams: { [key: string]: string | undefined };
+}
+
+export default async function Home({ searchParams }: HomeProps) {
+  let errorMessage: string | null = null;
+  let page: MembershipPage<Membership> = { memberships: [], nextCursor: null };
+
+  const filter: MembershipFilter = {
+    search: searchParams.search || undefined,
+    org: searchParams.org || undefined,
+    role: searchParams.role || undefined,
+    sort: (searchParams.sort || undefined) as MembershipSort | undefined,
+    descending: searchParams.descending === "on",
+    cursor: searchParams.cursor || undefined,
+  };
+
+  const orgs = await query<Org>(
     usersPool,
-    "SELECT username, org, role::TEXT FROM users ORDER BY username"
+    "SELECT name, parent FROM organizations"
   );
+  try {
+    const params: unknown[] = [];
+    const { conditions, orderBy } = membershipFilterClauses(filter, params);
+    const rows = await query<Membership>(
+      usersPool,
+      `SELECT username, org, role
+      FROM memberships
+      ${conditions.length ? `WHERE ${conditions.join(" AND ")}` : ""}
+      ORDER BY ${orderBy}
+      LIMIT ${MEMBERSHIP_PAGE_SIZE + 1}`,
+      params
+    );
+    page = toMembershipPage(rows, filter);
+  } catch (e) {
+    errorMessage = stringifyError(e);
+  }
+  const users = page.memberships;
 
-  const orgUsersMap: Map<string, User[]> = new Map();
-  // Group users by org
+  // Preserve the filters when paging.
+  const nextPageParams = new URLSearchParams(
+    Object.entries(searchParams).filter((entry): entry is [string, string] =>
+      Boolean(entry[1])
+    )
+  );
+  if (page.nextCursor) {
+    nextPageParams.set("cursor", page.nextCursor);
+  }
+
+  const orgUsersMap: Map<string, Membership[]> = new Map();
+  // Group users by org; users in many orgs appear under each of them.
   users.forEach((user) => {
     if (!orgUsersMap.has(user.org)) {
       orgUsersMap.set(user.org, []);
@@ -20,16 +73,57 @@ export default async function Home() {
     orgUsersMap.get(user.org)!.push(user);
   });
 
-  // Sort the org keys alphabetically
-  const sortedOrgs = Array.from(orgUsersMap.keys()).sort((a, b) =>
-    a.toLowerCase().localeCompare(b.toLowerCase())
+  // Display sub-organizations beneath their parents, omitting organizations
+  // without users on this page.
+  const orgTree = flattenOrgTree(orgs).filter(({ name }) =>
+    orgUsersMap.has(name)
   );
 
   return (
     <div>
       <h1>Users</h1>
-      {sortedOrgs.map((org) => (
-        <div key={org}>
+      {errorMessage && (
+        <div className="error" role="alert">
+          {errorMessage}
+        </div>
+      )}
+      <form method="GET">
+        <label htmlFor="search">Username:</label>
+        <input
+          id="search"
+          name="search"
+          type="search"
+          defaultValue={filter.search}
+        />
+        <label htmlFor="org">Org:</label>
+        <select id="org" name="org" defaultValue={filter.org ?? ""}>
+          <option value="">Any</option>
+          {orgs.map((org) => (
+            <option key={org.name} value={org.name}>
+              {org.name}
+            </option>
+          ))}
+        </select>
+        <label htmlFor="role">Role:</label>
+        <input id="role" name="role" type="text" defaultValue={filter.role} />
+        <label htmlFor="sort">Sort by:</label>
+        <select id="sort" name="sort" defaultValue={filter.sort ?? "username"}>
+          <option value="username">Username</option>
+          <option value="org">Org</option>
+          <option value="role">Role</option>
+        </select>
+        <input
+          id="descending"
+          name="descending"
+          type="checkbox"
+          defaultChecked={filter.descending}
+        />
+        <label htmlFor="descending">Descending</label>
+        <button type="submit">Filter</button>
+      </form>
+      {!users.length && !errorMessage && <p>No matching users.</p>}
+      {orgTree.map(({ name: org, depth }) => (
+        <div key={org} style={{ marginLeft: `${depth * 2}em` }}>
           <h4>{org}</h4>
           <table>
             <thead>
@@ -39,7 +133,7 @@ export default async function Home() {
               </tr>
             </thead>
             <tbody>
-              {orgUsersMap.get(org)!.map((user) => (
+              {(orgUsersMap.get(org) ?? []).map((user) => (
                 <tr key={user.username}>
                   <td>
                     <Link href={`/user/` + user.username}>{user.username}</Link>
@@ -51,6 +145,9 @@ export default async function Home() {
           </table>
         </div>
       ))}
+      {page.nextCursor && (
+        <Link href={`?${nextPageParams.toString()}`}>Next page</Link>
+      )}
     </div>
   );
 }
@@ -9,30 +9,12 @@ GRANT ALL PRIVILEGES ON DATABASE users TO ${DB_USER};
 
 \connect users;
 
--- the remainder of these commands create the data model + data for the
--- application
-
-CREATE TABLE organizations (name TEXT PRIMARY KEY);
-
--- Note that this is synchronized with oso-policy.polar
-CREATE TYPE organization_role AS ENUM ('member', 'admin');
-
--- Do not allow duplicate usernames. Each user belongs to a single organization.
-CREATE TABLE users (
-	username
-		TEXT PRIMARY KEY,
-	org
-		TEXT REFERENCES organizations (name),
-	"role"
-		organization_role
-);
-
--- Our special `global` organization
-INSERT INTO organizations (name) VALUES ('_root');
--- A default, bootstrap user
-INSERT INTO users (username, org, "role") VALUES ('root', '_root', 'admin');
+-- The data model is created and changed by the numbered migrations in
+-- `migrations/`, which `yarn migrate up` applies; see scripts/migrate.mjs.
+-- The app refuses to start while any are pending.
 
 -- For more details about how this interacts with other components of the system,
 -- see:
+-- - migrations/ for the application's SQL schema
 -- - oso_policy.polar for this application's Polar policy, for use in Oso Cloud
 -- - oso_local_auth_user_mgmt.yml for how we correlate the policy to the SQL schema
@@ -0,0 +1,21 @@
+/**
+ * Starts background work when the Next.js server starts.
+ */
+export async function register() {
+  // Only run in the Node.js runtime, which can reach the database.
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { assertMigrated, usersPool } = await import("@/lib/db");
+    const { osoUserMgmt } = await import("@/lib/oso");
+    const { startOutboxDispatcher } = await import("@/lib/outbox");
+    const { startRoleExpirySweeper } = await import("@/lib/expiry");
+    // Refuse to serve against an outdated schema.
+    try {
+      await assertMigrated(usersPool);
+    } catch (error) {
+      console.error("Error starting server:", error);
+      process.exit(1);
+    }
+    startOutboxDispatcher(usersPool, osoUserMgmt);
+    startRoleExpirySweeper(usersPool);
+  }
+}
@@ -0,0 +1,171 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { getApiTokenId } from "./apiTokens";
+import { usersPool as pool } from "./db";
+import { Result, stringifyError } from "./result";
+
+/**
+ * Thrown by route handlers to respond with a specific status.
+ */
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Derives a response status from an error produced by the actions, which
+ * report all errors as messages.
+ */
+export function errorStatus(error: unknown): number {
+  if (error instanceof ApiError) {
+    return error.status;
+  }
+  // Errors from Postgres or the network carry a code, e.g. `23505` or
+  // `ECONNREFUSED`; only integrity constraint violations are the client's
+  // fault.
+  const code = (error as { code?: unknown })?.code;
+  if (typeof code === "string") {
+    return code.startsWith("23") ? 409 : 500;
+  }
+  const message = stringifyError(error);
+  if (message.startsWith("not signed in")) {
+    return 401;
+  }
+  if (
+    /^(not permitted|cannot (rename|delete) Organization _root)/.test(message)
+  ) {
+    return 403;
+  }
+  if (/^cannot find|does not exist/.test(message)) {
+    return 404;
+  }
+  if (/duplicate key/.test(message)) {
+    return 409;
+  }
+  return 400;
+}
+
+/**
+ * Responds with `result`, using the same `Result` shape as the server actions
+ * for both successes and failures.
+ */
+export function resultResponse<T>(
+  result: Result<T>,
+  successStatus = 200
+): NextResponse<Result<T>> {
+  return NextResponse.json(result, {
+    status: result.success ? successStatus : errorStatus(result.error),
+  });
+}
+
+/**
+ * Ensures the bearer token authenticating the current request has not been
+ * revoked, and records that it was used.
+ *
+ * @throws {ApiError} If the token has been revoked or deleted.
+ */
+export async function checkApiToken(): Promise<void> {
+  const res = await pool.query(
+    `UPDATE api_tokens SET last_used_at = now()
+    WHERE id = $1 AND revoked_at IS NULL`,
+    [getApiTokenId()]
+  );
+  if (res.rowCount !== 1) {
+    throw new ApiError(401, "bearer token has been revoked");
+  }
+}
+
+/**
+ * Wraps a REST API route handler, which ensures the request's bearer token is
+ * valid and converts its return value or error into a `Result` response.
+ *
+ * `f` may return a `Result`, e.g. from a server action used by a form, or a
+ * plain value, which is treated as a success.
+ */
+export function apiHandler<C, T>(
+  f: (request: NextRequest, context: C) => Promise<Result<T> | T>,
+  successStatus = 200
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return async (request, context) => {
+    try {
+      await checkApiToken();
+      const value = await f(request, context);
+      return resultResponse(
+        isResult<T>(value) ? value : { success: true, value },
+        successStatus
+      );
+    } catch (error) {
+      console.error(
+        `Error in ${request.method} ${request.nextUrl.pathname}:`,
+        error
+      );
+      return NextResponse.json(
+        { success: false, error: stringifyError(error) },
+        { status: errorStatus(error) }
+      );
+    }
+  };
+}
+
+function isResult<T>(value: unknown): value is Result<T> {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    "success" in value &&
+    ("value" in value || "error" in value)
+  );
+}
+
+/**
+ * Returns the request's JSON body.
+ *
+ * @throws {ApiError} If the body is not a JSON object.
+ */
+export async function readJsonBody(
+  request: NextRequest
+): Promise<Record<string, unknown>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new ApiError(400, "request body must be JSON");
+  }
+  if (typeof body !== "object" || body === null || Array.isArray(body)) {
+    throw new ApiError(400, "request body must be a JSON object");
+  }
+  return body as Record<string, unknown>;
+}
+
+/**
+ * Converts `body` into `FormData`, for calling server actions used as form
+ * actions.
+ */
+export function toFormData(body: Record<string, unknown>): FormData {
+  const formData = new FormData();
+  for (const [key, value] of Object.entries(body)) {
+    if (value !== undefined && value !== null) {
+      formData.set(key, String(value));
+    }
+  }
+  return formData;
+}
+
+/**
+ * Returns `body[key]`, which must be a non-empty string.
+ *
+ * @throws {ApiError} If `body[key]` is missing or not a string.
+ */
+export function requireString(
+  body: Record<string, unknown>,
+  key: string
+): string {
+  const value = body[key];
+  if (typeof value !== "string" || !value) {
+    throw new ApiError(400, `"${key}" must be a non-empty string`);
+  }
+  return value;
+}
@@ -0,0 +1,54 @@
+import { headers } from "next/headers";
+
+import { signPayload, verifyPayload } from "./session";
+
+// This module is used by `middleware.ts`, so must only rely on APIs available
+// in the Edge runtime.
+
+// Set by `middleware.ts` from the verified bearer token; any value the client
+// sends is discarded.
+export const API_TOKEN_HEADER = "x-api-token-id";
+
+/**
+ * The contents of a signed API bearer token.
+ *
+ * Tokens do not expire, since they are meant for long-running integrations,
+ * e.g. SCIM provisioning. Instead, they can be revoked on their user's page,
+ * which `checkApiToken` enforces on every request, and they stop working when
+ * their user is deleted.
+ */
+export interface ApiToken {
+  username: string;
+  // Identifies the `api_tokens` row, which records whether the token is
+  // revoked.
+  id: string;
+}
+
+/**
+ * Signs `token` for use as a bearer token.
+ */
+export async function signApiToken(token: ApiToken): Promise<string> {
+  return signPayload("api_token", token);
+}
+
+/**
+ * Returns the token in an `Authorization: Bearer` header value, or `null` if
+ * the value is missing or the token is not signed by us.
+ *
+ * Revocation can only be checked against the database, which is not available
+ * in the Edge runtime; see `checkApiToken`.
+ */
+export async function verifyApiToken(
+  authorization: string | null
+): Promise<ApiToken | null> {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return verifyPayload<ApiToken>("api_token", match?.[1]);
+}
+
+/**
+ * Returns the ID of the bearer token authenticating the current request, or
+ * `null` if the request is not authenticated by a bearer token.
+ */
+export function getApiTokenId(): string | null {
+  return headers().get(API_TOKEN_HEADER);
+}
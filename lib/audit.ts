@@ -0,0 +1,71 @@
+import { Pool, PoolClient } from "pg";
+
+import { AuditEvent } from "./relations";
+import { getImpersonator } from "./session";
+
+/**
+ * Describes an event to record in the audit log.
+ *
+ * If `org` is omitted for a `User` target, it is filled in with the first of
+ * the user's organizations by name; users may belong to many, so events that
+ * concern a specific membership should set it. `impersonated_by` is always
+ * filled in from the current session.
+ */
+export type NewAuditEvent = Pick<
+  AuditEvent,
+  | "requestor"
+  | "action"
+  | "permission"
+  | "allowed"
+  | "target_type"
+  | "target_id"
+> &
+  Partial<Pick<AuditEvent, "org" | "before" | "after">>;
+
+/**
+ * Records `events` in the audit log.
+ *
+ * Events describing successful changes should be recorded using the client
+ * performing the change, inside of its transaction, so that the event is
+ * recorded if and only if the change commits. Events describing denied
+ * attempts should be recorded using the pool, so that they are recorded even
+ * though the attempt's transaction rolls back.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function recordAuditEvents(
+  db: Pool | PoolClient,
+  events: NewAuditEvent[]
+): Promise<void> {
+  if (events.length === 0) {
+    return;
+  }
+  await db.query(
+    `INSERT INTO audit_events
+      (requestor, action, permission, allowed, target_type, target_id, org, before, after, impersonated_by)
+    SELECT
+      e.requestor, e.action, e.permission, e.allowed, e.target_type, e.target_id,
+      COALESCE(
+        e.org,
+        -- Users may belong to many organizations; events that should be
+        -- visible to each of them must set \`org\` explicitly.
+        (SELECT memberships.org FROM memberships
+          WHERE e.target_type = 'User' AND memberships.username = e.target_id
+          ORDER BY memberships.org
+          LIMIT 1)
+      ),
+      e.before, e.after, $2::TEXT
+    FROM jsonb_to_recordset($1) AS e(
+      requestor TEXT,
+      action TEXT,
+      permission TEXT,
+      allowed BOOLEAN,
+      target_type TEXT,
+      target_id TEXT,
+      org TEXT,
+      before JSONB,
+      after JSONB
+    )`,
+    [JSON.stringify(events), getImpersonator()]
+  );
+}
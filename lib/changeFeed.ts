@@ -0,0 +1,123 @@
+import { Notification, Pool, PoolClient } from "pg";
+
+import { usersPool } from "./db";
+
+/**
+ * The kinds of data whose changes are announced on the feed, as sent by the
+ * `notify_change` trigger in `migrations/0001_initial.up.sql`.
+ */
+export type ChangeKind = "users" | "orgs";
+
+const CHANGE_KINDS: ChangeKind[] = ["users", "orgs"];
+
+type ChangeListener = (kind: ChangeKind) => void;
+
+// How long to wait before reconnecting after losing the connection.
+const RECONNECT_DELAY_MS = 5000;
+
+/**
+ * Relays Postgres notifications on the `changes` channel to listeners in this
+ * process, over a single connection that is only held while there are
+ * listeners.
+ */
+class ChangeFeed {
+  private listeners = new Set<ChangeListener>();
+  private client: PoolClient | null = null;
+  private connecting: Promise<void> | null = null;
+
+  constructor(private readonly pool: Pool) {}
+
+  /**
+   * Calls `listener` with the kind of each change committed from now on,
+   * returning a function to stop doing so.
+   */
+  subscribe(listener: ChangeListener): () => void {
+    this.listeners.add(listener);
+    this.connect();
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.disconnect();
+      }
+    };
+  }
+
+  private connect(): void {
+    if (this.client || this.connecting) {
+      return;
+    }
+    this.connecting = (async () => {
+      let client: PoolClient | null = null;
+      try {
+        client = await this.pool.connect();
+        client.on("notification", this.onNotification);
+        client.on("error", this.onError);
+        await client.query("LISTEN changes");
+        this.client = client;
+        // Everyone unsubscribed while connecting.
+        if (this.listeners.size === 0) {
+          this.disconnect();
+        }
+      } catch (error) {
+        console.error("Error connecting change feed:", error);
+        if (client) {
+          this.release(client, error as Error);
+        }
+        this.reconnectLater();
+      } finally {
+        this.connecting = null;
+      }
+    })();
+  }
+
+  private onNotification = ({ payload }: Notification) => {
+    const kind = CHANGE_KINDS.find((k) => k === payload);
+    if (kind) {
+      this.listeners.forEach((listener) => listener(kind));
+    }
+  };
+
+  private onError = (error: Error) => {
+    console.error("Error in change feed:", error);
+    if (this.client) {
+      this.release(this.client, error);
+      this.client = null;
+      this.reconnectLater();
+    }
+  };
+
+  private reconnectLater(): void {
+    setTimeout(() => {
+      if (this.listeners.size > 0) {
+        this.connect();
+      }
+    }, RECONNECT_DELAY_MS);
+  }
+
+  private disconnect(): void {
+    const client = this.client;
+    if (!client) {
+      return;
+    }
+    this.client = null;
+    client.query("UNLISTEN changes").then(
+      () => this.release(client),
+      (error) => this.release(client, error)
+    );
+  }
+
+  // Returns `client` to the pool, which destroys it if there was an `error`.
+  private release(client: PoolClient, error?: Error): void {
+    client.off("notification", this.onNotification);
+    client.off("error", this.onError);
+    client.release(error);
+  }
+}
+
+/**
+ * The feed of changes to the user management database.
+ *
+ * Listeners receive every change, regardless of whose data changed, so must
+ * only use it as a signal to re-fetch data through authorized queries.
+ */
+export const changeFeed = new ChangeFeed(usersPool);
@@ -0,0 +1,225 @@
+/**
+ * The facts the user management service provides to Oso, and the SQL that
+ * selects them, from which `yarn check-authz --write` generates both
+ * `oso_local_auth_user_mgmt.yml`, for local authorization, and
+ * `env_template_oso_sync.yml`, for syncing them to Oso's centralized
+ * authorization data.
+ */
+
+/**
+ * A fact and the query that selects it, which has a column for each of the
+ * fact's typed arguments.
+ */
+export interface FactBinding {
+  // e.g. `has_assigned_role(User:_, String:_, Organization:_)`.
+  signature: string;
+  // Describes the fact, as the lines of a YAML comment.
+  comment: string[];
+  // The lines of the query.
+  query: string[];
+}
+
+export const FACT_BINDINGS: FactBinding[] = [
+  {
+    signature: "has_assigned_role(User:_, String:_, Organization:_)",
+    comment: [
+      "Correlates `actor User` to their assigned `resource Organization` roles, which",
+      "they only have while active; see `has_role` in oso_policy.polar.",
+      "Temporary roles that have expired are ignored; see `effective_memberships`.",
+    ],
+    query: [
+      "SELECT effective_memberships.username, effective_memberships.role,",
+      "  effective_memberships.org",
+      "FROM effective_memberships",
+    ],
+  },
+  {
+    signature: "has_assigned_role(User:_, String:_)",
+    comment: [
+      "Correlates `actor User` to `global` roles by treating any role assigned to a",
+      "user in the `_root` org as a `global` role. This might work differently than you",
+      "might expect by elevating the role of all `_root` users, rather than having a",
+      "distinct set of `global` users.",
+    ],
+    query: [
+      "SELECT",
+      "  DISTINCT effective_memberships.username, effective_memberships.role",
+      "FROM",
+      "  effective_memberships",
+      "WHERE effective_memberships.org = '_root'",
+    ],
+  },
+  {
+    signature: "has_status(User:_, String:_)",
+    comment: [
+      "Provides each user's status, i.e. `active` or `suspended`; only active users",
+      "have the roles assigned to them.",
+    ],
+    query: ["SELECT username, status FROM users"],
+  },
+  {
+    signature: "has_relation(User:_, parent, Organization:_)",
+    comment: [
+      "Provides the `parent` relationship between `actor User` and `resource",
+      "Organization`; users have one for each organization they belong to.",
+    ],
+    query: ["SELECT username, org FROM memberships"],
+  },
+  {
+    signature: "has_relation(Organization:_, parent, Organization:_)",
+    comment: [
+      "Provides the `parent` relationship between sub-organizations and the",
+      "organizations they belong to.",
+    ],
+    query: ["SELECT name, parent FROM organizations WHERE parent IS NOT NULL"],
+  },
+  {
+    signature: "grants_permission(Organization:_, String:_, String:_)",
+    comment: [
+      "Provides the permissions that organizations' custom roles grant.",
+    ],
+    query: ["SELECT org, role, permission FROM role_permissions"],
+  },
+];
+
+// The SQL type of each resource type's IDs.
+const SQL_TYPES: Record<string, string> = {
+  User: "TEXT",
+  Organization: "TEXT",
+};
+
+// The name of the database in `env_template_oso_sync.yml`.
+const SYNC_DB = "user_db";
+
+// Renders the `facts` section, adding `extra` lines to each fact.
+function renderFacts(extra: string[]): string[] {
+  return [
+    "facts:",
+    ...FACT_BINDINGS.flatMap((binding, i) => {
+      const inline = `    query: ${binding.query[0]}`;
+      return [
+        ...(i > 0 ? [""] : []),
+        ...binding.comment.map((line) => `  # ${line}`),
+        `  ${binding.signature}:`,
+        ...extra.map((line) => `    ${line}`),
+        ...(binding.query.length === 1 && inline.length <= 80
+          ? [inline]
+          : ["    query: >", ...binding.query.map((line) => `      ${line}`)]),
+      ];
+    }),
+  ];
+}
+
+/**
+ * Renders `oso_local_auth_user_mgmt.yml`.
+ */
+export function renderLocalAuthConfig(): string {
+  return [
+    "# Local auth configuration for the user management service.",
+    "#",
+    "# Each service should has its own local auth configuration file, which should be",
+    "# provided to the user-specific Oso client.",
+    "#",
+    "# Generated from lib/dataBindings.ts by `yarn check-authz --write`.",
+    ...renderFacts([]),
+    "",
+    "sql_types:",
+    ...Object.entries(SQL_TYPES).map(([type, sql]) => `  ${type}: ${sql}`),
+    "",
+    "# For more details about how this interacts with other components of the system,",
+    "# see:",
+    "# - migrations/ for the application's SQL schema",
+    "# - oso_local_auth_*.yml for services' local authorization config",
+    "# - oso_policy.polar for this application's Polar policy, for use in Oso Cloud",
+    "",
+  ].join("\n");
+}
+
+/**
+ * Renders `env_template_oso_sync.yml`.
+ */
+export function renderSyncConfig(): string {
+  return [
+    "# This file details how to use the reconcile tool to sync data from your local",
+    "# database to Oso's centralized authorization data storage.",
+    "#",
+    "# Note that this file is included for documentation purposes but is not meant to",
+    "# be used with Oso developer accounts. Its use is commented out in",
+    "# docker-compose.yml.",
+    "#",
+    "# Generated from lib/dataBindings.ts by `yarn check-authz --write`.",
+    "",
+    ...renderFacts([`db: ${SYNC_DB}`]),
+    "",
+    "dbs:",
+    `  ${SYNC_DB}:`,
+    "    # substitutions occur in env_template_init.sh;",
+    "    connection_string: postgresql://${DB_USER}:${DB_PASS}@${DB_HOST}:${DB_PORT}/users?sslmode=${DB_SSL}",
+    "",
+  ].join("\n");
+}
+
+/**
+ * An argument in a fact's signature, e.g. `User:_` or `parent`.
+ */
+export type FactArg = { type: string } | { literal: string };
+
+/**
+ * A fact parsed from a config, whose `sql` selects a column for each of its
+ * typed arguments.
+ */
+export interface FactQuery {
+  predicate: string;
+  args: FactArg[];
+  sql: string;
+  // The signature as written, and the line it is on.
+  signature: string;
+  line: number;
+}
+
+/**
+ * Parses the `facts` of a config, which must use the layout `renderFacts`
+ * generates: each fact's signature is a key whose `query` is either inline or
+ * a folded (`>`) block.
+ */
+export function parseFactQueries(source: string): FactQuery[] {
+  const facts: FactQuery[] = [];
+  const lines = source.split("\n");
+  let signature: { text: string; line: number } | null = null;
+  for (let i = 0; i < lines.length; i++) {
+    const key = lines[i].match(/^ +(\w+\(.*\)):\s*$/);
+    if (key) {
+      signature = { text: key[1], line: i + 1 };
+      continue;
+    }
+    const query = lines[i].match(/^( +)query:\s*(.*)$/);
+    if (!query || !signature) {
+      continue;
+    }
+    let sql = query[2];
+    if (sql === ">") {
+      const block: string[] = [];
+      while (
+        i + 1 < lines.length &&
+        (!lines[i + 1].trim() || lines[i + 1].search(/\S/) > query[1].length)
+      ) {
+        block.push(lines[++i].trim());
+      }
+      sql = block.join(" ").trim();
+    }
+
+    const [, predicate, args] = signature.text.match(/^(\w+)\((.*)\)$/)!;
+    facts.push({
+      predicate,
+      args: args.split(",").map((arg) => {
+        const typed = arg.trim().match(/^(\w+):_$/);
+        return typed ? { type: typed[1] } : { literal: arg.trim() };
+      }),
+      sql,
+      signature: signature.text,
+      line: signature.line,
+    });
+    signature = null;
+  }
+  return facts;
+}
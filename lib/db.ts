@@ -1,3 +1,5 @@
+import { readdirSync } from "fs";
+import path from "path";
 import { Pool, QueryResult } from "pg";
 
 import { getEnvVar } from "./util";
@@ -33,6 +35,45 @@ export function newPool(database: string): Pool {
  */
 export const usersPool = newPool("users");
 
+/**
+ * Ensures that every migration in `migrations/` has been applied to the
+ * database `pool` connects to, so that the app does not serve requests against
+ * a schema it does not expect. Apply them with `yarn migrate up`.
+ *
+ * @throws {Error} If there is a problem with the database connection or any
+ * migration is pending.
+ */
+export async function assertMigrated(pool: Pool): Promise<void> {
+  const versions = readdirSync(path.join(process.cwd(), "migrations")).flatMap(
+    (file) => {
+      const match = file.match(/^(\d+)_\w+\.up\.sql$/);
+      return match ? [{ version: Number(match[1]), file }] : [];
+    }
+  );
+
+  let applied: number[] = [];
+  try {
+    const res = await pool.query<{ version: number }>(
+      `SELECT version FROM schema_migrations`
+    );
+    applied = res.rows.map((row) => row.version);
+  } catch (error) {
+    // `schema_migrations` does not exist until the first migration.
+    if ((error as { code?: string }).code !== "42P01") {
+      throw error;
+    }
+  }
+
+  const pending = versions.filter(({ version }) => !applied.includes(version));
+  if (pending.length) {
+    throw new Error(
+      `pending migrations ${pending
+        .map(({ file }) => file)
+        .join(", ")}; run \`yarn migrate up\``
+    );
+  }
+}
+
 // Function to execute a query with parameters
 export async function query<T>(
   pool: Pool,
@@ -1,27 +1,58 @@
+import type { ChangeKind } from "./changeFeed";
+
+// The stream of changes from `app/events/route.ts`, which is shared by every
+// subscription in this tab and closed when none remain.
+let source: EventSource | null = null;
+let subscriptions = 0;
+
+function openSource(): EventSource {
+  if (!source) {
+    source = new EventSource("/events");
+  }
+  subscriptions++;
+  return source;
+}
+
+function closeSource(): void {
+  subscriptions--;
+  if (subscriptions === 0 && source) {
+    source.close();
+    source = null;
+  }
+}
+
 /**
  * Mechanism to allow components to subscribe to database events.
+ *
+ * Events are streamed from Postgres' `LISTEN/NOTIFY` through the server, so
+ * include changes made in other tabs and by other users. They only identify
+ * the kind of data that changed, so listeners should re-fetch it through
+ * server actions, which return only what the viewer is permitted to see.
  */
 export class DatabaseEvents {
-  private listeners: Set<Listener>;
-
-  constructor() {
-    this.listeners = new Set();
-  }
+  constructor(private readonly kind: ChangeKind) {}
 
   subscribe(listener: Listener): () => void {
-    this.listeners.add(listener);
+    const source = openSource();
+    const onChange = () => listener();
+    // Changes may have been missed while the stream was reconnecting.
+    let connected = source.readyState === EventSource.OPEN;
+    const onOpen = () => {
+      if (connected) {
+        listener();
+      }
+      connected = true;
+    };
+    source.addEventListener(this.kind, onChange);
+    source.addEventListener("open", onOpen);
 
     // Return unsubscribe function
     return () => {
-      this.listeners.delete(listener);
+      source.removeEventListener(this.kind, onChange);
+      source.removeEventListener("open", onOpen);
+      closeSource();
     };
   }
-
-  emit(): void {
-    console.log("emit");
-    this.listeners.forEach((listener) => listener());
-    console.log("triggered all listeners");
-  }
 }
 
 type Listener = () => void;
@@ -0,0 +1,91 @@
+import { Pool } from "pg";
+
+import { enqueueBatch } from "./outbox";
+
+/**
+ * Reverts temporary roles that have expired to the roles they replaced,
+ * returning the number of roles reverted.
+ *
+ * Authorization already ignores expired roles through `effective_memberships`,
+ * so this only needs to run often enough to keep `memberships`, and so Oso's
+ * centralized authorization data, from going stale. The audit log records
+ * each temporary role's expiry when it is granted, so reverting it is not
+ * recorded separately.
+ *
+ * ## Oso documentation
+ * Demonstrates using the outbox to remove facts that expire with time, rather
+ * than because of a request.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function sweepExpiredRoles(pool: Pool): Promise<number> {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const res = await client.query<{
+      username: string;
+      org: string;
+      role: string;
+      expiredRole: string;
+    }>(
+      `WITH expired AS (
+        SELECT username, org, role
+        FROM memberships
+        WHERE expires_at <= now()
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE memberships
+      SET role = revert_role, expires_at = NULL, revert_role = NULL
+      FROM expired
+      WHERE memberships.username = expired.username
+        AND memberships.org = expired.org
+      RETURNING memberships.username, memberships.org, memberships.role,
+        expired.role AS "expiredRole"`
+    );
+
+    // Synchronize the reverted roles to Oso's centralized authorization data
+    // for use in other services.
+    await enqueueBatch(client, (tx) => {
+      res.rows.forEach((membership) => {
+        const user = { type: "User", id: membership.username };
+        const org = { type: "Organization", id: membership.org };
+        tx.delete(["has_assigned_role", user, membership.expiredRole, org]);
+        tx.insert(["has_assigned_role", user, membership.role, org]);
+      });
+    });
+    await client.query("COMMIT");
+    return res.rowCount ?? 0;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in sweepExpiredRoles:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Periodically reverts expired temporary roles in the background, returning a
+ * function to stop doing so.
+ */
+export function startRoleExpirySweeper(
+  pool: Pool,
+  intervalMs: number = 60_000
+): () => void {
+  let running = false;
+  const interval = setInterval(async () => {
+    // Do not overlap runs if sweeping takes longer than `intervalMs`.
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await sweepExpiredRoles(pool);
+    } catch {
+      // Logged by `sweepExpiredRoles`; retried on the next interval.
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  return () => clearInterval(interval);
+}
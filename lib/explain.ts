@@ -0,0 +1,365 @@
+/**
+ * Tools to explain why an actor does or does not have a permission, by
+ * walking the shorthand and `has_role` rules in `oso_policy.polar` over the
+ * facts described by `oso_local_auth_user_mgmt.yml`.
+ *
+ * This intentionally only understands the rules our policy uses;
+ * Oso remains the authority on whether a permission is granted.
+ */
+
+/**
+ * A resource in the policy. `global` rules use the type `global`.
+ */
+export interface Resource {
+  type: string;
+  id: string;
+}
+
+export const GLOBAL: Resource = { type: "global", id: "" };
+
+/**
+ * A shorthand rule, e.g. `"read" if "member" on "parent";`.
+ */
+interface ShorthandRule {
+  head: string;
+  body: string;
+  global: boolean;
+  on: string | null;
+  src: string;
+}
+
+/**
+ * The contents of a `resource`, `actor`, or `global` block.
+ */
+interface Block {
+  roles: string[];
+  permissions: string[];
+  relations: Map<string, string>;
+  rules: ShorthandRule[];
+}
+
+/**
+ * The shorthand rules of a Polar policy, keyed by block type.
+ */
+export type Policy = Map<string, Block>;
+
+/**
+ * A rule outside of any block, e.g.
+ * `has_role(user: User, role: String) if has_assigned_role(user, role);`.
+ */
+export interface Rule {
+  name: string;
+  // The rule's parameters, with their types if they are specialized.
+  params: { name: string; type: string | null }[];
+  // The predicates the rule's body calls, all of which must hold, with their
+  // arguments: variables, or string literals including their quotes.
+  calls: { name: string; args: string[] }[];
+  src: string;
+}
+
+const RULE = /^"(\w+)"\s+if\s+(global\s+)?"(\w+)"(?:\s+on\s+"(\w+)")?$/;
+
+const TOP_LEVEL_RULE = /^(\w+)\(([^)]*)\)(?:\s+if\s+(.*))?$/;
+
+/**
+ * Splits a Polar policy, without comments, into its blocks, by type, and the
+ * text outside of them.
+ */
+function splitBlocks(text: string): {
+  blocks: [string, string][];
+  outside: string;
+} {
+  const blocks: [string, string][] = [];
+  let outside = "";
+  let start = 0;
+  const header = /(?:(?:resource|actor)\s+(\w+)|(global))\s*\{/g;
+  let match;
+  while ((match = header.exec(text)) !== null) {
+    // Find the end of the block, accounting for nested braces.
+    let depth = 1;
+    let end = header.lastIndex;
+    while (depth > 0 && end < text.length) {
+      if (text[end] === "{") depth++;
+      if (text[end] === "}") depth--;
+      end++;
+    }
+    blocks.push([match[1] ?? match[2], text.slice(header.lastIndex, end - 1)]);
+    outside += text.slice(start, match.index);
+    start = header.lastIndex = end;
+  }
+  return { blocks, outside: outside + text.slice(start) };
+}
+
+/**
+ * Parses the shorthand rules out of a Polar policy. Statements other than
+ * shorthand rules, roles, permissions, and relations are ignored.
+ */
+export function parsePolicy(src: string): Policy {
+  const policy: Policy = new Map();
+  // Strip comments.
+  const text = src.replace(/#.*$/gm, "");
+
+  for (const [type, body] of splitBlocks(text).blocks) {
+    const block: Block = {
+      roles: [],
+      permissions: [],
+      relations: new Map(),
+      rules: [],
+    };
+    const strings = (s: string) =>
+      Array.from(s.matchAll(/"([^"]+)"/g)).map((m) => m[1]);
+
+    for (const raw of body.split(";")) {
+      const stmt = raw.trim().replace(/\s+/g, " ");
+      if (stmt.startsWith("roles")) {
+        block.roles = strings(stmt);
+      } else if (stmt.startsWith("permissions")) {
+        block.permissions = strings(stmt);
+      } else if (stmt.startsWith("relations")) {
+        for (const [, name, type] of Array.from(
+          stmt.matchAll(/(\w+)\s*:\s*(\w+)/g)
+        )) {
+          block.relations.set(name, type);
+        }
+      } else {
+        const rule = RULE.exec(stmt);
+        if (rule) {
+          block.rules.push({
+            head: rule[1],
+            global: Boolean(rule[2]),
+            body: rule[3],
+            on: rule[4] ?? null,
+            src: `${stmt};`,
+          });
+        }
+      }
+    }
+    policy.set(type, block);
+  }
+  return policy;
+}
+
+/**
+ * Parses the rules outside of blocks out of a Polar policy, e.g. `has_role`
+ * and custom roles' `has_permission`. Only conjunctions of calls are
+ * understood; other conditions, e.g. `role matches String`, are ignored.
+ */
+export function parseRules(src: string): Rule[] {
+  const text = src.replace(/#.*$/gm, "");
+  const rules: Rule[] = [];
+  for (const raw of splitBlocks(text).outside.split(";")) {
+    const stmt = raw.trim().replace(/\s+/g, " ");
+    const rule = TOP_LEVEL_RULE.exec(stmt);
+    if (!rule) {
+      continue;
+    }
+    const args = (s: string) =>
+      s.trim() ? s.split(",").map((arg) => arg.trim()) : [];
+    rules.push({
+      name: rule[1],
+      params: args(rule[2]).map((param) => {
+        const [name, type] = param.split(":").map((part) => part.trim());
+        return { name, type: type ?? null };
+      }),
+      calls: (rule[3] ?? "").split(/\s+and\s+/).flatMap((condition) => {
+        const call = /^(\w+)\(([^)]*)\)$/.exec(condition.trim());
+        return call ? [{ name: call[1], args: args(call[2]) }] : [];
+      }),
+      src: `${stmt};`,
+    });
+  }
+  return rules;
+}
+
+/**
+ * Provides the facts needed to explain a decision, mirroring the data
+ * bindings in `oso_local_auth_user_mgmt.yml`.
+ */
+export interface FactSource {
+  // `has_assigned_role(User, String, Organization)`, or
+  // `has_assigned_role(User, String)` when `resource` is `GLOBAL`.
+  roles(actor: string, resource: Resource): Promise<string[]>;
+  // `has_status(User, String)`, or `null` if `actor` does not exist.
+  status(actor: string): Promise<string | null>;
+  // `has_relation(resource, relation, related)`; resources may have many
+  // related resources, e.g. users' `parent` organizations.
+  related(resource: Resource, relation: string): Promise<Resource[]>;
+  // The roles `actor` is assigned on `resource` for which
+  // `grants_permission(resource, role, permission)`, i.e. custom roles.
+  grantingRoles(
+    actor: string,
+    resource: Resource,
+    permission: string
+  ): Promise<string[]>;
+}
+
+/**
+ * A step in the derivation of a permission or role.
+ */
+export interface Derivation {
+  // The statement this step establishes, e.g. a rule or fact.
+  goal: string;
+  holds: boolean;
+  // Explains why this step does not hold when it has no children.
+  missing?: string;
+  children: Derivation[];
+}
+
+function describe(resource: Resource): string {
+  return resource.type === GLOBAL.type
+    ? "global"
+    : `${resource.type}:${resource.id}`;
+}
+
+/**
+ * Explains whether `actor` has `role` on `resource` through the `has_role`
+ * rules, which require them to be active and to have been assigned the role.
+ */
+async function explainRole(
+  facts: FactSource,
+  actor: string,
+  role: string,
+  resource: Resource
+): Promise<Derivation> {
+  const args =
+    resource.type === GLOBAL.type
+      ? `User:${actor}, "${role}"`
+      : `User:${actor}, "${role}", ${describe(resource)}`;
+  const status = await facts.status(actor);
+  const roles = await facts.roles(actor, resource);
+  const steps: Derivation[] = [
+    {
+      goal: `has_status(User:${actor}, "active")`,
+      holds: status === "active",
+      missing:
+        status === "active"
+          ? undefined
+          : status
+          ? `User:${actor} is ${status}`
+          : `User:${actor} does not exist`,
+      children: [],
+    },
+    {
+      goal: `has_assigned_role(${args})`,
+      holds: roles.includes(role),
+      missing: roles.includes(role)
+        ? undefined
+        : roles.length
+        ? `User:${actor} only has ${roles.map((r) => `"${r}"`).join(", ")}`
+        : `User:${actor} has no role on ${describe(resource)}`,
+      children: [],
+    },
+  ];
+  return {
+    goal: `has_role(${args})`,
+    holds: steps.every((step) => step.holds),
+    children: steps,
+  };
+}
+
+/**
+ * Explains whether `actor` has `term` (a permission or role) on `resource`,
+ * returning the tree of rules and facts Oso would consider.
+ */
+export async function explain(
+  policy: Policy,
+  facts: FactSource,
+  actor: string,
+  term: string,
+  resource: Resource,
+  // Guards against cycles in role implications.
+  seen: Set<string> = new Set()
+): Promise<Derivation> {
+  const goal = `"${term}" on ${describe(resource)}`;
+  const block = policy.get(resource.type);
+  if (!block) {
+    return {
+      goal,
+      holds: false,
+      missing: `no block for ${resource.type} in oso_policy.polar`,
+      children: [],
+    };
+  }
+  if (seen.has(goal)) {
+    return { goal, holds: false, missing: "cyclic rule", children: [] };
+  }
+  seen = new Set(seen).add(goal);
+
+  const children: Derivation[] = [];
+
+  // Roles are granted through the `has_role` rules, from assigned roles.
+  if (block.roles.includes(term)) {
+    children.push(await explainRole(facts, actor, term, resource));
+  }
+
+  // Custom roles grant permissions through facts rather than shorthand rules.
+  if (block.permissions.includes(term)) {
+    for (const role of await facts.grantingRoles(actor, resource, term)) {
+      const step = await explainRole(facts, actor, role, resource);
+      children.push({
+        goal: `${step.goal} and grants_permission(${describe(
+          resource
+        )}, "${role}", "${term}")`,
+        holds: step.holds,
+        children: [step],
+      });
+    }
+  }
+
+  for (const rule of block.rules.filter((rule) => rule.head === term)) {
+    // Every step of a rule must hold for the rule to hold.
+    const stepsList: Derivation[][] = [];
+    if (rule.global) {
+      stepsList.push([
+        await explain(policy, facts, actor, rule.body, GLOBAL, seen),
+      ]);
+    } else if (rule.on) {
+      const related = await facts.related(resource, rule.on);
+      if (!related.length) {
+        stepsList.push([
+          {
+            goal: `has_relation(${describe(resource)}, "${rule.on}", _)`,
+            holds: false,
+            missing: `${describe(resource)} has no "${rule.on}"`,
+            children: [],
+          },
+        ]);
+      }
+      // The rule holds if it holds through any of the related resources.
+      for (const r of related) {
+        stepsList.push([
+          {
+            goal: `has_relation(${describe(resource)}, "${rule.on}", ${describe(
+              r
+            )})`,
+            holds: true,
+            children: [],
+          },
+          await explain(policy, facts, actor, rule.body, r, seen),
+        ]);
+      }
+    } else {
+      stepsList.push([
+        await explain(policy, facts, actor, rule.body, resource, seen),
+      ]);
+    }
+    for (const steps of stepsList) {
+      children.push({
+        goal: rule.src,
+        holds: steps.every((step) => step.holds),
+        children: steps,
+      });
+    }
+  }
+
+  const holds = children.some((child) => child.holds);
+  return {
+    goal,
+    holds,
+    missing:
+      children.length === 0
+        ? `no rule or fact grants "${term}" on ${resource.type}`
+        : undefined,
+    children,
+  };
+}
@@ -0,0 +1,125 @@
+/**
+ * A user to import, as parsed from CSV or JSON.
+ */
+export interface ImportRow {
+  // 1-based position of the row in the input, excluding any CSV header.
+  line: number;
+  username: string;
+  org: string;
+  role: string;
+  // Optional; users imported without a password cannot sign in.
+  password: string | null;
+}
+
+const REQUIRED_FIELDS = ["username", "org", "role"];
+
+// Splits CSV `text` into records of fields, handling quoted fields containing
+// commas, quotes, and newlines.
+function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      record.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") {
+        i++;
+      }
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (quoted) {
+    throw new Error("unterminated quoted field");
+  }
+  if (field || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+  // Ignore blank lines.
+  return records.filter((r) => r.some((f) => f.trim()));
+}
+
+function toRow(line: number, value: Record<string, unknown>): ImportRow {
+  const field = (name: string) =>
+    value[name] === undefined || value[name] === null
+      ? ""
+      : String(value[name]).trim();
+  return {
+    line,
+    username: field("username"),
+    org: field("org"),
+    role: field("role"),
+    password: field("password") || null,
+  };
+}
+
+/**
+ * Parses users to import from `text`, which is either a JSON array of objects
+ * or CSV with a header row. Both formats use the fields `username`, `org`,
+ * `role`, and, optionally, `password`.
+ *
+ * @throws {Error} If `text` is not well-formed or is missing required fields.
+ */
+export function parseUserImport(text: string): ImportRow[] {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error("nothing to import");
+  }
+
+  if (trimmed.startsWith("[")) {
+    let values: unknown;
+    try {
+      values = JSON.parse(trimmed);
+    } catch (e) {
+      throw new Error(`invalid JSON: ${(e as Error).message}`);
+    }
+    if (
+      !Array.isArray(values) ||
+      values.some((v) => typeof v !== "object" || v === null)
+    ) {
+      throw new Error("JSON must be an array of objects");
+    }
+    if (!values.length) {
+      throw new Error("nothing to import");
+    }
+    return values.map((v, i) => toRow(i + 1, v));
+  }
+
+  const [header, ...records] = parseCsv(trimmed);
+  const columns = header.map((name) => name.trim().toLowerCase());
+  for (const required of REQUIRED_FIELDS) {
+    if (!columns.includes(required)) {
+      throw new Error(`CSV header is missing column "${required}"`);
+    }
+  }
+  if (!records.length) {
+    throw new Error("nothing to import");
+  }
+  return records.map((record, i) =>
+    toRow(
+      i + 1,
+      Object.fromEntries(columns.map((name, j) => [name, record[j]]))
+    )
+  );
+}
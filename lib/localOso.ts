@@ -0,0 +1,481 @@
+import { readFileSync } from "fs";
+import { IntoValue, typedVar, Value } from "oso-cloud";
+
+import { FactQuery, parseFactQueries } from "./dataBindings";
+import { parsePolicy, parseRules, Policy, Rule } from "./explain";
+import type { LocalQueryBuilder, OsoClient, QueryArgs, QueryVar } from "./oso";
+import { FactChange, OutboxTransaction } from "./outbox";
+
+function quote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+function quoteIdent(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+function text(value: string | null): string {
+  return value === null ? "NULL::text" : `${quote(value)}::text`;
+}
+
+function isVar(arg: unknown): arg is QueryVar {
+  return (
+    typeof arg === "object" &&
+    arg !== null &&
+    typeof (arg as QueryVar).getId === "function"
+  );
+}
+
+function argType(arg: IntoValue<Value> | QueryVar): string {
+  if (isVar(arg)) {
+    return arg.getType();
+  }
+  return typeof arg === "object" ? arg.type : "String";
+}
+
+function argId(arg: IntoValue<Value>): string {
+  return typeof arg === "object" ? arg.id : String(arg);
+}
+
+// Selects `columns`, which may refer to the typed arguments of `fact` as
+// `f.a0`, `f.a1`, etc., from its query.
+function selectFromFact(fact: FactQuery, columns: string[]): string {
+  const aliases = fact.args.flatMap((arg, i) =>
+    "type" in arg ? [`a${i}`] : []
+  );
+  return `SELECT ${columns.join(", ")}
+    FROM (${fact.sql}) AS f(${aliases.join(", ")})`;
+}
+
+// The SQL value of `fact`'s `i`th argument, if selected as `alias`.
+function factArg(fact: FactQuery, i: number, alias = "f"): string {
+  const arg = fact.args[i];
+  return "type" in arg ? `${alias}.a${i}::text` : text(arg.literal);
+}
+
+// Selects the roles that a `has_role` rule derives from the facts its body
+// calls, as `(actor, type, id, name)` rows of `oso_derived`.
+function selectFromRule(rule: Rule, facts: FactQuery[]): string {
+  const from: string[] = [];
+  const where: string[] = [];
+  const vars = new Map<string, string>();
+  rule.calls.forEach((call, i) => {
+    const fact = facts.find(
+      (fact) =>
+        fact.predicate === call.name && fact.args.length === call.args.length
+    );
+    if (!fact) {
+      throw new Error(`no binding for ${call.name} required by ${rule.src}`);
+    }
+    const alias = `f${i}`;
+    const columns = fact.args.flatMap((arg, j) =>
+      "type" in arg ? [`a${j}`] : []
+    );
+    from.push(`(${fact.sql}) AS ${alias}(${columns.join(", ")})`);
+    call.args.forEach((arg, j) => {
+      const expr = factArg(fact, j, alias);
+      const bound = vars.get(arg);
+      if (/^".*"$/.test(arg)) {
+        where.push(`${expr} = ${quote(arg.slice(1, -1))}`);
+      } else if (bound) {
+        where.push(`${bound} = ${expr}`);
+      } else {
+        vars.set(arg, expr);
+      }
+    });
+  });
+  const param = (i: number) => {
+    const expr = vars.get(rule.params[i].name);
+    if (!expr) {
+      throw new Error(`${rule.src} does not bind ${rule.params[i].name}`);
+    }
+    return expr;
+  };
+  const resource = rule.params[2];
+  return `SELECT ${param(0)}, ${text(resource?.type ?? "global")},
+      ${resource ? param(2) : "NULL::text"}, ${param(1)}
+    FROM ${from.join(", ")}
+    WHERE ${where.join(" AND ") || "true"}`;
+}
+
+function factType(fact: FactQuery, i: number): string {
+  const arg = fact.args[i];
+  return "type" in arg ? arg.type : "String";
+}
+
+/**
+ * Builds the common table expressions that derive every role and permission
+ * from `facts` according to `policy` and its `has_role` `rules`:
+ * - `oso_relations (subject_type, subject_id, relation, object_type,
+ *   object_id)`, the `has_relation` facts.
+ * - `oso_resources (type, id)`, every resource mentioned by a fact.
+ * - `oso_derived (actor, type, id, name)`, the roles and permissions that
+ *   actors have on resources. A `NULL` `id` means every resource of `type`,
+ *   which is how `global` roles apply.
+ */
+function buildCte(policy: Policy, rules: Rule[], facts: FactQuery[]): string {
+  const none = (columns: number) =>
+    `SELECT ${Array(columns).fill("NULL::text").join(", ")} WHERE false`;
+
+  const relations = facts
+    .filter((fact) => fact.predicate === "has_relation")
+    .map((fact) =>
+      selectFromFact(fact, [
+        text(factType(fact, 0)),
+        factArg(fact, 0),
+        factArg(fact, 1),
+        text(factType(fact, 2)),
+        factArg(fact, 2),
+      ])
+    );
+
+  const resources = facts.flatMap((fact) =>
+    fact.args.flatMap((arg, i) =>
+      "type" in arg && arg.type !== "String"
+        ? [selectFromFact(fact, [text(arg.type), factArg(fact, i)])]
+        : []
+    )
+  );
+
+  const roles = facts
+    .filter((fact) => fact.predicate === "has_role")
+    .map((fact) =>
+      fact.args.length === 2
+        ? selectFromFact(fact, [
+            factArg(fact, 0),
+            text("global"),
+            "NULL::text",
+            factArg(fact, 1),
+          ])
+        : selectFromFact(fact, [
+            factArg(fact, 0),
+            text(factType(fact, 2)),
+            factArg(fact, 2),
+            factArg(fact, 1),
+          ])
+    )
+    .concat(
+      rules
+        .filter((rule) => rule.name === "has_role")
+        .map((rule) => selectFromRule(rule, facts))
+    );
+
+  // Each step derives `(type, name)` from `(from_type, from_name)`, either on
+  // the same resource or, if `via` is set, on related resources. Steps with
+  // an `only_id` apply to just that resource.
+  const steps = [
+    ...Array.from(policy).flatMap(([type, block]) =>
+      block.rules.map((rule) => {
+        let fromType = rule.global ? "global" : type;
+        if (rule.on) {
+          const target = block.relations.get(rule.on);
+          if (!target) {
+            throw new Error(`unknown relation ${rule.on} in ${type}`);
+          }
+          fromType = target;
+        }
+        return `SELECT ${[fromType, rule.body, rule.on, type, rule.head, null]
+          .map(text)
+          .join(", ")}`;
+      })
+    ),
+    // Custom roles grant permissions through facts rather than shorthand
+    // rules.
+    ...facts
+      .filter((fact) => fact.predicate === "grants_permission")
+      .map((fact) =>
+        selectFromFact(fact, [
+          text(factType(fact, 0)),
+          factArg(fact, 1),
+          "NULL::text",
+          text(factType(fact, 0)),
+          factArg(fact, 2),
+          factArg(fact, 0),
+        ])
+      ),
+  ];
+
+  return `WITH RECURSIVE
+  oso_relations (subject_type, subject_id, relation, object_type, object_id) AS (
+    ${relations.join("\n    UNION ALL\n    ") || none(5)}
+  ),
+  oso_resources (type, id) AS (
+    ${resources.join("\n    UNION\n    ") || none(2)}
+  ),
+  oso_steps (from_type, from_name, via, type, name, only_id) AS (
+    ${steps.join("\n    UNION ALL\n    ") || none(6)}
+  ),
+  oso_derived (actor, type, id, name) AS (
+    ${roles.join("\n    UNION\n    ") || none(4)}
+    UNION
+    SELECT d.actor, s.type,
+      CASE WHEN s.via IS NULL OR d.id IS NULL THEN d.id ELSE r.subject_id END,
+      s.name
+    FROM oso_derived AS d
+    JOIN oso_steps AS s
+      ON s.from_type = d.type AND s.from_name = d.name
+      AND (s.only_id IS NULL OR s.only_id = d.id)
+    LEFT JOIN oso_relations AS r
+      ON r.relation = s.via AND r.subject_type = s.type
+      AND r.object_type = d.type AND r.object_id = d.id
+    WHERE s.via IS NULL OR d.id IS NULL OR r.subject_id IS NOT NULL
+  )`;
+}
+
+/**
+ * Evaluates a Polar policy locally, as a stand-in for Oso Cloud, so that the
+ * app can run against a disposable database without network access, e.g. in
+ * integration tests.
+ *
+ * Like Oso Cloud, it returns SQL that evaluates the policy against the facts
+ * that the local authorization config selects from the database. It only
+ * supports the Polar and queries this app uses:
+ * - Shorthand rules in `resource`, `actor`, and `global` blocks, as parsed
+ *   by `parsePolicy` in `lib/explain.ts`, and custom roles granting
+ *   permissions through `grants_permission` facts.
+ * - `has_role` rules whose bodies are conjunctions of facts, e.g.
+ *   `has_status(user, "active") and has_assigned_role(user, role, org)`.
+ * - `allow`, `has_permission`, and `has_role` with up to three arguments,
+ *   and `has_relation`, in queries.
+ * - Variables for resources must be constrained with `in` or by another
+ *   argument, or else range over the resources mentioned by facts.
+ *
+ * Because every fact the policy uses comes from the database, changes passed
+ * to `batch` are only recorded in `changes`.
+ */
+export class LocalOso implements OsoClient {
+  readonly changes: FactChange[] = [];
+  readonly permissions: Map<string, string[]>;
+  readonly cte: string;
+
+  /**
+   * @throws {Error} If the policy refers to an unknown relation, or to a fact
+   * that has no binding.
+   */
+  constructor(policyPath: string, dataBindingsPath: string) {
+    const src = readFileSync(policyPath, "utf8");
+    const policy = parsePolicy(src);
+    const facts = parseFactQueries(readFileSync(dataBindingsPath, "utf8"));
+    this.permissions = new Map(
+      Array.from(policy, ([type, block]) => [type, block.permissions])
+    );
+    this.cte = buildCte(policy, parseRules(src), facts);
+  }
+
+  async listLocal(
+    actor: IntoValue<Value>,
+    action: string,
+    resourceType: string,
+    column: string
+  ): Promise<string> {
+    return `EXISTS (${this.cte}
+      SELECT 1 FROM oso_derived AS d
+      WHERE d.actor = ${quote(argId(actor))}
+        AND d.type = ${quote(resourceType)}
+        AND d.name = ${quote(action)}
+        AND (d.id IS NULL OR d.id = ${column}))`;
+  }
+
+  async actionsLocal(
+    actor: IntoValue<Value>,
+    resource: IntoValue<Value>
+  ): Promise<string> {
+    const actionVar = typedVar("String");
+    return this.buildQuery([
+      "allow",
+      actor,
+      actionVar,
+      resource,
+    ]).evaluateLocalSelect({ actions: actionVar });
+  }
+
+  buildQuery(query: QueryArgs): LocalQueryBuilder {
+    return new LocalQuery(this, [query], new Map());
+  }
+
+  async batch(
+    f: (
+      tx: Pick<OutboxTransaction, "insert" | "delete">
+    ) => void | Promise<void>
+  ): Promise<void> {
+    const tx = new OutboxTransaction();
+    await f(tx);
+    this.changes.push(...tx.changes);
+  }
+}
+
+// The tables, conditions, and variable bindings that a query compiles to.
+class QueryCompiler {
+  from: string[] = [];
+  where: string[] = [];
+  bindings = new Map<string, string>();
+
+  constructor(private readonly oso: LocalOso) {}
+
+  alias(table: string, prefix: string): string {
+    const alias = `${prefix}${this.from.length}`;
+    this.from.push(`${table} AS ${alias}`);
+    return alias;
+  }
+
+  // Constrains `arg` to equal the SQL expression `expr`, binding it to
+  // `expr` if it is an unbound variable.
+  unify(arg: IntoValue<Value> | QueryVar, expr: string): void {
+    if (!isVar(arg)) {
+      this.where.push(`${expr} = ${quote(argId(arg))}`);
+      return;
+    }
+    const bound = this.bindings.get(arg.getId());
+    if (bound) {
+      this.where.push(`${bound} = ${expr}`);
+    } else {
+      this.bindings.set(arg.getId(), expr);
+    }
+  }
+
+  // Constrains the resource `arg` to those `id`, which is `NULL` for all
+  // resources, includes.
+  unifyResource(arg: IntoValue<Value> | QueryVar, id: string): void {
+    let expr: string;
+    if (!isVar(arg)) {
+      expr = quote(argId(arg));
+    } else {
+      const bound = this.bindings.get(arg.getId());
+      if (bound) {
+        expr = bound;
+      } else {
+        const resources = this.alias("oso_resources", "r");
+        this.where.push(`${resources}.type = ${quote(arg.getType())}`);
+        expr = `${resources}.id`;
+        this.bindings.set(arg.getId(), expr);
+      }
+    }
+    this.where.push(`(${id} IS NULL OR ${id} = ${expr})`);
+  }
+
+  add([predicate, ...args]: QueryArgs): void {
+    if (
+      ["allow", "has_permission", "has_role"].includes(predicate) &&
+      (args.length === 2 || args.length === 3)
+    ) {
+      const [actor, action, resource] = args;
+      const type = resource === undefined ? "global" : argType(resource);
+      const d = this.alias("oso_derived", "d");
+      this.where.push(`${d}.type = ${quote(type)}`);
+      this.unify(actor, `${d}.actor`);
+      this.unify(action, `${d}.name`);
+      const permissions = this.oso.permissions.get(type) ?? [];
+      if (predicate === "has_role") {
+        // Only select roles, including custom roles, not the permissions they
+        // imply.
+        if (permissions.length) {
+          this.where.push(
+            `${d}.name NOT IN (${permissions.map(quote).join(", ")})`
+          );
+        }
+      } else if (isVar(action)) {
+        // Only select permissions, not the roles that imply them.
+        this.where.push(
+          permissions.length
+            ? `${d}.name IN (${permissions.map(quote).join(", ")})`
+            : "false"
+        );
+      }
+      if (resource !== undefined) {
+        this.unifyResource(resource, `${d}.id`);
+      }
+    } else if (predicate === "has_relation" && args.length === 3) {
+      const [subject, relation, object] = args;
+      const r = this.alias("oso_relations", "rel");
+      this.where.push(
+        `${r}.subject_type = ${quote(argType(subject))}`,
+        `${r}.object_type = ${quote(argType(object))}`
+      );
+      this.unify(subject, `${r}.subject_id`);
+      this.unify(relation, `${r}.relation`);
+      this.unify(object, `${r}.object_id`);
+    } else {
+      throw new Error(
+        `unsupported query: ${predicate} with ${args.length} arguments`
+      );
+    }
+  }
+
+  expr(v: QueryVar): string {
+    const expr = this.bindings.get(v.getId());
+    if (!expr) {
+      throw new Error(`query does not constrain variable ${v.getId()}`);
+    }
+    return expr;
+  }
+
+  body(): string {
+    return `FROM ${this.from.join(", ")}
+      WHERE ${this.where.join(" AND ") || "true"}`;
+  }
+}
+
+class LocalQuery implements LocalQueryBuilder {
+  constructor(
+    private readonly oso: LocalOso,
+    private readonly calls: QueryArgs[],
+    private readonly constraints: Map<QueryVar, string[]>
+  ) {}
+
+  and(query: QueryArgs): LocalQueryBuilder {
+    return new LocalQuery(this.oso, [...this.calls, query], this.constraints);
+  }
+
+  in(v: QueryVar, values: string[]): LocalQueryBuilder {
+    return new LocalQuery(
+      this.oso,
+      this.calls,
+      new Map(this.constraints).set(v, values)
+    );
+  }
+
+  // `bindings` binds variables to SQL expressions before the query does.
+  private compile(bindings: [QueryVar, string][] = []): QueryCompiler {
+    const compiler = new QueryCompiler(this.oso);
+    bindings.forEach(([v, expr]) => compiler.bindings.set(v.getId(), expr));
+    this.constraints.forEach((values, v) => {
+      if (!values.length) {
+        throw new Error(`in requires at least one value`);
+      }
+      const list = compiler.alias(
+        `unnest(ARRAY[${values.map(quote).join(", ")}]::text[])`,
+        "in"
+      );
+      compiler.unify(v, `${list}.${list}`);
+    });
+    this.calls.forEach((call) => compiler.add(call));
+    return compiler;
+  }
+
+  async evaluateLocalSelect(
+    columnNamesToQueryVars: Record<string, QueryVar> = {}
+  ): Promise<string> {
+    const compiler = this.compile();
+    const columns = Object.entries(columnNamesToQueryVars);
+    if (!columns.length) {
+      return `${this.oso.cte}
+        SELECT EXISTS (SELECT 1 ${compiler.body()}) AS result`;
+    }
+    return `${this.oso.cte}
+      SELECT DISTINCT ${columns
+        .map(([name, v]) => `${compiler.expr(v)} AS ${quoteIdent(name)}`)
+        .join(", ")}
+      ${compiler.body()}`;
+  }
+
+  async evaluateLocalFilter(
+    columnName: string,
+    queryVar: QueryVar
+  ): Promise<string> {
+    // Binding the variable to the column, rather than selecting its values,
+    // includes rows for resources that no fact mentions.
+    const compiler = this.compile([[queryVar, columnName]]);
+    return `EXISTS (${this.oso.cte}
+      SELECT 1 ${compiler.body()})`;
+  }
+}
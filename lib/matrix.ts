@@ -0,0 +1,100 @@
+import { Membership, User } from "@/lib/relations";
+
+// The actions displayed in the permission matrix. `create_org` is only
+// meaningful on the `global` resource.
+export const MATRIX_ACTIONS = [
+  "read",
+  "create_user",
+  "edit_role",
+  "delete",
+  "create_org",
+];
+
+/**
+ * Restricts the users and resources in the permission matrix. Unset fields do
+ * not restrict the results; when both are set, users must have `role` in
+ * `org`.
+ */
+export interface MatrixFilter {
+  org?: string;
+  role?: string;
+}
+
+/**
+ * A user in the permission matrix, as well as their memberships in the
+ * organizations the requestor can read.
+ */
+export interface MatrixUser extends User {
+  memberships: Pick<Membership, "org" | "role">[];
+}
+
+/**
+ * Describes `user`'s memberships, e.g. `admin in acme, member in globex`.
+ */
+export function describeMemberships(user: MatrixUser): string {
+  return user.memberships.map((m) => `${m.role} in ${m.org}`).join(", ");
+}
+
+/**
+ * A resource in the permission matrix; `global` resources have no ID.
+ */
+export interface MatrixResource {
+  type: "global" | "Organization" | "User";
+  id: string | null;
+}
+
+/**
+ * The permission matrix's users (rows) and resources (columns), as well as the
+ * actions each user has on each resource.
+ */
+export interface PermissionMatrix {
+  users: MatrixUser[];
+  resources: MatrixResource[];
+  // Keyed by `grantKey`.
+  grants: Map<string, string[]>;
+  // All organizations the requestor can read, for filtering.
+  orgs: string[];
+  // The names of all roles on those organizations, for filtering.
+  roles: string[];
+}
+
+/**
+ * Identifies the actions `username` has on `resource` in `grants`.
+ */
+export function grantKey(username: string, resource: MatrixResource): string {
+  return JSON.stringify([username, resource.type, resource.id]);
+}
+
+function csvField(value: string): string {
+  return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serializes `matrix` as CSV, with one row per user and resource, and one
+ * column per action.
+ */
+export function matrixToCsv(matrix: PermissionMatrix): string {
+  const lines = [
+    [
+      "username",
+      "memberships",
+      "resource_type",
+      "resource_id",
+      ...MATRIX_ACTIONS,
+    ],
+  ];
+  for (const user of matrix.users) {
+    for (const resource of matrix.resources) {
+      const actions =
+        matrix.grants.get(grantKey(user.username, resource)) ?? [];
+      lines.push([
+        user.username,
+        user.memberships.map((m) => `${m.org}:${m.role}`).join(";"),
+        resource.type,
+        resource.id ?? "",
+        ...MATRIX_ACTIONS.map((action) => String(actions.includes(action))),
+      ]);
+    }
+  }
+  return lines.map((line) => line.map(csvField).join(",")).join("\n") + "\n";
+}
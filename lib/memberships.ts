@@ -0,0 +1,539 @@
+import { readFile } from "fs/promises";
+import { typedVar } from "oso-cloud";
+import path from "path";
+import { PoolClient } from "pg";
+
+import { recordAuditEvents } from "@/lib/audit";
+import { usersPool as pool } from "@/lib/db";
+import { parsePolicy, Policy } from "@/lib/explain";
+import { osoUserMgmt as oso } from "@/lib/oso";
+import { enqueueBatch } from "@/lib/outbox";
+import { Membership } from "@/lib/relations";
+
+/**
+ * Returns a SQL condition that holds if `requestor` has the `create_user`
+ * permission on every organization that the user identified by
+ * `usernameColumn` belongs to.
+ *
+ * Users may belong to many organizations, and actions that affect all of a
+ * user's memberships at once, such as deleting them, should not be possible
+ * for an administrator of only one of them.
+ *
+ * ## Oso documentation
+ * Demonstrates composing a condition generated by `listLocal` into a
+ * subquery, so that it must hold for every related row rather than any.
+ *
+ * @throws {Error} If there is a problem generating the condition.
+ */
+export async function manageAllMembershipsCondition(
+  requestor: string,
+  usernameColumn: string
+): Promise<string> {
+  const manageOrgCond = await oso.listLocal(
+    { type: "User", id: requestor },
+    "create_user",
+    "Organization",
+    "all_memberships.org"
+  );
+  return `NOT EXISTS (
+    SELECT 1 FROM memberships AS all_memberships
+    WHERE all_memberships.username = ${usernameColumn}
+      AND NOT (${manageOrgCond})
+  )`;
+}
+
+/**
+ * Returns those of `assignments` whose role would let its user do something on
+ * its organization that `requestor` cannot. Assigning
+ * roles must not escalate privileges, e.g. by someone whose custom role grants
+ * `create_user` making themselves an `admin`.
+ *
+ * A role grants the `Organization` permissions it implies or, if it is a
+ * custom role, the permissions in `role_permissions`. Built-in roles that
+ * rules on related resources depend on, such as `admin`, which is inherited
+ * by sub-organizations and permits deleting users, also require `requestor` to
+ * have the role itself.
+ *
+ * @throws {Error} If there is a problem with the database connection or
+ * reading the policy.
+ */
+export async function unassignableRoles<
+  T extends Pick<Membership, "org" | "role">
+>(client: PoolClient, requestor: string, assignments: T[]): Promise<T[]> {
+  const policy = parsePolicy(
+    await readFile(path.join(process.cwd(), "oso_policy.polar"), "utf8")
+  );
+  const osoUser = { type: "User", id: requestor };
+  // The roles and permissions `requestor` has on each organization.
+  const held = new Map<string, Set<string>>();
+  const unassignable: T[] = [];
+  for (const assignment of assignments) {
+    if (!held.has(assignment.org)) {
+      const osoOrg = { type: "Organization", id: assignment.org };
+      const termVar = typedVar("String");
+      const terms = new Set<string>();
+      for (const predicate of ["allow", "has_role"]) {
+        const query = await oso
+          .buildQuery([predicate, osoUser, termVar, osoOrg])
+          .evaluateLocalSelect({ term: termVar });
+        const res = await client.query<{ term: string }>(query);
+        res.rows.forEach((row) => terms.add(row.term));
+      }
+      held.set(assignment.org, terms);
+    }
+    const terms = held.get(assignment.org)!;
+    const grants = await roleGrants(client, policy, assignment);
+    if (grants.some((term) => !terms.has(term))) {
+      unassignable.push(assignment);
+    }
+  }
+  return unassignable;
+}
+
+// Returns the roles and permissions that a requestor must have on `org` to
+// assign `role` there; see `unassignableRoles`.
+async function roleGrants(
+  client: PoolClient,
+  policy: Policy,
+  { org, role }: Pick<Membership, "org" | "role">
+): Promise<string[]> {
+  const block = policy.get("Organization");
+  if (!block?.roles.includes(role)) {
+    const res = await client.query<{ permission: string }>(
+      `SELECT permission FROM role_permissions WHERE org = $1 AND role = $2`,
+      [org, role]
+    );
+    return res.rows.map((row) => row.permission);
+  }
+
+  // The roles and permissions `role` implies on the organization itself.
+  const implied = new Set([role]);
+  let size = 0;
+  while (size !== implied.size) {
+    size = implied.size;
+    block.rules
+      .filter((rule) => !rule.global && !rule.on && implied.has(rule.body))
+      .forEach((rule) => implied.add(rule.head));
+  }
+  // The roles that rules on related resources depend on.
+  const inherited = new Set(
+    Array.from(policy.values()).flatMap((related) =>
+      related.rules
+        .filter(
+          (rule) => rule.on && related.relations.get(rule.on) === "Organization"
+        )
+        .map((rule) => rule.body)
+    )
+  );
+  return Array.from(implied).filter(
+    (term) => block.permissions.includes(term) || inherited.has(term)
+  );
+}
+
+/**
+ * Locks `orgs`, and the organizations above them, against concurrent changes
+ * to their admins, returning those of `orgs` that currently have an admin.
+ *
+ * Call this inside a transaction before removing admins from `orgs`, and pass
+ * its result to `assertOrgsHaveAdmins` after doing so. Locking every affected
+ * organization first means that concurrent demotions are serialized, so that
+ * each sees the admins that the other left.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function lockOrgsWithAdmins(
+  client: PoolClient,
+  orgs: string[]
+): Promise<string[]> {
+  // Lock in a consistent order so that concurrent callers cannot deadlock.
+  await client.query(
+    `WITH RECURSIVE ancestors (name) AS (
+      SELECT name FROM organizations WHERE name = ANY($1)
+      UNION
+      SELECT organizations.parent
+      FROM ancestors
+      JOIN organizations ON organizations.name = ancestors.name
+      WHERE organizations.parent IS NOT NULL
+    )
+    SELECT name FROM organizations
+    WHERE name IN (SELECT name FROM ancestors)
+    ORDER BY name
+    FOR NO KEY UPDATE`,
+    [orgs]
+  );
+  return orgsWithAdmins(client, orgs);
+}
+
+/**
+ * Ensures that each of `orgs` still has an admin.
+ *
+ * @throws {Error} If any of `orgs` no longer has an admin.
+ */
+export async function assertOrgsHaveAdmins(
+  client: PoolClient,
+  orgs: string[]
+): Promise<void> {
+  const remaining = new Set(await orgsWithAdmins(client, orgs));
+  const orphaned = orgs.find((org) => !remaining.has(org));
+  if (orphaned !== undefined) {
+    throw new Error(`cannot remove the last admin of Organization ${orphaned}`);
+  }
+}
+
+// Returns those of `orgs` with a permanent, active `admin`, either of the
+// organization itself or, because admins are inherited, of an organization
+// above it. Temporary admins are not counted, because they will not remain
+// admins, nor are suspended admins, who are not permitted anything, nor global
+// admins, who are admins of every organization.
+async function orgsWithAdmins(
+  client: PoolClient,
+  orgs: string[]
+): Promise<string[]> {
+  const res = await client.query<{ org: string }>(
+    `WITH RECURSIVE ancestors (org, name) AS (
+      SELECT name, name FROM organizations WHERE name = ANY($1)
+      UNION
+      SELECT ancestors.org, organizations.parent
+      FROM ancestors
+      JOIN organizations ON organizations.name = ancestors.name
+      WHERE organizations.parent IS NOT NULL
+    )
+    SELECT DISTINCT ancestors.org
+    FROM ancestors
+    JOIN memberships ON memberships.org = ancestors.name
+    JOIN users ON users.username = memberships.username
+    WHERE memberships.role = 'admin' AND memberships.expires_at IS NULL
+      AND users.status = 'active'`,
+    [orgs]
+  );
+  return res.rows.map((row) => row.org);
+}
+
+// Temporary roles may be granted for at most this many hours.
+const MAX_TEMPORARY_ROLE_HOURS = 24 * 30;
+
+/**
+ * A change to a user's role in an organization they belong to. Roles granted
+ * with `expiresInHours` are temporary, and revert to the user's permanent role
+ * once they expire.
+ */
+export interface RoleEdit extends Membership {
+  expiresInHours?: number | null;
+}
+
+/**
+ * Edits a set of users' roles in organizations they belong to on behalf of
+ * `requestor`, identifying the memberships by username and organization.
+ * Roles are permanent unless granted with `expiresInHours`; see
+ * `lib/expiry.ts`.
+ *
+ * Call this inside a transaction on `client`, which should be rolled back if
+ * this throws, so that the edits commit along with the caller's other
+ * changes, e.g. approving an access request.
+ *
+ * Requires `requestor` to have the `edit_role` permission on all edited users,
+ * as well as the `create_user` permission on the organizations whose roles are
+ * edited and everything the new roles permit there; see `unassignableRoles`.
+ *
+ * ## Oso documentation
+ * Demonstrates a complex approach to authorizing many resources at once using
+ * local authorization, relying on a transaction to verify authorization
+ * occurred as the requestor expected.
+ *
+ * Also demonstrates using the outbox to synchronize changes to Oso's
+ * centralized authorization data.
+ *
+ * @throws {Error} If there is a problem with the database connection, or the
+ * requestor cannot does not have permission to edit all requested users, or
+ * the edits would leave an organization without an admin.
+ */
+export async function editRoles(
+  client: PoolClient,
+  requestor: string,
+  updates: RoleEdit[]
+): Promise<void> {
+  if (updates.length === 0) {
+    return;
+  }
+  for (const { expiresInHours } of updates) {
+    if (
+      expiresInHours != null &&
+      (!Number.isInteger(expiresInHours) ||
+        expiresInHours < 1 ||
+        expiresInHours > MAX_TEMPORARY_ROLE_HOURS)
+    ) {
+      throw new Error(
+        `temporary roles must expire in 1 to ${MAX_TEMPORARY_ROLE_HOURS} hours`
+      );
+    }
+  }
+  const osoUser = { type: "User", id: requestor };
+
+  // Ensure that this user has `edit_role` permission for all users being
+  // updated, and can administer their organizations. We perform this as a
+  // `listLocal` operation because there are an arbitrary number of users
+  // that could be updated here.
+  const [editRoleAuthorized, manageOrgAuthorized] = await Promise.all([
+    oso.listLocal(osoUser, "edit_role", "User", "memberships.username"),
+    oso.listLocal(osoUser, "create_user", "Organization", "memberships.org"),
+  ]);
+
+  // Ensure that the users edited are part of the set of users the requestor
+  // has `edit_role` permissions on.
+  //
+  // Joining `prev` lets us return each user's role from before the update,
+  // so that we can remove it from Oso's centralized authorization data.
+  //
+  // Temporary roles revert to the role the user had before any temporary
+  // role was granted.
+  const queryText = `
+      UPDATE memberships
+      SET role = v.role,
+        expires_at = now() + make_interval(hours => v.hours),
+        revert_role = CASE
+          WHEN v.hours IS NOT NULL
+          THEN COALESCE(prev.revert_role, prev.role)
+        END
+      FROM (VALUES
+        ${updates
+          .map(
+            (_, i) =>
+              `($${i * 4 + 1}, $${i * 4 + 2}, $${i * 4 + 3}, $${
+                i * 4 + 4
+              }::INTEGER)`
+          )
+          .join(", ")}
+      ) AS v(username, org, role, hours)
+      JOIN memberships AS prev
+        ON prev.username = v.username AND prev.org = v.org
+      WHERE memberships.username = v.username
+        AND memberships.org = v.org
+        AND ${editRoleAuthorized}
+        AND ${manageOrgAuthorized}
+      RETURNING memberships.username, memberships.org,
+        memberships.role, memberships.expires_at,
+        prev.role AS "prevRole", prev.expires_at AS "prevExpiresAt";
+    `;
+
+  const membershipFields = updates.flatMap((membership) => [
+    membership.username,
+    membership.org,
+    membership.role,
+    membership.expiresInHours ?? null,
+  ]);
+
+  const orgsWithAdmins = await lockOrgsWithAdmins(
+    client,
+    updates.map((membership) => membership.org)
+  );
+  // Ensure that the requestor could already do everything the new roles
+  // permit.
+  const [unassignable] = await unassignableRoles(client, requestor, updates);
+  const res = await client.query<
+    Membership & {
+      expires_at: Date | null;
+      prevRole: string;
+      prevExpiresAt: Date | null;
+    }
+  >(queryText, membershipFields);
+
+  // Check the affected row count, which is our signal that there is a
+  // discrepancy between the number of users submitted and the number of users
+  // that passed the conditions expressed by `editRoleAuthorized` and
+  // `manageOrgAuthorized`.
+  const auditEvent = {
+    requestor,
+    action: "editUsersRoleByUsername",
+    permission: "edit_role",
+    target_type: "User",
+  };
+  if (res.rowCount !== updates.length || unassignable) {
+    // If these numbers do not align, abort the operation.
+    await recordAuditEvents(
+      pool,
+      updates.map((membership) => ({
+        ...auditEvent,
+        allowed: false,
+        target_id: membership.username,
+        org: membership.org,
+        after: {
+          role: membership.role,
+          expiresInHours: membership.expiresInHours ?? null,
+        },
+      }))
+    );
+    throw new Error(
+      unassignable
+        ? `not permitted to assign role ${unassignable.role} in Organization ${unassignable.org}`
+        : `not permitted to edit role of all submitted users`
+    );
+  }
+  // Checked once the whole batch is applied, so that admins can swap roles
+  // with one another in a single save.
+  await assertOrgsHaveAdmins(client, orgsWithAdmins);
+  await recordAuditEvents(
+    client,
+    res.rows.map((membership) => ({
+      ...auditEvent,
+      allowed: true,
+      target_id: membership.username,
+      org: membership.org,
+      before: {
+        role: membership.prevRole,
+        expires_at: membership.prevExpiresAt,
+      },
+      after: { role: membership.role, expires_at: membership.expires_at },
+    }))
+  );
+
+  // Synchronize user's new role to Oso's centralized authorization data for
+  // use in other services.
+  await enqueueBatch(client, (tx) => {
+    // Delete previous values.
+    res.rows.map((membership) => {
+      tx.delete([
+        "has_assigned_role",
+        { type: "User", id: membership.username },
+        membership.prevRole,
+        { type: "Organization", id: membership.org },
+      ]);
+    });
+    // Insert new values.
+    res.rows.map((membership) =>
+      tx.insert([
+        "has_assigned_role",
+        { type: "User", id: membership.username },
+        membership.role,
+        { type: "Organization", id: membership.org },
+      ])
+    );
+  });
+}
+
+/**
+ * The columns by which lists of memberships can be sorted.
+ */
+export type MembershipSort = "username" | "org" | "role";
+
+export const MEMBERSHIP_SORTS: MembershipSort[] = ["username", "org", "role"];
+
+/**
+ * Restricts and orders lists of memberships. Unset fields do not restrict the
+ * results, which are sorted by username by default.
+ */
+export interface MembershipFilter {
+  // Only return users whose usernames contain this, ignoring case.
+  search?: string;
+  org?: string;
+  role?: string;
+  sort?: MembershipSort;
+  descending?: boolean;
+  // Only return memberships after the last one of the page with this cursor.
+  cursor?: string;
+}
+
+/**
+ * A page of memberships, as well as the cursor to fetch the next page, if
+ * there is one.
+ */
+export interface MembershipPage<T extends Membership> {
+  memberships: T[];
+  nextCursor: string | null;
+}
+
+export const MEMBERSHIP_PAGE_SIZE = 50;
+
+// The columns that order memberships sorted by `sort`. Usernames and orgs
+// identify memberships, so ties are broken by them to make the order total.
+function sortKeys(sort: MembershipSort): (keyof Membership)[] {
+  return sort === "username" ? ["username", "org"] : [sort, "username", "org"];
+}
+
+/**
+ * Returns SQL conditions and an `ORDER BY` list over the `memberships` table
+ * that apply `filter`, appending their parameters to `params`.
+ *
+ * Pages are identified by the sort keys of their last membership, rather than
+ * an offset, so that paging stays stable while memberships change and remains
+ * fast however deep it goes.
+ *
+ * @throws {Error} If `filter`'s sort or cursor is invalid.
+ */
+export function membershipFilterClauses(
+  filter: MembershipFilter,
+  params: unknown[]
+): { conditions: string[]; orderBy: string } {
+  const sort = filter.sort ?? "username";
+  if (!MEMBERSHIP_SORTS.includes(sort)) {
+    throw new Error(`cannot sort memberships by ${sort}`);
+  }
+  const conditions: string[] = [];
+  const addParam = (value: unknown) => {
+    params.push(value);
+    return `$${params.length}`;
+  };
+
+  if (filter.search) {
+    // Match `search` literally, rather than as a pattern.
+    const pattern = filter.search.replace(/[\\%_]/g, "\\$&");
+    conditions.push(`memberships.username ILIKE ${addParam(`%${pattern}%`)}`);
+  }
+  if (filter.org) {
+    conditions.push(`memberships.org = ${addParam(filter.org)}`);
+  }
+  if (filter.role) {
+    conditions.push(`memberships.role = ${addParam(filter.role)}`);
+  }
+
+  const keys = sortKeys(sort).map((key) => `memberships.${key}`);
+  if (filter.cursor) {
+    let values: unknown;
+    try {
+      values = JSON.parse(Buffer.from(filter.cursor, "base64url").toString());
+    } catch {
+      values = null;
+    }
+    if (
+      !Array.isArray(values) ||
+      values.length !== keys.length ||
+      !values.every((value) => typeof value === "string")
+    ) {
+      throw new Error(`invalid cursor`);
+    }
+    conditions.push(
+      `(${keys.join(", ")}) ${filter.descending ? "<" : ">"} (${values
+        .map(addParam)
+        .join(", ")})`
+    );
+  }
+
+  const direction = filter.descending ? "DESC" : "ASC";
+  return {
+    conditions,
+    orderBy: keys.map((key) => `${key} ${direction}`).join(", "),
+  };
+}
+
+/**
+ * Returns the page of `rows`, which were queried using the clauses from
+ * `membershipFilterClauses` with a limit of one more than
+ * `MEMBERSHIP_PAGE_SIZE` to determine whether there is a next page.
+ */
+export function toMembershipPage<T extends Membership>(
+  rows: T[],
+  filter: MembershipFilter
+): MembershipPage<T> {
+  const memberships = rows.slice(0, MEMBERSHIP_PAGE_SIZE);
+  const last = memberships[memberships.length - 1];
+  return {
+    memberships,
+    nextCursor:
+      rows.length > MEMBERSHIP_PAGE_SIZE
+        ? Buffer.from(
+            JSON.stringify(
+              sortKeys(filter.sort ?? "username").map((key) => last[key])
+            )
+          ).toString("base64url")
+        : null,
+  };
+}
@@ -0,0 +1,363 @@
+// OpenAPI description of the REST API under `app/api`, served at
+// `/api/openapi.json`.
+
+const errorResponse = (description: string) => ({
+  description,
+  content: {
+    "application/json": { schema: { $ref: "#/components/schemas/Failure" } },
+  },
+});
+
+const successResponse = (description: string, value: object) => ({
+  description,
+  content: {
+    "application/json": {
+      schema: {
+        type: "object",
+        required: ["success", "value"],
+        properties: { success: { const: true }, value },
+      },
+    },
+  },
+});
+
+const errorResponses = {
+  "400": errorResponse("The request is malformed or cannot be completed."),
+  "401": errorResponse("The bearer token is missing, invalid, or revoked."),
+  "403": errorResponse("The requestor is not permitted to do this."),
+  "404": errorResponse("The resource does not exist."),
+  "409": errorResponse("The change conflicts with existing data."),
+};
+
+const stringValue = { type: "string" };
+
+export const openApiDocument = {
+  openapi: "3.1.0",
+  info: {
+    title: "User management API",
+    version: "1.0.0",
+    description:
+      "Manages users and organizations, applying the same authorization as the web application. Every response body is a `Result`: `{success: true, value}` or `{success: false, error}`.",
+  },
+  servers: [{ url: "/api" }],
+  security: [{ bearerAuth: [] }],
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: "http",
+        scheme: "bearer",
+        description:
+          "Create tokens on your user page. Requests act as the user who created the token.",
+      },
+    },
+    schemas: {
+      Failure: {
+        type: "object",
+        required: ["success", "error"],
+        properties: { success: { const: false }, error: stringValue },
+      },
+      ReadableMembership: {
+        type: "object",
+        description:
+          "A user's membership in an organization. Users may belong to many organizations.",
+        required: [
+          "username",
+          "org",
+          "role",
+          "editRole",
+          "deleteUser",
+          "manageMembership",
+        ],
+        properties: {
+          username: stringValue,
+          org: stringValue,
+          role: stringValue,
+          expires_at: {
+            type: ["string", "null"],
+            format: "date-time",
+            description:
+              "When `role`, if temporary, expires and reverts to `revert_role`.",
+          },
+          revert_role: { type: ["string", "null"] },
+          editRole: {
+            type: "boolean",
+            description:
+              "Whether the requestor can change the user's role in the organization.",
+          },
+          deleteUser: {
+            type: "boolean",
+            description: "Whether the requestor can delete the user.",
+          },
+          manageMembership: {
+            type: "boolean",
+            description:
+              "Whether the requestor can remove the user from the organization, or move them to another.",
+          },
+        },
+      },
+      MembershipPage: {
+        type: "object",
+        required: ["memberships", "nextCursor"],
+        properties: {
+          memberships: {
+            type: "array",
+            items: { $ref: "#/components/schemas/ReadableMembership" },
+          },
+          nextCursor: {
+            type: ["string", "null"],
+            description:
+              "Pass as `cursor` to fetch the next page, or `null` on the last page.",
+          },
+        },
+      },
+      Org: {
+        type: "object",
+        required: ["name", "parent"],
+        properties: {
+          name: stringValue,
+          parent: {
+            type: ["string", "null"],
+            description:
+              "The organization this is a sub-organization of. Admins of an organization are admins of its sub-organizations.",
+          },
+        },
+      },
+    },
+  },
+  paths: {
+    "/users": {
+      get: {
+        summary:
+          "List the memberships of the users the requestor can read, in the organizations the requestor can read",
+        description: "Returns at most 50 memberships per page.",
+        parameters: [
+          {
+            name: "search",
+            in: "query",
+            description:
+              "Only return users whose usernames contain this, ignoring case.",
+            schema: stringValue,
+          },
+          { name: "org", in: "query", schema: stringValue },
+          { name: "role", in: "query", schema: stringValue },
+          {
+            name: "sort",
+            in: "query",
+            schema: {
+              type: "string",
+              enum: ["username", "org", "role"],
+              default: "username",
+            },
+          },
+          {
+            name: "descending",
+            in: "query",
+            schema: { type: "boolean", default: false },
+          },
+          {
+            name: "cursor",
+            in: "query",
+            description: "The `nextCursor` of the previous page.",
+            schema: stringValue,
+          },
+        ],
+        responses: {
+          "200": successResponse("A page of the memberships.", {
+            $ref: "#/components/schemas/MembershipPage",
+          }),
+          ...errorResponses,
+        },
+      },
+      post: {
+        summary: "Create a user",
+        description: "Requires `create_user` on the organization.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["username", "org", "role", "password"],
+                properties: {
+                  username: stringValue,
+                  org: stringValue,
+                  role: stringValue,
+                  password: stringValue,
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": successResponse("The new user's username.", stringValue),
+          ...errorResponses,
+        },
+      },
+    },
+    "/users/{username}": {
+      parameters: [
+        { name: "username", in: "path", required: true, schema: stringValue },
+      ],
+      patch: {
+        summary:
+          "Change a user's role in an organization, or move their membership to another organization",
+        description:
+          "Without `prevOrg`, sets the user's role in `org`, which requires `edit_role` on the user and `create_user` on `org`; with `expiresInHours`, the role reverts to the user's permanent role after that many hours. With `prevOrg`, moves the user's membership in `prevOrg` to `org` with `role`, which requires `create_user` on both organizations.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["org", "role"],
+                properties: {
+                  org: stringValue,
+                  role: stringValue,
+                  prevOrg: stringValue,
+                  expiresInHours: { type: "integer", minimum: 1 },
+                },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": successResponse("The user's username.", stringValue),
+          ...errorResponses,
+        },
+      },
+      delete: {
+        summary: "Delete a user, removing them from all of their organizations",
+        description:
+          "Requires `delete` on the user, as well as `create_user` on each of their organizations.",
+        responses: {
+          "200": successResponse("The deleted user's username.", stringValue),
+          ...errorResponses,
+        },
+      },
+    },
+    "/users/{username}/memberships": {
+      parameters: [
+        { name: "username", in: "path", required: true, schema: stringValue },
+      ],
+      post: {
+        summary: "Add an existing user to an organization",
+        description: "Requires `create_user` on the organization.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["org", "role"],
+                properties: { org: stringValue, role: stringValue },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": successResponse("The user's username.", stringValue),
+          ...errorResponses,
+        },
+      },
+    },
+    "/users/{username}/memberships/{org}": {
+      parameters: [
+        { name: "username", in: "path", required: true, schema: stringValue },
+        { name: "org", in: "path", required: true, schema: stringValue },
+      ],
+      delete: {
+        summary: "Remove a user from an organization",
+        description:
+          "Requires `create_user` on the organization. Users cannot be removed from their only organization; delete them instead.",
+        responses: {
+          "200": successResponse("The user's username.", stringValue),
+          ...errorResponses,
+        },
+      },
+    },
+    "/orgs": {
+      get: {
+        summary: "List the organizations the requestor can read",
+        responses: {
+          "200": successResponse("The organizations.", {
+            type: "array",
+            items: { $ref: "#/components/schemas/Org" },
+          }),
+          ...errorResponses,
+        },
+      },
+      post: {
+        summary: "Create an organization",
+        description:
+          "Requires the global `create_org` permission. Organizations cannot be sub-organizations of `_root`.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["name"],
+                properties: { name: stringValue, parent: stringValue },
+              },
+            },
+          },
+        },
+        responses: {
+          "201": successResponse("The new organization's name.", stringValue),
+          ...errorResponses,
+        },
+      },
+    },
+    "/orgs/{name}": {
+      parameters: [
+        { name: "name", in: "path", required: true, schema: stringValue },
+      ],
+      patch: {
+        summary: "Rename an organization",
+        description: "Requires `rename` on the organization.",
+        requestBody: {
+          required: true,
+          content: {
+            "application/json": {
+              schema: {
+                type: "object",
+                required: ["name"],
+                properties: { name: stringValue },
+              },
+            },
+          },
+        },
+        responses: {
+          "200": successResponse("The organization's new name.", stringValue),
+          ...errorResponses,
+        },
+      },
+      delete: {
+        summary: "Delete an organization",
+        description:
+          "Requires `delete` on the organization, as well as `create_user` on `reassignTo` when reassigning users, or `delete` on every user deleted when cascading.",
+        parameters: [
+          {
+            name: "members",
+            in: "query",
+            description:
+              "What happens to the organization's users: `block` refuses to delete organizations with users, `reassign` moves them to `reassignTo`, and `cascade` removes them, deleting users who belong to no other organization.",
+            schema: {
+              type: "string",
+              enum: ["block", "reassign", "cascade"],
+              default: "block",
+            },
+          },
+          { name: "reassignTo", in: "query", schema: stringValue },
+        ],
+        responses: {
+          "200": successResponse(
+            "The deleted organization's name.",
+            stringValue
+          ),
+          ...errorResponses,
+        },
+      },
+    },
+  },
+};
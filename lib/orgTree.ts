@@ -0,0 +1,42 @@
+import { Org } from "@/lib/relations";
+
+/**
+ * An organization, as well as how many of its ancestors precede it in
+ * `flattenOrgTree`'s output.
+ */
+export interface OrgTreeNode {
+  name: string;
+  depth: number;
+}
+
+/**
+ * Orders `orgs` depth-first, so that every organization follows its parent and
+ * siblings are sorted by name.
+ *
+ * Organizations whose parent is not in `orgs`, e.g. because the requestor
+ * cannot read it, are displayed as top-level organizations.
+ */
+export function flattenOrgTree(orgs: Org[]): OrgTreeNode[] {
+  const names = new Set(orgs.map((org) => org.name));
+  const children = new Map<string | null, string[]>();
+  orgs.forEach((org) => {
+    const parent =
+      org.parent !== null && names.has(org.parent) ? org.parent : null;
+    if (!children.has(parent)) {
+      children.set(parent, []);
+    }
+    children.get(parent)!.push(org.name);
+  });
+
+  const nodes: OrgTreeNode[] = [];
+  const visit = (parent: string | null, depth: number) => {
+    (children.get(parent) ?? [])
+      .sort((a, b) => a.toLowerCase().localeCompare(b.toLowerCase()))
+      .forEach((name) => {
+        nodes.push({ name, depth });
+        visit(name, depth + 1);
+      });
+  };
+  visit(null, 0);
+  return nodes;
+}
@@ -1,17 +1,87 @@
+import path from "path";
 import { PoolClient } from "pg";
-import { Oso, IntoValue, Value } from "oso-cloud";
+import { Oso, IntoValue, typedVar, Value } from "oso-cloud";
 
+import { LocalOso } from "./localOso";
+import type { OutboxTransaction } from "./outbox";
 import { getEnvVar } from "./util";
 
-const key = getEnvVar("OSO_CLOUD_API_KEY");
-const osoHost = getEnvVar("OSO_URL");
+/**
+ * A query variable, created with `typedVar`.
+ */
+export type QueryVar = ReturnType<typeof typedVar>;
+
+/**
+ * A predicate and its arguments, each of which is a value or a variable.
+ */
+export type QueryArgs = [string, ...(IntoValue<Value> | QueryVar)[]];
+
+/**
+ * The subset of Oso's `QueryBuilder` that this app uses for local
+ * authorization.
+ */
+export interface LocalQueryBuilder {
+  and(query: QueryArgs): LocalQueryBuilder;
+  in(v: QueryVar, values: string[]): LocalQueryBuilder;
+  evaluateLocalSelect(
+    columnNamesToQueryVars?: Record<string, QueryVar>
+  ): Promise<string>;
+  evaluateLocalFilter(columnName: string, queryVar: QueryVar): Promise<string>;
+}
+
+/**
+ * The subset of the Oso client that this app uses, which `Oso` implements
+ * against Oso Cloud and `LocalOso` implements offline.
+ */
+export interface OsoClient {
+  listLocal(
+    actor: IntoValue<Value>,
+    action: string,
+    resourceType: string,
+    column: string
+  ): Promise<string>;
+  // Selects a row for each action `actor` can perform on `resource`, whose
+  // first column is the action.
+  actionsLocal(
+    actor: IntoValue<Value>,
+    resource: IntoValue<Value>
+  ): Promise<string>;
+  buildQuery(query: QueryArgs): LocalQueryBuilder;
+  batch(
+    f: (
+      tx: Pick<OutboxTransaction, "insert" | "delete">
+    ) => void | Promise<void>
+  ): Promise<void>;
+}
+
+function newOsoClient(): OsoClient {
+  // Runs outside of Docker, e.g. in integration tests, so reads the policy
+  // from the working directory rather than `/app`.
+  if (process.env.OSO_LOCAL_STAND_IN === "true") {
+    return new LocalOso(
+      path.join(process.cwd(), "oso_policy.polar"),
+      path.join(process.cwd(), "oso_local_auth_user_mgmt.yml")
+    );
+  }
+  return new Oso(getEnvVar("OSO_URL"), getEnvVar("OSO_CLOUD_API_KEY"), {
+    dataBindings: "/app/oso_local_auth_user_mgmt.yml",
+  });
+}
 
 /**
  * Oso client for user management service.
+ *
+ * Uses Oso Cloud unless `OSO_LOCAL_STAND_IN` is `true`; see `LocalOso`.
  */
-export const osoUserMgmt = new Oso(osoHost, key, {
-  dataBindings: "/app/oso_local_auth_user_mgmt.yml",
-});
+export let osoUserMgmt: OsoClient = newOsoClient();
+
+/**
+ * Replaces the Oso client for user management service, e.g. so that tests can
+ * inspect the changes made through `batch`.
+ */
+export function setOsoUserMgmt(oso: OsoClient): void {
+  osoUserMgmt = oso;
+}
 
 /**
  * Convenience function to authorizes `user` to perform `permission` on
@@ -26,7 +96,7 @@ export const osoUserMgmt = new Oso(osoHost, key, {
  * @throws {Error} If there is a problem with the database connection.
  */
 export async function authorizeUser(
-  oso: Oso,
+  oso: OsoClient,
   client: PoolClient,
   username: string,
   permission: string,
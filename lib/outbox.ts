@@ -0,0 +1,202 @@
+import { Pool, PoolClient } from "pg";
+import { IntoFact, IntoFactPattern } from "oso-cloud";
+
+import type { OsoClient } from "./oso";
+import { stringifyError } from "./result";
+
+/**
+ * A single change to Oso's centralized authorization data.
+ */
+export type FactChange =
+  | { op: "insert"; fact: IntoFact }
+  | { op: "delete"; fact: IntoFactPattern };
+
+/**
+ * Records changes to Oso's centralized authorization data. Mirrors the
+ * `BatchTransaction` passed to `Oso.batch` so that callers can describe their
+ * changes identically.
+ */
+export class OutboxTransaction {
+  changes: FactChange[] = [];
+
+  insert(fact: IntoFact): void {
+    this.changes.push({ op: "insert", fact });
+  }
+
+  delete(fact: IntoFactPattern): void {
+    this.changes.push({ op: "delete", fact });
+  }
+}
+
+/**
+ * Writes the changes described by `f` to the outbox using `client`, which
+ * should be inside of the transaction that produced the changes. This ensures
+ * that the changes are delivered to Oso if and only if the transaction
+ * commits.
+ *
+ * ## Oso documentation
+ * Demonstrates a transactional outbox, which keeps Oso's centralized
+ * authorization data eventually consistent with the application's database,
+ * even if Oso is unreachable when the application's data changes.
+ */
+export async function enqueueBatch(
+  client: PoolClient,
+  f: (tx: OutboxTransaction) => void
+): Promise<void> {
+  const tx = new OutboxTransaction();
+  f(tx);
+  if (tx.changes.length === 0) {
+    return;
+  }
+  await client.query(`INSERT INTO oso_outbox (changes) VALUES ($1)`, [
+    JSON.stringify(tx.changes),
+  ]);
+}
+
+/**
+ * The subset of the Oso client required to deliver the outbox, which lets the
+ * dispatcher run against a stub of the batch API.
+ */
+export type BatchClient = Pick<OsoClient, "batch">;
+
+// Entries which fail this many times are moved to the dead-letter view,
+// `oso_outbox_dead_letters`. They are not retried, since later entries may
+// have changed the same facts since; instead, reconcile Oso's data with the
+// database using `oso_sync.yml` (see `Dockerfile.oso_reconcile`).
+const MAX_ATTEMPTS = 10;
+const MAX_BACKOFF_SECS = 300;
+const BATCH_SIZE = 100;
+// Arbitrary key to ensure only one dispatcher delivers entries at a time,
+// which preserves their order.
+const DISPATCH_LOCK = 0x050_0b0c;
+
+/**
+ * Delivers pending outbox entries to Oso in the order they were written,
+ * returning the number of entries delivered.
+ *
+ * Entries are ordered by `id`, which reflects when each was inserted rather
+ * than when its transaction committed. Concurrent transactions that change the
+ * same fact, e.g. one deleting and another inserting it, can therefore reach
+ * Oso in the opposite order to their commits, leaving the fact as the earlier
+ * commit left it. Reconciling Oso's data with the database using
+ * `oso_sync.yml` (see `Dockerfile.oso_reconcile`) corrects such drift, as it
+ * does for dead-lettered entries.
+ *
+ * Failed entries are retried with exponential backoff; to preserve order, no
+ * later entries are delivered until the failed entry succeeds or is moved to
+ * the dead-letter view after `MAX_ATTEMPTS`.
+ *
+ * Entries are marked as delivered in the same transaction that locks them, so
+ * an entry is only redelivered if the dispatcher fails between calling Oso and
+ * committing. Because inserting an existing fact and deleting a missing fact
+ * are both no-ops, redelivery is idempotent.
+ *
+ * @throws {Error} If there is a problem with the database connection.
+ */
+export async function dispatchOutbox(
+  pool: Pool,
+  oso: BatchClient
+): Promise<number> {
+  const client = await pool.connect();
+  let dispatched = 0;
+  try {
+    await client.query("BEGIN");
+    const lock = await client.query<{ locked: boolean }>(
+      `SELECT pg_try_advisory_xact_lock($1) AS locked`,
+      [DISPATCH_LOCK]
+    );
+    if (!lock.rows[0].locked) {
+      await client.query("COMMIT");
+      return dispatched;
+    }
+
+    const pending = await client.query<{
+      id: string;
+      changes: FactChange[];
+      attempts: number;
+      due: boolean;
+    }>(
+      `SELECT id, changes, attempts, next_attempt_at <= now() AS due
+      FROM oso_outbox
+      WHERE dispatched_at IS NULL AND dead_at IS NULL
+      ORDER BY id
+      LIMIT $1`,
+      [BATCH_SIZE]
+    );
+
+    for (const entry of pending.rows) {
+      // Respect the backoff of the oldest pending entry.
+      if (!entry.due) {
+        break;
+      }
+
+      try {
+        await oso.batch((tx) => {
+          entry.changes.forEach((change) =>
+            change.op === "insert"
+              ? tx.insert(change.fact)
+              : tx.delete(change.fact)
+          );
+        });
+        await client.query(
+          `UPDATE oso_outbox
+          SET dispatched_at = now(), attempts = attempts + 1
+          WHERE id = $1`,
+          [entry.id]
+        );
+        dispatched++;
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const backoff = Math.min(2 ** attempts, MAX_BACKOFF_SECS);
+        console.error(`Error dispatching oso_outbox entry ${entry.id}:`, error);
+        await client.query(
+          `UPDATE oso_outbox
+          SET
+            attempts = $2::INTEGER,
+            last_error = $3,
+            next_attempt_at = now() + make_interval(secs => $4),
+            dead_at = CASE WHEN $2::INTEGER >= $5::INTEGER THEN now() END
+          WHERE id = $1`,
+          [entry.id, attempts, stringifyError(error), backoff, MAX_ATTEMPTS]
+        );
+        break;
+      }
+    }
+
+    await client.query("COMMIT");
+    return dispatched;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    console.error("Error in dispatchOutbox:", error);
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Periodically delivers the outbox in the background, returning a function to
+ * stop doing so.
+ */
+export function startOutboxDispatcher(
+  pool: Pool,
+  oso: BatchClient,
+  intervalMs: number = 1000
+): () => void {
+  let running = false;
+  const interval = setInterval(async () => {
+    // Do not overlap runs if delivering takes longer than `intervalMs`.
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await dispatchOutbox(pool, oso);
+    } catch {
+      // Logged by `dispatchOutbox`; retried on the next interval.
+    } finally {
+      running = false;
+    }
+  }, intervalMs);
+  return () => clearInterval(interval);
+}
@@ -1,14 +1,48 @@
-// Typescript types reflecting db_init_template.sql
+// Typescript types reflecting the schema created by migrations/
 export interface User {
   username: string;
+}
+
+// Suspended users keep their memberships, but are not permitted anything; see
+// `oso_policy.polar`.
+export type UserStatus = "active" | "suspended";
+
+export interface Membership {
+  username: string;
   org: string;
   role: string;
 }
 
 export interface Org {
   name: string;
+  // The organization this is a sub-organization of, if any.
+  parent: string | null;
 }
 
 export interface Role {
+  org: string;
   name: string;
+  // Built-in roles are defined by `oso_policy.polar`; others by the org.
+  builtin: boolean;
+}
+
+export interface RolePermission {
+  org: string;
+  role: string;
+  permission: string;
+}
+
+export interface AuditEvent {
+  id: string;
+  requestor: string;
+  action: string;
+  permission: string;
+  allowed: boolean;
+  target_type: string;
+  target_id: string;
+  org: string | null;
+  before: object | null;
+  after: object | null;
+  impersonated_by: string | null;
+  created_at: Date;
 }
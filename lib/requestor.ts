@@ -0,0 +1,45 @@
+import { headers } from "next/headers";
+
+import { usersPool as pool } from "./db";
+import { IMPERSONATION_HEADER, REQUESTOR_HEADER } from "./session";
+
+/**
+ * Returns the user on whose behalf the current request acts, i.e. the
+ * impersonated user if impersonating, or else the signed-in user.
+ *
+ * All authorization decisions should use this value, rather than any value
+ * provided by the client.
+ *
+ * Session cookies remain valid until they expire, so impersonations are
+ * checked against `impersonation_sessions`, which `middleware.ts` cannot
+ * reach from the Edge runtime. This ensures that ending an impersonation, or
+ * suspending the impersonator, takes effect immediately.
+ *
+ * @throws {Error} If the request is not signed in, or its impersonation has
+ * ended.
+ */
+export async function getRequestor(): Promise<string> {
+  const requestor = headers().get(REQUESTOR_HEADER);
+  if (!requestor) {
+    throw new Error("not signed in");
+  }
+  const impersonationId = headers().get(IMPERSONATION_HEADER);
+  if (impersonationId) {
+    const res = await pool.query(
+      `SELECT 1
+      FROM impersonation_sessions
+      JOIN users ON users.username = impersonation_sessions.real_user
+      WHERE impersonation_sessions.id = $1
+        AND impersonation_sessions.effective_user = $2
+        AND impersonation_sessions.ended_at IS NULL
+        AND users.status = 'active'`,
+      [impersonationId, requestor]
+    );
+    if (res.rowCount !== 1) {
+      throw new Error(
+        "not signed in: impersonation has ended; stop impersonating to continue"
+      );
+    }
+  }
+  return requestor;
+}
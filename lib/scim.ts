@@ -0,0 +1,715 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import {
+  editUsersRoleByUsername,
+  getReadableMemberships,
+  MembershipTransfer,
+  reactivateUser,
+  suspendUser,
+  transferUsers,
+} from "@/actions/user";
+
+import { ApiError, checkApiToken, errorStatus } from "./api";
+import { Membership, User } from "./relations";
+import { stringifyError } from "./result";
+
+// SCIM 2.0 (RFC 7643, RFC 7644) support for the endpoints under
+// `app/api/scim/v2`.
+//
+// SCIM resources map onto this application as follows:
+// - A `User` is a user, identified by their username. They have one `roles`
+//   value per organization they belong to, whose `type` is the organization.
+//   Their primary organization, i.e. the first by name, is the enterprise
+//   extension's `organization`.
+// - A `Group` is an organization, identified by its name, whose `members` are
+//   its users. Users added to a group are given the default role.
+
+export const SCIM_USER_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:User";
+export const SCIM_ENTERPRISE_USER_SCHEMA =
+  "urn:ietf:params:scim:schemas:extension:enterprise:2.0:User";
+export const SCIM_GROUP_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:Group";
+const SCIM_LIST_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:ListResponse";
+const SCIM_ERROR_SCHEMA = "urn:ietf:params:scim:api:messages:2.0:Error";
+
+// The role given to users provisioned without one.
+export const SCIM_DEFAULT_ROLE = "member";
+// The most resources returned by a single list request; see
+// `ServiceProviderConfig`.
+const SCIM_MAX_RESULTS = 1000;
+
+/**
+ * Thrown by SCIM route handlers to respond with a specific status and SCIM
+ * error type, e.g. `invalidFilter`.
+ */
+export class ScimError extends ApiError {
+  scimType: string | undefined;
+
+  constructor(status: number, message: string, scimType?: string) {
+    super(status, message);
+    this.scimType = scimType;
+  }
+}
+
+function location(request: NextRequest, path: string): string {
+  return `${request.nextUrl.origin}/api/scim/v2/${path}`;
+}
+
+/**
+ * A user as represented by SCIM, with their memberships in the organizations
+ * the requestor can read, ordered by organization.
+ */
+export interface ScimUser extends User {
+  // Whether the user is active, rather than suspended.
+  active: boolean;
+  memberships: Membership[];
+}
+
+/**
+ * Represents `user` as a SCIM `User`.
+ */
+export function toScimUser(request: NextRequest, user: ScimUser) {
+  return {
+    schemas: [SCIM_USER_SCHEMA, SCIM_ENTERPRISE_USER_SCHEMA],
+    id: user.username,
+    userName: user.username,
+    active: user.active,
+    roles: user.memberships.map((membership, i) => ({
+      value: membership.role,
+      type: membership.org,
+      primary: i === 0,
+    })),
+    groups: user.memberships.map((membership) => ({
+      value: membership.org,
+      display: membership.org,
+      $ref: location(request, `Groups/${encodeURIComponent(membership.org)}`),
+    })),
+    [SCIM_ENTERPRISE_USER_SCHEMA]: {
+      organization: user.memberships[0]?.org,
+    },
+    meta: {
+      resourceType: "User",
+      location: location(request, `Users/${encodeURIComponent(user.username)}`),
+    },
+  };
+}
+
+/**
+ * Represents organization `org`, whose users include `members`, as a SCIM
+ * `Group`.
+ */
+export function toScimGroup(
+  request: NextRequest,
+  org: string,
+  members: User[]
+) {
+  return {
+    schemas: [SCIM_GROUP_SCHEMA],
+    id: org,
+    displayName: org,
+    members: members.map((user) => ({
+      value: user.username,
+      display: user.username,
+      $ref: location(request, `Users/${encodeURIComponent(user.username)}`),
+    })),
+    meta: {
+      resourceType: "Group",
+      location: location(request, `Groups/${encodeURIComponent(org)}`),
+    },
+  };
+}
+
+/**
+ * Extracts the values SCIM filters can compare from a resource, keyed by
+ * lowercase attribute path. Multi-valued attributes return arrays, and match
+ * comparisons that any of their values match.
+ */
+export type FilterAttributes<T> = Record<
+  string,
+  (resource: T) => string | boolean | string[]
+>;
+
+type Token = { kind: "word"; text: string } | { kind: "value"; value: unknown };
+
+function tokenizeFilter(filter: string): Token[] {
+  const tokens: Token[] = [];
+  const re = /^\s*(?:"((?:[^"\\]|\\.)*)"|([^\s"]+))\s*/;
+  let pos = 0;
+  while (pos < filter.length) {
+    const match = re.exec(filter.slice(pos));
+    if (!match) {
+      throw new ScimError(
+        400,
+        `cannot parse filter ${filter}`,
+        "invalidFilter"
+      );
+    }
+    pos += match[0].length;
+    if (match[1] !== undefined) {
+      let value: unknown;
+      try {
+        value = JSON.parse(`"${match[1]}"`);
+      } catch {
+        throw new ScimError(
+          400,
+          `cannot parse filter ${filter}`,
+          "invalidFilter"
+        );
+      }
+      tokens.push({ kind: "value", value });
+    } else {
+      tokens.push({ kind: "word", text: match[2] });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Parses a SCIM `filter` into a predicate over resources.
+ *
+ * Supports the `eq`, `ne`, `co`, `sw`, `ew`, and `pr` operators, combined with
+ * `and` and `or`, but not grouping or complex attribute filters. String
+ * comparisons are case-insensitive.
+ *
+ * @throws {ScimError} If the filter is malformed or refers to an unsupported
+ * attribute.
+ */
+export function parseScimFilter<T>(
+  filter: string | null,
+  attributes: FilterAttributes<T>
+): (resource: T) => boolean {
+  if (!filter?.trim()) {
+    return () => true;
+  }
+  const tokens = tokenizeFilter(filter);
+  let pos = 0;
+  const invalid = (detail: string) =>
+    new ScimError(400, `${detail} in filter ${filter}`, "invalidFilter");
+  const word = () => {
+    const token = tokens[pos++];
+    if (token?.kind !== "word") {
+      throw invalid("expected an attribute or operator");
+    }
+    return token.text.toLowerCase();
+  };
+  const peekWord = () => {
+    const token = tokens[pos];
+    return token?.kind === "word" ? token.text.toLowerCase() : null;
+  };
+
+  const comparison = (): ((resource: T) => boolean) => {
+    const path = word();
+    const attribute = attributes[path];
+    if (!attribute) {
+      throw invalid(`unsupported attribute ${path}`);
+    }
+    const values = (resource: T) => {
+      const value = attribute(resource);
+      return Array.isArray(value) ? value : [value];
+    };
+    const op = word();
+    if (op === "pr") {
+      return (resource) => values(resource).some((value) => value !== "");
+    }
+    const token = tokens[pos++];
+    let expected: unknown;
+    if (token?.kind === "value") {
+      expected = token.value;
+    } else if (
+      token?.kind === "word" &&
+      (token.text === "true" || token.text === "false")
+    ) {
+      expected = token.text === "true";
+    } else {
+      throw invalid("expected a quoted string or boolean");
+    }
+    const normalize = (v: unknown) =>
+      typeof v === "string" ? v.toLowerCase() : v;
+    const want = normalize(expected);
+    const compare: Record<string, (have: unknown) => boolean> = {
+      eq: (have) => have === want,
+      ne: (have) => have !== want,
+      co: (have) => String(have).includes(String(want)),
+      sw: (have) => String(have).startsWith(String(want)),
+      ew: (have) => String(have).endsWith(String(want)),
+    };
+    if (!compare[op]) {
+      throw invalid(`unsupported operator ${op}`);
+    }
+    return (resource) =>
+      values(resource).some((value) => compare[op](normalize(value)));
+  };
+
+  const conjunction = () => {
+    const terms = [comparison()];
+    while (peekWord() === "and") {
+      pos++;
+      terms.push(comparison());
+    }
+    return (resource: T) => terms.every((term) => term(resource));
+  };
+
+  const terms = [conjunction()];
+  while (peekWord() === "or") {
+    pos++;
+    terms.push(conjunction());
+  }
+  if (pos !== tokens.length) {
+    throw invalid("unexpected trailing input");
+  }
+  return (resource) => terms.some((term) => term(resource));
+}
+
+/**
+ * Returns the resources matching the request's `filter`, paginated by
+ * its 1-based `startIndex` and `count`, as a SCIM `ListResponse`.
+ */
+export function listResponse<T>(
+  request: NextRequest,
+  resources: T[],
+  attributes: FilterAttributes<T>,
+  toScim: (resource: T) => object
+) {
+  const { searchParams } = request.nextUrl;
+  const matches = resources.filter(
+    parseScimFilter(searchParams.get("filter"), attributes)
+  );
+  const startIndex = Math.max(1, Number(searchParams.get("startIndex")) || 1);
+  const count = Math.min(
+    SCIM_MAX_RESULTS,
+    searchParams.has("count")
+      ? Math.max(0, Number(searchParams.get("count")) || 0)
+      : matches.length
+  );
+  const page = matches.slice(startIndex - 1, startIndex - 1 + count);
+  return {
+    schemas: [SCIM_LIST_SCHEMA],
+    totalResults: matches.length,
+    startIndex,
+    itemsPerPage: page.length,
+    Resources: page.map(toScim),
+  };
+}
+
+/**
+ * A single operation of a SCIM `PatchOp` request.
+ */
+export interface ScimPatchOperation {
+  op: "add" | "replace" | "remove";
+  path?: string;
+  value?: unknown;
+}
+
+/**
+ * Returns the operations of a SCIM `PatchOp` request body, with lowercase
+ * `op`s, as sent by some identity providers, normalized.
+ *
+ * @throws {ScimError} If `body` is not a `PatchOp`.
+ */
+export function readPatchOperations(body: unknown): ScimPatchOperation[] {
+  const operations = (body as { Operations?: unknown })?.Operations;
+  if (!Array.isArray(operations)) {
+    throw new ScimError(
+      400,
+      "expected a PatchOp with Operations",
+      "invalidSyntax"
+    );
+  }
+  return operations.map((operation: unknown) => {
+    const { op, path, value } = (
+      typeof operation === "object" && operation ? operation : {}
+    ) as { op?: unknown; path?: unknown; value?: unknown };
+    const name = String(op).toLowerCase();
+    if (name !== "add" && name !== "replace" && name !== "remove") {
+      throw new ScimError(400, `unsupported PATCH op ${name}`, "invalidSyntax");
+    }
+    if (path !== undefined && typeof path !== "string") {
+      throw new ScimError(400, "PATCH path must be a string", "invalidPath");
+    }
+    return { op: name, path, value };
+  });
+}
+
+/**
+ * The attributes SCIM filters can compare on `User`s.
+ */
+export const USER_FILTER_ATTRIBUTES: FilterAttributes<ScimUser> = {
+  id: (user) => user.username,
+  username: (user) => user.username,
+  active: (user) => user.active,
+  roles: (user) => user.memberships.map((m) => m.role),
+  "roles.value": (user) => user.memberships.map((m) => m.role),
+  groups: (user) => user.memberships.map((m) => m.org),
+  "groups.value": (user) => user.memberships.map((m) => m.org),
+  organization: (user) => user.memberships[0]?.org ?? "",
+  [`${SCIM_ENTERPRISE_USER_SCHEMA.toLowerCase()}:organization`]: (user) =>
+    user.memberships[0]?.org ?? "",
+};
+
+/**
+ * The attributes SCIM filters can compare on `Group`s, i.e. organization
+ * names.
+ */
+export const GROUP_FILTER_ATTRIBUTES: FilterAttributes<string> = {
+  id: (org) => org,
+  displayname: (org) => org,
+};
+
+/**
+ * Returns the users the requestor can read, with their memberships in the
+ * organizations the requestor can read.
+ */
+export async function getScimUsers(): Promise<ScimUser[]> {
+  const users = new Map<string, ScimUser>();
+  for (const {
+    username,
+    org,
+    role,
+    status,
+  } of await getReadableMemberships()) {
+    if (!users.has(username)) {
+      users.set(username, {
+        username,
+        active: status === "active",
+        memberships: [],
+      });
+    }
+    users.get(username)!.memberships.push({ username, org, role });
+  }
+  return Array.from(users.values());
+}
+
+/**
+ * Returns the user identified by `username`, if the requestor can read them.
+ *
+ * @throws {ScimError} If the user does not exist or the requestor cannot read
+ * them.
+ */
+export async function findScimUser(username: string): Promise<ScimUser> {
+  const users = await getScimUsers();
+  const user = users.find((user) => user.username === username);
+  if (!user) {
+    throw new ScimError(404, `cannot find User ${username}`);
+  }
+  return user;
+}
+
+/**
+ * Changes to a user requested through SCIM. Unset fields are unchanged.
+ */
+export interface ScimUserChanges {
+  userName?: string;
+  active?: boolean;
+  // Roles without an `org` apply to the user's primary organization.
+  roles?: { org?: string; role: string }[];
+  // The user's primary organization.
+  org?: string;
+}
+
+function toRoles(value: unknown): { org?: string; role: string }[] {
+  const roles = (Array.isArray(value) ? value : [value]).map((r) => {
+    const role = typeof r === "object" ? r?.value : r;
+    if (typeof role !== "string" || !role) {
+      throw new ScimError(400, "roles must contain a role", "invalidValue");
+    }
+    const org = typeof r === "object" && r?.type ? String(r.type) : undefined;
+    return { org, role };
+  });
+  if (!roles.length) {
+    throw new ScimError(400, "roles must contain a role", "invalidValue");
+  }
+  return roles;
+}
+
+function toBoolean(value: unknown): boolean {
+  // Some identity providers send booleans as strings, e.g. "False".
+  return typeof value === "string" ? value.toLowerCase() === "true" : !!value;
+}
+
+// Applies the attribute at `path` (lowercase) to `changes`. Attributes this
+// application does not store, e.g. `emails`, are ignored, so that identity
+// providers can send their full user schema.
+function applyUserAttribute(
+  changes: ScimUserChanges,
+  path: string,
+  value: unknown
+): void {
+  const enterprise = SCIM_ENTERPRISE_USER_SCHEMA.toLowerCase();
+  if (path === "username") {
+    changes.userName = String(value);
+  } else if (path === "active") {
+    changes.active = toBoolean(value);
+  } else if (
+    path === "roles" ||
+    path.startsWith("roles[") ||
+    path === "roles.value"
+  ) {
+    changes.roles = toRoles(value);
+  } else if (path === "organization" || path === `${enterprise}:organization`) {
+    changes.org = String(value);
+  } else if (path === enterprise && typeof value === "object" && value) {
+    for (const [key, v] of Object.entries(value)) {
+      applyUserAttribute(changes, key.toLowerCase(), v);
+    }
+  }
+}
+
+/**
+ * Returns the changes described by a SCIM `User` resource, e.g. a `POST` or
+ * `PUT` body.
+ */
+export function userChangesFromResource(
+  resource: Record<string, unknown>
+): ScimUserChanges {
+  const changes: ScimUserChanges = {};
+  for (const [key, value] of Object.entries(resource)) {
+    applyUserAttribute(changes, key.toLowerCase(), value);
+  }
+  return changes;
+}
+
+/**
+ * Returns the changes described by the operations of a SCIM `PatchOp`.
+ *
+ * @throws {ScimError} If an operation removes a required attribute.
+ */
+export function userChangesFromPatch(
+  operations: ScimPatchOperation[]
+): ScimUserChanges {
+  const changes: ScimUserChanges = {};
+  for (const { op, path, value } of operations) {
+    if (op === "remove") {
+      throw new ScimError(
+        400,
+        `cannot remove ${path ?? "attributes"} from a User`,
+        "mutability"
+      );
+    }
+    if (path) {
+      applyUserAttribute(changes, path.toLowerCase(), value);
+    } else if (typeof value === "object" && value) {
+      Object.assign(
+        changes,
+        userChangesFromResource(value as Record<string, unknown>)
+      );
+    }
+  }
+  return changes;
+}
+
+/**
+ * Changes to a group requested through SCIM.
+ */
+export interface ScimGroupChanges {
+  displayName?: string;
+  // Usernames of users to add to the group.
+  addMembers: string[];
+  // Usernames of users to remove from the group.
+  removeMembers: string[];
+}
+
+function toUsernames(value: unknown): string[] {
+  const members = Array.isArray(value) ? value : [value];
+  return members.map((member) =>
+    String(typeof member === "object" ? member?.value : member)
+  );
+}
+
+/**
+ * Returns the changes described by the operations of a SCIM `PatchOp` on a
+ * group whose members are currently `members`.
+ *
+ * Members are removed by value, e.g. with the path `members[value eq
+ * "alice"]`, or all at once with the path `members`.
+ *
+ * @throws {ScimError} If an operation removes members with an unsupported
+ * filter.
+ */
+export function groupChangesFromPatch(
+  operations: ScimPatchOperation[],
+  members: string[]
+): ScimGroupChanges {
+  const changes: ScimGroupChanges = { addMembers: [], removeMembers: [] };
+  for (const { op, path, value } of operations) {
+    if (op === "remove") {
+      const match = path?.match(/^members(?:\[value eq "(.*)"\])?$/i);
+      if (!match) {
+        throw new ScimError(
+          400,
+          `cannot remove ${path ?? "attributes"} from a Group`,
+          "mutability"
+        );
+      }
+      changes.removeMembers.push(
+        ...(match[1] !== undefined
+          ? [JSON.parse(`"${match[1]}"`)]
+          : value !== undefined
+          ? toUsernames(value)
+          : members)
+      );
+      continue;
+    }
+    const attributes: Record<string, unknown> = path
+      ? { [path.toLowerCase()]: value }
+      : Object.fromEntries(
+          Object.entries(value ?? {}).map(([k, v]) => [k.toLowerCase(), v])
+        );
+    if (attributes.displayname !== undefined) {
+      changes.displayName = String(attributes.displayname);
+    }
+    if (Array.isArray(attributes.members)) {
+      const usernames = toUsernames(attributes.members);
+      if (op === "replace") {
+        changes.removeMembers.push(
+          ...members.filter((member) => !usernames.includes(member))
+        );
+      }
+      changes.addMembers.push(...usernames);
+    }
+  }
+  return changes;
+}
+
+/**
+ * Applies `changes` to `user` using the same actions as the UI, and so the same
+ * authorization. Returns the updated user.
+ *
+ * Changing the user's `organization` moves their primary membership. Roles
+ * can only be changed in organizations the user already belongs to; add them
+ * to the organization's group first.
+ *
+ * Deactivating a user suspends them, and activating a suspended user
+ * reactivates them; neither changes their memberships.
+ *
+ * @throws {ScimError} If the changes rename the user, which is unsupported, or
+ * refer to organizations the user does not belong to.
+ */
+export async function updateScimUser(
+  user: ScimUser,
+  changes: ScimUserChanges
+): Promise<ScimUser> {
+  if (changes.userName !== undefined && changes.userName !== user.username) {
+    throw new ScimError(400, "cannot change userName", "mutability");
+  }
+  if (!user.memberships.length) {
+    throw new ScimError(
+      400,
+      `cannot change User ${user.username}, who belongs to no readable Organization`,
+      "mutability"
+    );
+  }
+
+  const updated: MembershipTransfer[] = user.memberships.map((membership) => ({
+    ...membership,
+    prevOrg: membership.org,
+  }));
+  const primary = updated[0];
+  if (changes.org !== undefined && changes.org !== primary.org) {
+    if (updated.some((membership) => membership.org === changes.org)) {
+      throw new ScimError(
+        409,
+        `User ${user.username} already belongs to Organization ${changes.org}`,
+        "uniqueness"
+      );
+    }
+    primary.org = changes.org;
+  }
+  for (const { org, role } of changes.roles ?? []) {
+    const membership = org
+      ? updated.find((membership) => membership.org === org)
+      : primary;
+    if (!membership) {
+      throw new ScimError(
+        400,
+        `User ${user.username} does not belong to Organization ${org}`,
+        "invalidValue"
+      );
+    }
+    membership.role = role;
+  }
+
+  await transferUsers(updated.filter((m) => m.org !== m.prevOrg));
+  await editUsersRoleByUsername(
+    updated
+      .filter(
+        (m, i) => m.org === m.prevOrg && m.role !== user.memberships[i].role
+      )
+      .map(({ username, org, role }) => ({ username, org, role }))
+  );
+  const active = changes.active ?? user.active;
+  if (active !== user.active) {
+    await (active ? reactivateUser : suspendUser)(user.username);
+  }
+  return {
+    username: user.username,
+    active,
+    memberships: updated
+      .map(({ username, org, role }) => ({ username, org, role }))
+      .sort((a, b) => a.org.localeCompare(b.org)),
+  };
+}
+
+/**
+ * Returns the request's JSON body.
+ *
+ * @throws {ScimError} If the body is not a JSON object.
+ */
+export async function readScimBody(
+  request: NextRequest
+): Promise<Record<string, unknown>> {
+  try {
+    const body: unknown = await request.json();
+    if (typeof body === "object" && body !== null && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {}
+  throw new ScimError(
+    400,
+    "request body must be a JSON object",
+    "invalidSyntax"
+  );
+}
+
+function scimResponse(body: object | null, status: number): NextResponse {
+  return new NextResponse(body === null ? null : JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/scim+json" },
+  });
+}
+
+/**
+ * Wraps a SCIM route handler, which ensures the request's bearer token is
+ * valid and converts its return value into a SCIM response, or its error into
+ * a SCIM error. Handlers return `null` to respond without a body.
+ */
+export function scimHandler<C>(
+  f: (request: NextRequest, context: C) => Promise<object | null>,
+  successStatus = 200
+): (request: NextRequest, context: C) => Promise<NextResponse> {
+  return async (request, context) => {
+    try {
+      await checkApiToken();
+      const body = await f(request, context);
+      return scimResponse(body, body === null ? 204 : successStatus);
+    } catch (error) {
+      console.error(
+        `Error in SCIM ${request.method} ${request.nextUrl.pathname}:`,
+        error
+      );
+      const status = errorStatus(error);
+      return scimResponse(
+        {
+          schemas: [SCIM_ERROR_SCHEMA],
+          status: String(status),
+          scimType:
+            error instanceof ScimError
+              ? error.scimType
+              : status === 409
+              ? "uniqueness"
+              : undefined,
+          detail: stringifyError(error),
+        },
+        status
+      );
+    }
+  };
+}
@@ -0,0 +1,234 @@
+import { cookies, headers } from "next/headers";
+
+import { getEnvVar } from "./util";
+
+// This module is used by `middleware.ts`, so must only rely on APIs available
+// in the Edge runtime, e.g. Web Crypto rather than Node's `crypto`.
+
+export const SESSION_COOKIE = "session";
+// Set by `middleware.ts` from the verified session cookie; any value the
+// client sends is discarded.
+export const REQUESTOR_HEADER = "x-requestor";
+export const SESSION_USER_HEADER = "x-session-user";
+export const ALLOW_DESTRUCTIVE_HEADER = "x-allow-destructive";
+// Identifies the session's `impersonation_sessions` row, which `getRequestor`
+// in lib/requestor.ts checks is still active.
+export const IMPERSONATION_HEADER = "x-impersonation-id";
+
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * The contents of a signed session cookie.
+ */
+export interface Session {
+  // The user who signed in.
+  username: string;
+  // The user `username` is impersonating, if any.
+  actingAs: string | null;
+  // Identifies the `impersonation_sessions` row while impersonating.
+  impersonationId: string | null;
+  // Whether destructive actions are permitted while impersonating.
+  allowDestructive: boolean;
+  // Expiry, in milliseconds since the epoch.
+  expires: number;
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+function fromBase64Url(s: string): Uint8Array {
+  const binary = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+async function sessionKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(getEnvVar("SESSION_SECRET")),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+/**
+ * Kinds of signed payloads. Every payload records its kind, so that one kind
+ * cannot be presented as another, e.g. a session cookie as a bearer token.
+ */
+export type PayloadType = "session" | "api_token";
+
+/**
+ * Serializes and signs `value` as a payload of kind `typ`, e.g. for use as a
+ * cookie value or bearer token.
+ */
+export async function signPayload(
+  typ: PayloadType,
+  value: object
+): Promise<string> {
+  const payload = toBase64Url(
+    encoder.encode(JSON.stringify({ ...value, typ }))
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await sessionKey(),
+    encoder.encode(payload)
+  );
+  return `${payload}.${toBase64Url(new Uint8Array(signature))}`;
+}
+
+/**
+ * Returns the value signed by `signPayload`, or `null` if `signed` is missing,
+ * not signed by us, or not of kind `typ`.
+ */
+export async function verifyPayload<T>(
+  typ: PayloadType,
+  signed: string | undefined
+): Promise<T | null> {
+  if (!signed) {
+    return null;
+  }
+  const [payload, signature] = signed.split(".");
+  if (!payload || !signature) {
+    return null;
+  }
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await sessionKey(),
+      fromBase64Url(signature),
+      encoder.encode(payload)
+    );
+    if (!valid) {
+      return null;
+    }
+    const value = JSON.parse(decoder.decode(fromBase64Url(payload)));
+    return value?.typ === typ ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Serializes and signs `session` for use as a cookie value.
+ */
+export async function signSession(session: Session): Promise<string> {
+  return signPayload("session", session);
+}
+
+/**
+ * Returns the session stored in a cookie value, or `null` if the value is
+ * missing, not signed by us, or expired.
+ */
+export async function verifySession(
+  value: string | undefined
+): Promise<Session | null> {
+  const session = await verifyPayload<Session>("session", value);
+  return session && session.expires > Date.now() ? session : null;
+}
+
+/**
+ * Returns the current request's session, or `null` if it is not signed in.
+ */
+export async function getSession(): Promise<Session | null> {
+  return verifySession(cookies().get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Describes the user a session is impersonating.
+ */
+export interface Impersonation {
+  actingAs: string;
+  impersonationId: string;
+  allowDestructive: boolean;
+}
+
+/**
+ * Stores a new session for `username` in the response's cookies, optionally
+ * impersonating another user.
+ *
+ * Can only be called from server actions or route handlers.
+ */
+export async function setSession(
+  username: string,
+  impersonation: Impersonation | null = null
+): Promise<void> {
+  const session: Session = {
+    username,
+    actingAs: impersonation?.actingAs ?? null,
+    impersonationId: impersonation?.impersonationId ?? null,
+    allowDestructive: impersonation?.allowDestructive ?? false,
+    expires: Date.now() + SESSION_TTL_MS,
+  };
+  cookies().set(SESSION_COOKIE, await signSession(session), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    expires: new Date(session.expires),
+  });
+}
+
+/**
+ * Removes the session from the response's cookies.
+ *
+ * Can only be called from server actions or route handlers.
+ */
+export function clearSession(): void {
+  cookies().delete(SESSION_COOKIE);
+}
+
+/**
+ * Returns the user who signed in, regardless of whom they are impersonating.
+ *
+ * @throws {Error} If the request is not signed in.
+ */
+export function getSessionUser(): string {
+  const username = headers().get(SESSION_USER_HEADER);
+  if (!username) {
+    throw new Error("not signed in");
+  }
+  return username;
+}
+
+/**
+ * Returns the signed-in user if they are impersonating the requestor, or else
+ * `null`.
+ */
+export function getImpersonator(): string | null {
+  const sessionUser = headers().get(SESSION_USER_HEADER);
+  const requestor = headers().get(REQUESTOR_HEADER);
+  return sessionUser && sessionUser !== requestor ? sessionUser : null;
+}
+
+/**
+ * Returns whether actions that destroy or overwrite data may be performed in
+ * this session. Impersonators may only do so if they allowed destructive
+ * actions when they started impersonating.
+ */
+export function destructiveAllowed(): boolean {
+  return (
+    getImpersonator() === null ||
+    headers().get(ALLOW_DESTRUCTIVE_HEADER) === "true"
+  );
+}
+
+/**
+ * Ensures that `action`, which destroys or overwrites data, may be performed
+ * in this session.
+ *
+ * @throws {Error} If impersonating without allowing destructive actions.
+ */
+export function assertDestructiveAllowed(action: string): void {
+  if (!destructiveAllowed()) {
+    throw new Error(
+      `cannot ${action} while impersonating without allowing destructive actions`
+    );
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from "next/server";
+
+import { API_TOKEN_HEADER, verifyApiToken } from "@/lib/apiTokens";
+import {
+  ALLOW_DESTRUCTIVE_HEADER,
+  IMPERSONATION_HEADER,
+  REQUESTOR_HEADER,
+  SESSION_COOKIE,
+  SESSION_USER_HEADER,
+  verifySession,
+} from "@/lib/session";
+
+// Pages that can be viewed without signing in, which must match exactly or, if
+// they end with `/`, prefix the path. Invitations are authorized by the token
+// in their path.
+const PUBLIC_PATHS = ["/login", "/invite/", "/api/openapi.json"];
+
+function isPublicPath(pathname: string): boolean {
+  return PUBLIC_PATHS.some((path) =>
+    path.endsWith("/") ? pathname.startsWith(path) : pathname === path
+  );
+}
+
+/**
+ * Derives the requestor and passes it to pages, server actions, and route
+ * handlers as a request header, which `getRequestor` reads.
+ *
+ * The requestor comes from the bearer token for the REST API under `/api`, and
+ * from the signed session cookie otherwise. Requests that are not signed in
+ * are redirected to the login page, or refused for the REST API.
+ */
+export async function middleware(request: NextRequest) {
+  const { pathname } = request.nextUrl;
+  const isPublic = isPublicPath(pathname);
+
+  // Never trust these headers from the client.
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.delete(REQUESTOR_HEADER);
+  requestHeaders.delete(SESSION_USER_HEADER);
+  requestHeaders.delete(ALLOW_DESTRUCTIVE_HEADER);
+  requestHeaders.delete(IMPERSONATION_HEADER);
+  requestHeaders.delete(API_TOKEN_HEADER);
+
+  if (pathname.startsWith("/api/")) {
+    // The API ignores session cookies so that it cannot be used for CSRF.
+    const token = await verifyApiToken(request.headers.get("authorization"));
+    if (token) {
+      requestHeaders.set(REQUESTOR_HEADER, token.username);
+      requestHeaders.set(SESSION_USER_HEADER, token.username);
+      requestHeaders.set(API_TOKEN_HEADER, token.id);
+    } else if (!isPublic) {
+      return NextResponse.json(
+        { success: false, error: "missing or invalid bearer token" },
+        { status: 401 }
+      );
+    }
+    return NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  const session = await verifySession(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  if (session) {
+    requestHeaders.set(REQUESTOR_HEADER, session.actingAs ?? session.username);
+    requestHeaders.set(SESSION_USER_HEADER, session.username);
+    requestHeaders.set(
+      ALLOW_DESTRUCTIVE_HEADER,
+      String(Boolean(session.actingAs && session.allowDestructive))
+    );
+    if (session.actingAs && session.impersonationId) {
+      requestHeaders.set(IMPERSONATION_HEADER, session.impersonationId);
+    }
+  } else if (!isPublic) {
+    return NextResponse.redirect(new URL("/login", request.url));
+  }
+
+  return NextResponse.next({ request: { headers: requestHeaders } });
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};
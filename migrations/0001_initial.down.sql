@@ -0,0 +1,30 @@
+-- Drops everything `0001_initial.up.sql` creates, which deletes all of the
+-- application's data.
+
+DROP TRIGGER role_permissions_notify_change ON role_permissions;
+DROP TRIGGER roles_notify_change ON roles;
+DROP TRIGGER organizations_notify_change ON organizations;
+DROP TRIGGER access_requests_notify_change ON access_requests;
+DROP TRIGGER invites_notify_change ON invites;
+DROP TRIGGER memberships_notify_change ON memberships;
+DROP TRIGGER users_notify_change ON users;
+DROP FUNCTION notify_change();
+
+DROP TABLE audit_events;
+DROP VIEW oso_outbox_dead_letters;
+DROP TABLE oso_outbox;
+DROP TABLE api_tokens;
+DROP TABLE user_credentials;
+DROP TABLE impersonation_sessions;
+DROP TABLE access_requests;
+DROP TABLE invites;
+DROP VIEW effective_memberships;
+DROP TABLE memberships;
+DROP TABLE users;
+DROP TABLE role_permissions;
+DROP TRIGGER organizations_builtin_roles ON organizations;
+DROP FUNCTION add_builtin_roles();
+DROP TABLE roles;
+DROP TABLE organizations;
+
+-- `pgcrypto` is left installed, as other schemas may use it.
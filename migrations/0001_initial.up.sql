@@ -0,0 +1,327 @@
+-- The application's schema when migrations were introduced, plus the bootstrap
+-- `root` user.
+
+-- Provides `crypt` for hashing passwords.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Organizations may be sub-organizations of a `parent`, whose admins are
+-- admins of the sub-organization; see oso_policy.polar. Organizations with
+-- sub-organizations cannot be deleted.
+CREATE TABLE organizations (
+	name
+		TEXT PRIMARY KEY,
+	parent
+		-- Cascade updates so that renaming an organization moves its
+		-- sub-organizations.
+		TEXT REFERENCES organizations (name) ON UPDATE CASCADE,
+	CHECK (parent <> name)
+);
+
+CREATE INDEX organizations_parent_idx ON organizations (parent);
+
+-- The roles users may have in each organization. Built-in roles are defined by
+-- oso_policy.polar and exist in every organization; other roles are defined by
+-- the organization and grant the permissions in `role_permissions`.
+CREATE TABLE roles (
+	org
+		-- Cascade updates so that renaming an organization moves its roles.
+		TEXT NOT NULL REFERENCES organizations (name)
+			ON UPDATE CASCADE ON DELETE CASCADE,
+	name
+		TEXT NOT NULL,
+	builtin
+		BOOLEAN NOT NULL DEFAULT false,
+	PRIMARY KEY (org, name)
+);
+
+-- Note that this is synchronized with oso-policy.polar
+CREATE FUNCTION add_builtin_roles() RETURNS TRIGGER AS $$
+BEGIN
+	INSERT INTO roles (org, name, builtin)
+		VALUES (NEW.name, 'member', true), (NEW.name, 'admin', true);
+	RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER organizations_builtin_roles
+	AFTER INSERT ON organizations
+	FOR EACH ROW EXECUTE FUNCTION add_builtin_roles();
+
+-- The `Organization` permissions from oso_policy.polar that custom roles grant.
+CREATE TABLE role_permissions (
+	org
+		TEXT NOT NULL,
+	"role"
+		TEXT NOT NULL,
+	permission
+		TEXT NOT NULL,
+	PRIMARY KEY (org, "role", permission),
+	FOREIGN KEY (org, "role") REFERENCES roles (org, name)
+		ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+-- Do not allow duplicate usernames.
+CREATE TABLE users (
+	username
+		TEXT PRIMARY KEY
+);
+
+-- Users' roles in the organizations they belong to. Users may belong to many
+-- organizations, with one role in each.
+CREATE TABLE memberships (
+	username
+		TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	org
+		TEXT NOT NULL,
+	"role"
+		TEXT NOT NULL,
+	-- Temporary roles revert to `revert_role` at `expires_at`; see
+	-- `effective_memberships`.
+	expires_at
+		TIMESTAMPTZ,
+	revert_role
+		TEXT,
+	PRIMARY KEY (username, org),
+	CHECK ((expires_at IS NULL) = (revert_role IS NULL)),
+	-- Cascade updates so that renaming an organization, and so its roles, moves
+	-- its users. Roles that users have cannot be deleted.
+	FOREIGN KEY (org, "role") REFERENCES roles (org, name) ON UPDATE CASCADE,
+	FOREIGN KEY (org, revert_role) REFERENCES roles (org, name) ON UPDATE CASCADE
+);
+
+CREATE INDEX memberships_org_idx ON memberships (org);
+CREATE INDEX memberships_expires_at_idx ON memberships (expires_at)
+	WHERE expires_at IS NOT NULL;
+
+-- Users' memberships with the roles currently in effect, i.e. with expired
+-- temporary roles replaced by the roles they revert to. Authorization relies on
+-- this rather than `memberships`, so that expired roles stop working
+-- immediately, before lib/expiry.ts sweeps them.
+CREATE VIEW effective_memberships AS
+	SELECT username, org,
+		CASE
+			WHEN expires_at IS NULL OR expires_at > now() THEN "role"
+			ELSE revert_role
+		END AS "role"
+	FROM memberships;
+
+-- Invitations to join an organization with a role; see actions/invites.ts.
+-- Only a hash of each invitation's token is stored, so links cannot be
+-- recovered from the database. Deleting an organization, or the role, deletes
+-- its invitations.
+CREATE TABLE invites (
+	id
+		BIGSERIAL PRIMARY KEY,
+	org
+		TEXT NOT NULL,
+	"role"
+		TEXT NOT NULL,
+	-- Describes whom the invitation is for, e.g. their email address.
+	invitee
+		TEXT NOT NULL,
+	token_hash
+		TEXT NOT NULL UNIQUE,
+	created_by
+		TEXT NOT NULL,
+	created_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	-- When the current token was issued; resending an invitation replaces it.
+	sent_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	expires_at
+		TIMESTAMPTZ NOT NULL,
+	accepted_by
+		TEXT REFERENCES users (username) ON DELETE SET NULL,
+	accepted_at
+		TIMESTAMPTZ,
+	revoked_at
+		TIMESTAMPTZ,
+	FOREIGN KEY (org, "role") REFERENCES roles (org, name)
+		ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+CREATE INDEX invites_org_idx ON invites (org);
+
+-- Members' requests for a different role in one of their organizations; see
+-- actions/accessRequests.ts. Decided requests are kept as a record of the
+-- decision. Deleting the user, the organization, or the role deletes its
+-- requests.
+CREATE TABLE access_requests (
+	id
+		BIGSERIAL PRIMARY KEY,
+	username
+		TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	org
+		TEXT NOT NULL,
+	"role"
+		TEXT NOT NULL,
+	-- Why the member wants the role.
+	reason
+		TEXT NOT NULL,
+	status
+		TEXT NOT NULL DEFAULT 'pending'
+			CHECK (status IN ('pending', 'approved', 'denied')),
+	created_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	decided_by
+		TEXT,
+	decided_at
+		TIMESTAMPTZ,
+	-- Why the request was denied; required to deny it.
+	decision_reason
+		TEXT,
+	CHECK ((status = 'pending') = (decided_at IS NULL)),
+	CHECK (status <> 'denied' OR decision_reason IS NOT NULL),
+	FOREIGN KEY (org, "role") REFERENCES roles (org, name)
+		ON UPDATE CASCADE ON DELETE CASCADE
+);
+
+-- Members may only have one pending request per organization.
+CREATE UNIQUE INDEX access_requests_pending_idx ON access_requests (username, org)
+	WHERE status = 'pending';
+
+-- Record of users acting as other users; see `startImpersonation`.
+CREATE TABLE impersonation_sessions (
+	id
+		BIGSERIAL PRIMARY KEY,
+	real_user
+		TEXT NOT NULL,
+	effective_user
+		TEXT NOT NULL,
+	allow_destructive
+		BOOLEAN NOT NULL,
+	started_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	ended_at
+		TIMESTAMPTZ
+);
+
+-- Users' passwords, hashed with `crypt`.
+CREATE TABLE user_credentials (
+	username
+		TEXT PRIMARY KEY REFERENCES users (username) ON DELETE CASCADE,
+	password_hash
+		TEXT NOT NULL
+);
+
+-- Bearer tokens for the REST API; see lib/apiTokens.ts. Tokens are signed, so
+-- only their metadata is stored here.
+CREATE TABLE api_tokens (
+	id
+		BIGSERIAL PRIMARY KEY,
+	username
+		TEXT NOT NULL REFERENCES users (username) ON DELETE CASCADE,
+	name
+		TEXT NOT NULL,
+	created_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	last_used_at
+		TIMESTAMPTZ,
+	revoked_at
+		TIMESTAMPTZ
+);
+
+-- Changes to Oso's centralized authorization data, written in the same
+-- transaction as the changes to `users` that produce them, and delivered to Oso
+-- by the dispatcher in lib/outbox.ts.
+CREATE TABLE oso_outbox (
+	id
+		BIGSERIAL PRIMARY KEY,
+	changes
+		JSONB NOT NULL,
+	created_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	attempts
+		INTEGER NOT NULL DEFAULT 0,
+	next_attempt_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	last_error
+		TEXT,
+	dispatched_at
+		TIMESTAMPTZ,
+	dead_at
+		TIMESTAMPTZ
+);
+
+-- Entries the dispatcher gave up on, whose changes reconciling Oso's data with
+-- `oso_sync.yml` restores; see lib/outbox.ts.
+CREATE VIEW oso_outbox_dead_letters AS
+	SELECT id, changes, created_at, attempts, last_error, dead_at
+	FROM oso_outbox
+	WHERE dead_at IS NOT NULL;
+
+-- Record of every change made through the application's actions, as well as
+-- every attempt Oso denied. `org` identifies the organization the target
+-- belongs to, which determines who may read the event; it is NULL if the target
+-- does not belong to an organization, e.g. a user that does not exist.
+CREATE TABLE audit_events (
+	id
+		BIGSERIAL PRIMARY KEY,
+	requestor
+		TEXT NOT NULL,
+	action
+		TEXT NOT NULL,
+	permission
+		TEXT NOT NULL,
+	allowed
+		BOOLEAN NOT NULL,
+	target_type
+		TEXT NOT NULL,
+	target_id
+		TEXT NOT NULL,
+	org
+		TEXT,
+	before
+		JSONB,
+	after
+		JSONB,
+	-- The signed-in user, if they were impersonating `requestor`.
+	impersonated_by
+		TEXT,
+	created_at
+		TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX audit_events_org_idx ON audit_events (org, id);
+
+-- Notifies `changes` listeners of which kind of data changed, i.e. `users` or
+-- `orgs`, which lib/changeFeed.ts streams to browsers. Notifications are only
+-- delivered once the transaction commits, and identical ones are sent once per
+-- transaction.
+CREATE FUNCTION notify_change() RETURNS TRIGGER AS $$
+BEGIN
+	PERFORM pg_notify('changes', TG_ARGV[0]);
+	RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER users_notify_change
+	AFTER INSERT OR UPDATE OR DELETE ON users
+	FOR EACH STATEMENT EXECUTE FUNCTION notify_change('users');
+CREATE TRIGGER memberships_notify_change
+	AFTER INSERT OR UPDATE OR DELETE ON memberships
+	FOR EACH STATEMENT EXECUTE FUNCTION notify_change('users');
+CREATE TRIGGER invites_notify_change
+	AFTER INSERT OR UPDATE OR DELETE ON invites
+	FOR EACH STATEMENT EXECUTE FUNCTION notify_change('users');
+CREATE TRIGGER access_requests_notify_change
+	AFTER INSERT OR UPDATE OR DELETE ON access_requests
+	FOR EACH STATEMENT EXECUTE FUNCTION notify_change('users');
+CREATE TRIGGER organizations_notify_change
+	AFTER INSERT OR UPDATE OR DELETE ON organizations
+	FOR EACH STATEMENT EXECUTE FUNCTION notify_change('orgs');
+CREATE TRIGGER roles_notify_change
+	AFTER INSERT OR UPDATE OR DELETE ON roles
+	FOR EACH STATEMENT EXECUTE FUNCTION notify_change('orgs');
+CREATE TRIGGER role_permissions_notify_change
+	AFTER INSERT OR UPDATE OR DELETE ON role_permissions
+	FOR EACH STATEMENT EXECUTE FUNCTION notify_change('orgs');
+
+-- Our special `global` organization
+INSERT INTO organizations (name) VALUES ('_root');
+-- A default, bootstrap user
+INSERT INTO users (username) VALUES ('root');
+INSERT INTO memberships (username, org, "role") VALUES ('root', '_root', 'admin');
+-- `yarn migrate` binds `${...}` to environment variables.
+INSERT INTO user_credentials (username, password_hash)
+	VALUES ('root', crypt(${ROOT_PASSWORD}, gen_salt('bf')));
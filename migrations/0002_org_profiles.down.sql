@@ -0,0 +1,8 @@
+-- Drops organizations' profiles, which deletes their display names and
+-- descriptions.
+
+ALTER TABLE organizations
+	DROP COLUMN created_by,
+	DROP COLUMN created_at,
+	DROP COLUMN description,
+	DROP COLUMN display_name;
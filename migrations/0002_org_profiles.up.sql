@@ -0,0 +1,29 @@
+-- Adds profiles to organizations: a display name and description, which users
+-- with `edit` on the organization can change, and who created it and when.
+
+ALTER TABLE organizations
+	-- Shown instead of `name` where set.
+	ADD COLUMN display_name
+		TEXT,
+	ADD COLUMN description
+		TEXT NOT NULL DEFAULT '',
+	ADD COLUMN created_at
+		TIMESTAMPTZ NOT NULL DEFAULT now(),
+	-- NULL if the creator was deleted, or for organizations that predate this
+	-- column and whose creation is not in the audit log.
+	ADD COLUMN created_by
+		TEXT REFERENCES users (username) ON DELETE SET NULL;
+
+-- Backfill existing organizations from the latest audit event creating an
+-- organization with their name. Renamed organizations keep the time this
+-- migration ran, as their creation was recorded under another name.
+UPDATE organizations
+SET created_at = created.created_at, created_by = users.username
+FROM (
+	SELECT DISTINCT ON (target_id) target_id, requestor, created_at
+	FROM audit_events
+	WHERE action = 'createOrg' AND allowed
+	ORDER BY target_id, id DESC
+) AS created
+LEFT JOIN users ON users.username = created.requestor
+WHERE created.target_id = organizations.name;
@@ -0,0 +1,37 @@
+-- Drops users' status, which reactivates every suspended user.
+
+-- Restore the facts that Oso's centralized authorization data had before
+-- 0003_user_status.up.sql; see there.
+WITH changes (username, op, fact) AS (
+	SELECT username, 'delete',
+		jsonb_build_array(
+			'has_status', jsonb_build_object('type', 'User', 'id', username), status
+		)
+	FROM users
+	UNION ALL
+	SELECT username, renames.op,
+		jsonb_build_array(
+			renames.predicate, jsonb_build_object('type', 'User', 'id', username),
+			"role", jsonb_build_object('type', 'Organization', 'id', org)
+		)
+	FROM effective_memberships,
+		(VALUES ('delete', 'has_assigned_role'), ('insert', 'has_role'))
+			AS renames (op, predicate)
+	UNION ALL
+	SELECT username, renames.op,
+		jsonb_build_array(
+			renames.predicate, jsonb_build_object('type', 'User', 'id', username),
+			"role"
+		)
+	FROM effective_memberships,
+		(VALUES ('delete', 'has_assigned_role'), ('insert', 'has_role'))
+			AS renames (op, predicate)
+	WHERE org = '_root'
+)
+INSERT INTO oso_outbox (changes)
+SELECT jsonb_agg(jsonb_build_object('op', op, 'fact', fact))
+FROM changes
+GROUP BY username
+ORDER BY username;
+
+ALTER TABLE users DROP COLUMN status;
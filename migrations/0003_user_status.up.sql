@@ -0,0 +1,44 @@
+-- Adds a status to users, so that they can be suspended rather than deleted.
+-- Suspended users keep their memberships, but have no roles, and so no
+-- permissions; see `has_role` in oso_policy.polar.
+
+ALTER TABLE users
+	ADD COLUMN status
+		TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'suspended'));
+
+-- Sync existing users to Oso's centralized authorization data, which the policy
+-- now requires to have every user's `has_status`, and their roles as
+-- `has_assigned_role` rather than `has_role`. Each user's changes are one
+-- outbox entry; see lib/outbox.ts.
+WITH changes (username, op, fact) AS (
+	SELECT username, 'insert',
+		jsonb_build_array(
+			'has_status', jsonb_build_object('type', 'User', 'id', username), status
+		)
+	FROM users
+	UNION ALL
+	SELECT username, renames.op,
+		jsonb_build_array(
+			renames.predicate, jsonb_build_object('type', 'User', 'id', username),
+			"role", jsonb_build_object('type', 'Organization', 'id', org)
+		)
+	FROM effective_memberships,
+		(VALUES ('delete', 'has_role'), ('insert', 'has_assigned_role'))
+			AS renames (op, predicate)
+	UNION ALL
+	-- Roles in `_root` are also `global` roles.
+	SELECT username, renames.op,
+		jsonb_build_array(
+			renames.predicate, jsonb_build_object('type', 'User', 'id', username),
+			"role"
+		)
+	FROM effective_memberships,
+		(VALUES ('delete', 'has_role'), ('insert', 'has_assigned_role'))
+			AS renames (op, predicate)
+	WHERE org = '_root'
+)
+INSERT INTO oso_outbox (changes)
+SELECT jsonb_agg(jsonb_build_object('op', op, 'fact', fact))
+FROM changes
+GROUP BY username
+ORDER BY username;
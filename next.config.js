@@ -1,5 +1,9 @@
 // next.config.js
 module.exports = {
+  experimental: {
+    // Runs `instrumentation.ts`, which starts the Oso outbox dispatcher.
+    instrumentationHook: true,
+  },
   async redirects() {
     return [
       {
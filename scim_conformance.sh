@@ -0,0 +1,157 @@
+#!/bin/bash
+
+# Exercises the SCIM 2.0 endpoints under /api/scim/v2 against a running app,
+# checking the statuses and bodies an identity provider relies on.
+#
+# Usage: ./scim_conformance.sh <api token> [base url]
+#
+# Create the API token on the user page of a user with the global `create_org`
+# permission, e.g. `root`. The script creates, modifies, and removes its own
+# organization and user, named `scim-test-*`.
+
+set -u
+
+if [ $# -lt 1 ]; then
+    echo "Usage: $0 <api token> [base url]"
+    exit 1
+fi
+for cmd in curl jq; do
+    if ! command -v "$cmd" > /dev/null; then
+        echo "Error: $cmd is required"
+        exit 1
+    fi
+done
+
+TOKEN="$1"
+BASE_URL="${2:-http://localhost:3000}/api/scim/v2"
+SUFFIX="$(date +%s)"
+ORG="scim-test-org-$SUFFIX"
+USER="scim-test-user-$SUFFIX"
+FAILURES=0
+
+# Sends a request, storing the status in $STATUS and the body in $BODY.
+scim() {
+    local method="$1" path="$2" data="${3:-}"
+    local response args=()
+    if [ -n "$data" ]; then
+        args=(--data "$data")
+    fi
+    response="$(curl -s -w '\n%{http_code}' -X "$method" \
+        -H "Authorization: Bearer $TOKEN" \
+        -H "Content-Type: application/scim+json" \
+        ${args[@]+"${args[@]}"} \
+        "$BASE_URL$path")"
+    STATUS="${response##*$'\n'}"
+    BODY="${response%$'\n'*}"
+}
+
+# Checks that the last response had status $2 and, optionally, that the jq
+# expression $3 is true of its body.
+check() {
+    local name="$1" status="$2" expr="${3:-}"
+    if [ "$STATUS" != "$status" ]; then
+        echo "FAIL: $name: expected status $status, got $STATUS: $BODY"
+        FAILURES=$((FAILURES + 1))
+    elif [ -n "$expr" ] && [ "$(echo "$BODY" | jq "$expr")" != "true" ]; then
+        echo "FAIL: $name: expected $expr: $BODY"
+        FAILURES=$((FAILURES + 1))
+    else
+        echo "PASS: $name"
+    fi
+}
+
+scim GET /ServiceProviderConfig
+check "service provider config" 200 '.patch.supported and .filter.supported'
+
+STATUS="$(curl -s -o /dev/null -w '%{http_code}' "$BASE_URL/Users")"
+BODY=""
+check "require bearer token" 401
+
+scim POST /Groups "{\"schemas\": [\"urn:ietf:params:scim:schemas:core:2.0:Group\"], \"displayName\": \"$ORG\"}"
+check "create group" 201 ".id == \"$ORG\" and .members == []"
+
+USER_BODY="{
+  \"schemas\": [
+    \"urn:ietf:params:scim:schemas:core:2.0:User\",
+    \"urn:ietf:params:scim:schemas:extension:enterprise:2.0:User\"
+  ],
+  \"userName\": \"$USER\",
+  \"active\": true,
+  \"emails\": [{\"value\": \"$USER@example.com\", \"primary\": true}],
+  \"urn:ietf:params:scim:schemas:extension:enterprise:2.0:User\": {
+    \"organization\": \"$ORG\"
+  }
+}"
+scim POST /Users "$USER_BODY"
+check "create user" 201 ".userName == \"$USER\" and .roles[0].value == \"member\" and .active"
+
+scim POST /Users "$USER_BODY"
+check "create duplicate user" 409 '.scimType == "uniqueness"'
+
+scim GET "/Users/$USER"
+check "get user" 200 ".id == \"$USER\""
+
+scim GET "/Users?filter=$(jq -rn --arg f "userName eq \"$USER\"" '$f|@uri')"
+check "filter users" 200 ".totalResults == 1 and .Resources[0].userName == \"$USER\""
+
+scim GET "/Users?filter=$(jq -rn --arg f "userName eq \"$USER\" and roles.value eq \"admin\"" '$f|@uri')"
+check "filter users with and" 200 '.totalResults == 0'
+
+scim GET "/Users?startIndex=1&count=1"
+check "paginate users" 200 '.itemsPerPage <= 1 and .startIndex == 1'
+
+scim GET "/Users?filter=$(jq -rn '"nickName eq \"x\""|@uri')"
+check "reject unsupported filter" 400 '.scimType == "invalidFilter"'
+
+scim PATCH "/Users/$USER" '{
+  "schemas": ["urn:ietf:params:scim:api:messages:2.0:PatchOp"],
+  "Operations": [
+    {"op": "replace", "path": "roles", "value": [{"value": "admin", "primary": true}]}
+  ]
+}'
+check "patch role" 200 '.roles[0].value == "admin"'
+
+scim GET "/Groups/$ORG"
+check "group lists members" 200 "[.members[].value] == [\"$USER\"]"
+
+scim PATCH "/Groups/$ORG" "{
+  \"schemas\": [\"urn:ietf:params:scim:api:messages:2.0:PatchOp\"],
+  \"Operations\": [{\"op\": \"remove\", \"path\": \"members[value eq \\\"$USER\\\"]\"}]
+}"
+check "refuse to remove user from their only group" 400
+
+scim DELETE "/Groups/$ORG"
+check "refuse to delete group with members" 400
+
+scim PATCH "/Users/$USER" '{
+  "schemas": ["urn:ietf:params:scim:api:messages:2.0:PatchOp"],
+  "Operations": [{"op": "Replace", "value": {"active": "False"}}]
+}'
+check "deactivate user" 200 '.active == false'
+
+scim GET "/Users?filter=$(jq -rn '"active eq false"|@uri')"
+check "filter deactivated users" 200 "any(.Resources[]; .userName == \"$USER\")"
+
+scim PATCH "/Users/$USER" '{
+  "schemas": ["urn:ietf:params:scim:api:messages:2.0:PatchOp"],
+  "Operations": [{"op": "replace", "path": "active", "value": true}]
+}'
+check "reactivate user" 200 '.active'
+
+scim DELETE "/Users/$USER"
+check "delete user" 204
+
+scim GET "/Users/$USER"
+check "deleted user is gone" 404
+
+scim DELETE "/Groups/$ORG"
+check "delete group" 204
+
+scim GET "/Groups/$ORG"
+check "deleted group is gone" 404
+
+if [ "$FAILURES" -ne 0 ]; then
+    echo "$FAILURES checks failed"
+    exit 1
+fi
+echo "All checks passed"
@@ -0,0 +1,280 @@
+// Checks that the Polar policy, the SQL schema, and the data bindings agree:
+//
+//   yarn check-authz          # Reports every inconsistency, failing if any.
+//   yarn check-authz --write  # First regenerates both data binding files
+//                             # from lib/dataBindings.ts.
+//
+// Specifically, that:
+// - Every fact the policy uses has a binding, and every binding is used.
+// - Both data binding files bind the same facts with the same queries, as
+//   generated from lib/dataBindings.ts.
+// - The built-in roles `add_builtin_roles` creates in migrations/ are the
+//   roles of `resource Organization`.
+
+import { readdirSync, readFileSync, writeFileSync } from "fs";
+import path from "path";
+
+import {
+  FactQuery,
+  parseFactQueries,
+  renderLocalAuthConfig,
+  renderSyncConfig,
+} from "../lib/dataBindings";
+import { parsePolicy, parseRules } from "../lib/explain";
+
+const POLICY = "oso_policy.polar";
+const LOCAL_AUTH_CONFIG = "oso_local_auth_user_mgmt.yml";
+const SYNC_CONFIG = "env_template_oso_sync.yml";
+const MIGRATIONS_DIR = "migrations";
+// The actor type whose roles the policy's `has_role` facts describe.
+const ACTOR = "User";
+// Predicates that Oso and shorthand rules define, so have no data bindings.
+const BUILTIN_PREDICATES = ["allow", "has_permission"];
+
+const problems: string[] = [];
+
+function report(file: string, line: number, message: string): void {
+  problems.push(`${file}:${line}: ${message}`);
+}
+
+function read(file: string): string {
+  return readFileSync(path.join(process.cwd(), file), "utf8");
+}
+
+// The 1-based line of `index` in `source`.
+function lineOf(source: string, index: number): number {
+  return source.slice(0, index).split("\n").length;
+}
+
+// Removes insignificant whitespace, so that equivalent signatures and queries
+// compare equal.
+function normalize(text: string): string {
+  return text
+    .replace(/\s+/g, " ")
+    .replace(/\s*([(),])\s*/g, "$1")
+    .trim();
+}
+
+/**
+ * The signatures of the facts the policy uses, e.g.
+ * `has_role(User:_,String:_,Organization:_)`, with the line of the policy that
+ * uses each.
+ */
+function policyFacts(source: string): Map<string, number> {
+  const facts = new Map<string, number>();
+  const use = (signature: string, index: number) => {
+    if (!facts.has(signature)) {
+      facts.set(signature, lineOf(source, index));
+    }
+  };
+  // Blank out comments rather than removing them, to preserve positions.
+  const text = source.replace(/#.*$/gm, (comment) =>
+    " ".repeat(comment.length)
+  );
+
+  const policy = parsePolicy(source);
+  // Predicates that rules define, rather than facts, e.g. `has_role` if roles
+  // are derived from other facts.
+  const rulePredicates = new Set([
+    ...BUILTIN_PREDICATES,
+    ...parseRules(source).map((rule) => rule.name),
+  ]);
+  const header = /(?:(?:resource|actor)\s+(\w+)|(global))\s*\{/g;
+  const blocks: [number, number][] = [];
+  let match;
+  while ((match = header.exec(text)) !== null) {
+    const type = match[1] ?? match[2];
+    const block = policy.get(type)!;
+    if (block.roles.length && !rulePredicates.has("has_role")) {
+      use(
+        type === "global"
+          ? `has_role(${ACTOR}:_,String:_)`
+          : `has_role(${ACTOR}:_,String:_,${type}:_)`,
+        match.index
+      );
+    }
+    block.relations.forEach((target, relation) =>
+      use(`has_relation(${type}:_,${relation},${target}:_)`, match!.index)
+    );
+
+    // Skip to the end of the block, accounting for nested braces.
+    let depth = 1;
+    let end = header.lastIndex;
+    while (depth > 0 && end < text.length) {
+      depth += text[end] === "{" ? 1 : text[end] === "}" ? -1 : 0;
+      end++;
+    }
+    blocks.push([match.index, end]);
+    header.lastIndex = end;
+  }
+
+  // Other rules may use facts in their bodies, e.g. `grants_permission`. The
+  // types of their arguments come from the rule's parameters and `matches`,
+  // or are `String` for string literals.
+  let start = 0;
+  for (const [blockStart, blockEnd] of [
+    ...blocks,
+    [text.length, text.length],
+  ]) {
+    const rules = text.slice(start, blockStart);
+    const rule = /(\w+)\(([^)]*)\)\s+if\s+([^;]*);/g;
+    while ((match = rule.exec(rules)) !== null) {
+      const types = new Map<string, string>();
+      for (const [, name, type] of Array.from(
+        `${match[2]} ${match[3]}`.matchAll(/(\w+)(?::|\s+matches)\s*(\w+)/g)
+      )) {
+        types.set(name, type);
+      }
+      for (const call of Array.from(match[3].matchAll(/(\w+)\(([^)]*)\)/g))) {
+        // Rules, rather than facts, define these.
+        if (rulePredicates.has(call[1])) {
+          continue;
+        }
+        const args = call[2].split(",").map((arg) => arg.trim());
+        use(
+          `${call[1]}(${args
+            .map((arg) =>
+              types.has(arg)
+                ? `${types.get(arg)}:_`
+                : /^".*"$/.test(arg)
+                ? "String:_"
+                : arg
+            )
+            .join(",")})`,
+          start + match.index + match[0].indexOf(call[0])
+        );
+      }
+    }
+    start = blockEnd;
+  }
+  return facts;
+}
+
+function checkBindings(
+  policy: string,
+  used: Map<string, number>,
+  file: string,
+  facts: FactQuery[]
+): void {
+  const bound = new Set<string>();
+  for (const fact of facts) {
+    const signature = normalize(fact.signature);
+    if (bound.has(signature)) {
+      report(file, fact.line, `${fact.signature} is bound more than once`);
+    }
+    bound.add(signature);
+    if (!used.has(signature)) {
+      report(file, fact.line, `${fact.signature} is not used by ${policy}`);
+    }
+  }
+  used.forEach((line, signature) => {
+    if (!bound.has(signature)) {
+      report(policy, line, `uses ${signature}, which ${file} does not bind`);
+    }
+  });
+}
+
+function checkQueriesAgree(
+  localFacts: FactQuery[],
+  syncFacts: FactQuery[]
+): void {
+  const syncBySignature = new Map(
+    syncFacts.map((fact) => [normalize(fact.signature), fact])
+  );
+  for (const local of localFacts) {
+    const sync = syncBySignature.get(normalize(local.signature));
+    if (sync && normalize(sync.sql) !== normalize(local.sql)) {
+      report(
+        SYNC_CONFIG,
+        sync.line,
+        `query for ${sync.signature} differs from ${LOCAL_AUTH_CONFIG}:${local.line}`
+      );
+    }
+  }
+}
+
+// Checks that the built-in roles created by the latest migration to define
+// `add_builtin_roles` are the roles of `resource Organization`.
+function checkBuiltinRoles(policySource: string): void {
+  const policyRoles =
+    parsePolicy(policySource).get("Organization")?.roles ?? [];
+  const migrations = readdirSync(path.join(process.cwd(), MIGRATIONS_DIR))
+    .filter((file) => /^\d+_\w+\.up\.sql$/.test(file))
+    .sort((a, b) => parseInt(a) - parseInt(b));
+
+  for (const migration of migrations.reverse()) {
+    const file = path.join(MIGRATIONS_DIR, migration);
+    const sql = read(file);
+    const definition = sql.match(
+      /CREATE (?:OR REPLACE )?FUNCTION add_builtin_roles\(\)[\s\S]*?\$\$([\s\S]*?)\$\$/
+    );
+    if (!definition) {
+      continue;
+    }
+    const line = lineOf(sql, definition.index!);
+    const roles = Array.from(
+      definition[1].matchAll(/'(\w+)',\s*true/g),
+      (m) => m[1]
+    );
+    roles
+      .filter((role) => !policyRoles.includes(role))
+      .forEach((role) =>
+        report(
+          file,
+          line,
+          `built-in role ${role} is not a role of Organization in ${POLICY}`
+        )
+      );
+    policyRoles
+      .filter((role) => !roles.includes(role))
+      .forEach((role) =>
+        report(
+          file,
+          line,
+          `role ${role} of Organization in ${POLICY} is not a built-in role`
+        )
+      );
+    return;
+  }
+  report(MIGRATIONS_DIR, 1, "no migration defines add_builtin_roles");
+}
+
+function main(args: string[]): void {
+  const generated: [string, string][] = [
+    [LOCAL_AUTH_CONFIG, renderLocalAuthConfig()],
+    [SYNC_CONFIG, renderSyncConfig()],
+  ];
+  if (args.includes("--write")) {
+    generated.forEach(([file, contents]) =>
+      writeFileSync(path.join(process.cwd(), file), contents)
+    );
+  }
+
+  const policy = read(POLICY);
+  const used = policyFacts(policy);
+  const localFacts = parseFactQueries(read(LOCAL_AUTH_CONFIG));
+  const syncFacts = parseFactQueries(read(SYNC_CONFIG));
+
+  checkBindings(POLICY, used, LOCAL_AUTH_CONFIG, localFacts);
+  checkBindings(POLICY, used, SYNC_CONFIG, syncFacts);
+  checkQueriesAgree(localFacts, syncFacts);
+  checkBuiltinRoles(policy);
+  generated.forEach(([file, contents]) => {
+    if (read(file) !== contents) {
+      report(
+        file,
+        1,
+        "differs from lib/dataBindings.ts; run `yarn check-authz --write`"
+      );
+    }
+  });
+
+  if (problems.length) {
+    problems.forEach((problem) => console.error(problem));
+    process.exitCode = 1;
+  } else {
+    console.log("Policy, schema, and data bindings are consistent");
+  }
+}
+
+main(process.argv.slice(2));
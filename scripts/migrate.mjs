@@ -0,0 +1,248 @@
+// Applies and reverts the numbered migrations in `migrations/`:
+//
+//   yarn migrate status  # Lists the migrations and whether each is applied.
+//   yarn migrate up      # Applies every pending migration.
+//   yarn migrate down    # Reverts the latest applied migration.
+//   yarn migrate to <n>  # Applies or reverts migrations so that <n> is the
+//                        # latest applied; `to 0` reverts every migration.
+//
+// Each migration is a pair of files, `<version>_<name>.up.sql` and
+// `<version>_<name>.down.sql`, which run in their own transaction and are
+// recorded in `schema_migrations`. `${NAME}` in them is a text expression for
+// the environment variable `NAME`, which is passed to the database as a bind
+// parameter rather than pasted into the SQL, so it needs no quoting.
+//
+// Connects using the same `DB_` environment variables as lib/db.ts.
+
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import pg from "pg";
+
+const MIGRATIONS_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  "..",
+  "migrations"
+);
+// Arbitrary key to ensure only one process migrates at a time.
+const MIGRATE_LOCK = 0x6d16_2a7e;
+
+function getEnvVar(key) {
+  const value = process.env[key];
+  if (typeof value !== "string") {
+    throw new Error(
+      `Environment variable ${key} is not a string or is undefined`
+    );
+  }
+  return value;
+}
+
+// Lists the migrations in `migrations/`, ordered by version.
+function loadMigrations() {
+  const files = readdirSync(MIGRATIONS_DIR);
+  const migrations = files.flatMap((file) => {
+    const match = file.match(/^(\d+)_(\w+)\.up\.sql$/);
+    if (!match) {
+      return [];
+    }
+    const down = file.replace(/\.up\.sql$/, ".down.sql");
+    if (!files.includes(down)) {
+      throw new Error(`migration ${file} has no ${down}`);
+    }
+    return [{ version: Number(match[1]), name: match[2], up: file, down }];
+  });
+  migrations.sort((a, b) => a.version - b.version);
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version === migrations[i - 1].version) {
+      throw new Error(`there are several migrations ${migration.version}`);
+    }
+  });
+  return migrations;
+}
+
+// Reads the SQL of `file`, returning it with each `${NAME}` replaced by a
+// setting that `bindEnvVars` sets to the environment variable `NAME`.
+function readSql(file) {
+  const names = new Set();
+  const text = readFileSync(path.join(MIGRATIONS_DIR, file), "utf8").replace(
+    /\$\{(\w+)\}/g,
+    (_, key) => {
+      names.add(key);
+      return `current_setting('migrate.${key.toLowerCase()}')`;
+    }
+  );
+  return { text, names };
+}
+
+// Sets the settings that `readSql` refers to for the rest of the current
+// transaction.
+async function bindEnvVars(client, names) {
+  for (const name of names) {
+    await client.query(`SELECT set_config($1, $2, true)`, [
+      `migrate.${name.toLowerCase()}`,
+      getEnvVar(name),
+    ]);
+  }
+}
+
+async function ensureMigrationsTable(client) {
+  const res = await client.query(
+    `SELECT
+      to_regclass('schema_migrations') IS NOT NULL AS migrated,
+      to_regclass('organizations') IS NOT NULL AS initialized`
+  );
+  const { migrated, initialized } = res.rows[0];
+  if (migrated) {
+    return;
+  }
+  // Databases created before migrations, e.g. by the one-shot init script that
+  // preceded them, have a schema that no migration upgrades from, and that the
+  // first migration would fail to create over.
+  if (initialized) {
+    throw new Error(
+      "the users database has a schema that predates migrations; export its " +
+        "data and recreate the database, e.g. with `docker compose down -v`, " +
+        "then run `yarn migrate up` and import the data"
+    );
+  }
+  await client.query(
+    `CREATE TABLE schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`
+  );
+}
+
+async function run(client, migration, direction) {
+  const { text, names } = readSql(migration[direction]);
+  await client.query("BEGIN");
+  try {
+    await bindEnvVars(client, names);
+    await client.query(text);
+    if (direction === "up") {
+      await client.query(
+        `INSERT INTO schema_migrations (version, name) VALUES ($1, $2)`,
+        [migration.version, migration.name]
+      );
+    } else {
+      await client.query(`DELETE FROM schema_migrations WHERE version = $1`, [
+        migration.version,
+      ]);
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  }
+  console.log(
+    `${direction === "up" ? "Applied" : "Reverted"} ${migration.version}_${
+      migration.name
+    }`
+  );
+}
+
+// Reverts applied migrations after `target`, then applies pending migrations
+// up to `target`.
+async function migrateTo(client, migrations, applied, target) {
+  const missing = [...applied].filter(
+    (version) =>
+      version > target && !migrations.some((m) => m.version === version)
+  );
+  if (missing.length) {
+    throw new Error(
+      `cannot revert migrations missing from migrations/: ${missing.join(", ")}`
+    );
+  }
+
+  let changed = false;
+  for (const migration of [...migrations].reverse()) {
+    if (migration.version > target && applied.has(migration.version)) {
+      await run(client, migration, "down");
+      changed = true;
+    }
+  }
+  for (const migration of migrations) {
+    if (migration.version <= target && !applied.has(migration.version)) {
+      await run(client, migration, "up");
+      changed = true;
+    }
+  }
+  if (!changed) {
+    console.log(`Already at ${target}`);
+  }
+}
+
+async function main([command, arg]) {
+  const pool = new pg.Pool({
+    connectionString: `postgresql://${getEnvVar("DB_USER")}:${getEnvVar(
+      "DB_PASS"
+    )}@${getEnvVar("DB_HOST")}:${getEnvVar(
+      "DB_PORT"
+    )}/users?sslmode=${getEnvVar("DB_SSL")}`,
+  });
+  const client = await pool.connect();
+  try {
+    await client.query(`SELECT pg_advisory_lock($1)`, [MIGRATE_LOCK]);
+    await ensureMigrationsTable(client);
+    const migrations = loadMigrations();
+    const res = await client.query(
+      `SELECT version FROM schema_migrations ORDER BY version`
+    );
+    const applied = new Set(res.rows.map((row) => row.version));
+    const latest = Math.max(0, ...applied);
+
+    switch (command) {
+      case "status":
+        for (const migration of migrations) {
+          const status = applied.has(migration.version) ? "applied" : "pending";
+          console.log(`${status}\t${migration.version}_${migration.name}`);
+        }
+        for (const version of applied) {
+          if (!migrations.some((m) => m.version === version)) {
+            console.log(`applied\t${version} (missing from migrations/)`);
+          }
+        }
+        break;
+      case "up":
+        await migrateTo(
+          client,
+          migrations,
+          applied,
+          Math.max(latest, ...migrations.map((m) => m.version))
+        );
+        break;
+      case "down": {
+        const previous = Math.max(
+          0,
+          ...[...applied].filter((version) => version < latest)
+        );
+        await migrateTo(client, migrations, applied, previous);
+        break;
+      }
+      case "to": {
+        const target = Number(arg);
+        if (
+          !Number.isInteger(target) ||
+          (target !== 0 && !migrations.some((m) => m.version === target))
+        ) {
+          throw new Error(`cannot find migration ${arg}`);
+        }
+        await migrateTo(client, migrations, applied, target);
+        break;
+      }
+      default:
+        throw new Error(
+          `unknown command ${command}; use status, up, down, or to <version>`
+        );
+    }
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+main(process.argv.slice(2)).catch((error) => {
+  console.error("Error migrating:", error.message ?? error);
+  process.exitCode = 1;
+});
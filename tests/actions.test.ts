@@ -0,0 +1,535 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import {
+  approveAccessRequest,
+  createAccessRequest,
+  denyAccessRequest,
+  getPendingAccessRequests,
+} from "@/actions/accessRequests";
+import { getAuditEvents } from "@/actions/audit";
+import { explainPermission } from "@/actions/explain";
+import { importUsers, previewUserImport } from "@/actions/import";
+import { acceptInvite, createInvite, revokeInvite } from "@/actions/invites";
+import { getPermissionMatrix } from "@/actions/matrix";
+import {
+  createOrg,
+  deleteOrg,
+  editOrgProfile,
+  getOrgProfile,
+  getReadableOrgs,
+  renameOrg,
+} from "@/actions/org";
+import {
+  login,
+  startImpersonation,
+  stopImpersonation,
+} from "@/actions/session";
+import {
+  addMembership,
+  createUser,
+  deleteUser,
+  editUsersRoleByUsername,
+  getReadableMembershipsPage,
+  getUserWOrgPermissions,
+  reactivateUser,
+  removeMembership,
+  suspendUser,
+  transferUsers,
+} from "@/actions/user";
+import { SESSION_COOKIE } from "@/lib/session";
+import {
+  expectSuccess,
+  form,
+  newUser,
+  query,
+  rolesOf,
+  signIn,
+  signInWithSessionCookie,
+} from "./helpers";
+import { requestCookies } from "./request";
+
+// Exercises each action against a real database and the local stand-in for Oso
+// Cloud, as the app's pages would call them.
+
+beforeAll(async () => {
+  signIn("root");
+  expectSuccess(await createOrg(null, form({ orgName: "acme" })));
+  expectSuccess(await createOrg(null, form({ orgName: "globex" })));
+  expectSuccess(
+    await createOrg(null, form({ orgName: "acme-eng", parent: "acme" }))
+  );
+  await newUser("alice", "acme", "admin");
+  await newUser("bob", "acme", "member");
+  await newUser("gina", "globex", "admin");
+});
+
+describe("organizations", () => {
+  it("lets admins read and edit their organizations' profiles", async () => {
+    signIn("alice");
+    const profile = await getOrgProfile("acme");
+    expect(profile.created_by).toBe("root");
+    expect(profile.actions).toContain("edit");
+
+    expectSuccess(
+      await editOrgProfile(
+        "acme",
+        null,
+        form({ displayName: "Acme", description: "Anvils" })
+      )
+    );
+    expect(await getOrgProfile("acme")).toMatchObject({
+      display_name: "Acme",
+      description: "Anvils",
+    });
+  });
+
+  it("only lists organizations the requestor can read", async () => {
+    signIn("bob");
+    const orgs = (await getReadableOrgs()).map((org) => org.name);
+    expect(orgs).toContain("acme");
+    expect(orgs).not.toContain("globex");
+    await expect(getOrgProfile("globex")).rejects.toThrow(/not permitted/);
+  });
+
+  it("renames organizations and moves their memberships", async () => {
+    signIn("root");
+    await createOrg(null, form({ orgName: "initech" }));
+    await newUser("ivan", "initech", "admin");
+    await renameOrg("initech", "initrode");
+    expect(await rolesOf("ivan")).toEqual({ initrode: "admin" });
+
+    // The organization's history moves with it, rather than to a new
+    // organization with its old name.
+    await createOrg(null, form({ orgName: "initech" }));
+    const actions = async (org: string) =>
+      (await getAuditEvents({ org })).events.map((event) => event.action);
+    expect(await actions("initrode")).toEqual([
+      "renameOrg",
+      "createUser",
+      "createOrg",
+    ]);
+    expect(await actions("initech")).toEqual(["createOrg"]);
+  });
+
+  it("reassigns members when deleting organizations", async () => {
+    signIn("root");
+    await createOrg(null, form({ orgName: "hooli" }));
+    await newUser("hank", "hooli", "member");
+    await deleteOrg("hooli", { strategy: "reassign", org: "globex" });
+    expect(await rolesOf("hank")).toEqual({ globex: "member" });
+    expect(
+      await query(`SELECT 1 FROM organizations WHERE name = 'hooli'`)
+    ).toHaveLength(0);
+  });
+});
+
+describe("users", () => {
+  it("creates users and enqueues their facts for Oso", async () => {
+    signIn("alice");
+    await newUser("carol", "acme", "member");
+    expect(await rolesOf("carol")).toEqual({ acme: "member" });
+
+    const [entry] = await query<{ changes: unknown[] }>(
+      `SELECT changes FROM oso_outbox ORDER BY id DESC LIMIT 1`
+    );
+    expect(entry.changes).toContainEqual({
+      op: "insert",
+      fact: [
+        "has_assigned_role",
+        { type: "User", id: "carol" },
+        "member",
+        { type: "Organization", id: "acme" },
+      ],
+    });
+  });
+
+  it("refuses to create users without create_user", async () => {
+    signIn("bob");
+    const result = await createUser(
+      null,
+      form({ username: "mallory", organization: "acme", role: "admin" })
+    );
+    expect(result).toMatchObject({ success: false, error: /not permitted/ });
+    expect(
+      await query(`SELECT 1 FROM users WHERE username = 'mallory'`)
+    ).toHaveLength(0);
+  });
+
+  it("adds, edits, moves, and removes memberships", async () => {
+    signIn("root");
+    await newUser("dave", "acme", "member");
+    expectSuccess(
+      await addMembership(
+        null,
+        form({ username: "dave", organization: "globex", role: "member" })
+      )
+    );
+    await editUsersRoleByUsername([
+      { username: "dave", org: "globex", role: "admin" },
+    ]);
+    expect(await rolesOf("dave")).toEqual({ acme: "member", globex: "admin" });
+
+    await transferUsers([
+      { username: "dave", prevOrg: "acme", org: "acme-eng", role: "member" },
+    ]);
+    expect(await rolesOf("dave")).toEqual({
+      "acme-eng": "member",
+      globex: "admin",
+    });
+
+    await removeMembership("dave", "acme-eng");
+    expect(await rolesOf("dave")).toEqual({ globex: "admin" });
+  });
+
+  it("refuses to remove an organization's last admin", async () => {
+    signIn("root");
+    await expect(
+      editUsersRoleByUsername([
+        { username: "gina", org: "globex", role: "member" },
+      ])
+    ).resolves.toBeUndefined();
+    await expect(
+      editUsersRoleByUsername([
+        { username: "dave", org: "globex", role: "member" },
+      ])
+    ).rejects.toThrow(/admin/);
+  });
+
+  it("suspends, reactivates, and deletes users", async () => {
+    signIn("alice");
+    await newUser("erin", "acme", "member");
+    await suspendUser("erin");
+    expect(
+      await query(`SELECT status FROM users WHERE username = 'erin'`)
+    ).toEqual([{ status: "suspended" }]);
+    await reactivateUser("erin");
+    await deleteUser("erin");
+    expect(
+      await query(`SELECT 1 FROM users WHERE username = 'erin'`)
+    ).toHaveLength(0);
+  });
+
+  it("denies suspended users every permission until reactivated", async () => {
+    signIn("root");
+    await newUser("sam", "acme", "admin");
+    await newUser("sue", "_root", "admin");
+    await suspendUser("sue");
+    signIn("alice");
+    await suspendUser("sam");
+
+    signIn("sam");
+    await expect(getOrgProfile("acme")).rejects.toThrow(/not permitted/);
+    expect(await getReadableOrgs()).toEqual([]);
+    signIn("sue");
+    expect((await createOrg(null, form({ orgName: "sues-org" }))).success).toBe(
+      false
+    );
+
+    signIn("alice");
+    await reactivateUser("sam");
+    signIn("sam");
+    expect((await getOrgProfile("acme")).actions).toContain("edit");
+  });
+
+  it("describes the requestor's permissions on their organizations", async () => {
+    signIn("bob");
+    expect(await getUserWOrgPermissions()).toMatchObject({
+      username: "bob",
+      memberships: [
+        { org: "acme", role: "member", readOrg: true, createUser: false },
+      ],
+    });
+  });
+
+  it("pages through the memberships the requestor can read", async () => {
+    signIn("bob");
+    const page = await getReadableMembershipsPage({ org: "acme" });
+    const usernames = page.memberships.map((m) => m.username);
+    expect(usernames).toContain("alice");
+    expect(usernames).not.toContain("gina");
+  });
+});
+
+describe("invites", () => {
+  it("creates users who accept invitations", async () => {
+    signIn("alice");
+    const path = expectSuccess(
+      await createInvite(
+        null,
+        form({
+          organization: "acme",
+          role: "member",
+          invitee: "frank@example.com",
+          expiresInDays: "7",
+        })
+      )
+    );
+    const token = path.split("/").pop()!;
+    await expect(
+      acceptInvite(
+        token,
+        null,
+        form({ username: "frank", password: "password" })
+      )
+    ).rejects.toThrow(/NEXT_REDIRECT/);
+    expect(await rolesOf("frank")).toEqual({ acme: "member" });
+  });
+
+  it("revokes invitations", async () => {
+    signIn("alice");
+    const path = expectSuccess(
+      await createInvite(
+        null,
+        form({
+          organization: "acme",
+          role: "member",
+          invitee: "grace@example.com",
+          expiresInDays: "7",
+        })
+      )
+    );
+    const [{ id }] = await query<{ id: string }>(
+      `SELECT id FROM invites WHERE invitee = 'grace@example.com'`
+    );
+    await revokeInvite(id);
+    const result = await acceptInvite(
+      path.split("/").pop()!,
+      null,
+      form({ username: "grace", password: "password" })
+    );
+    expect(result).toMatchObject({ success: false });
+  });
+});
+
+describe("access requests", () => {
+  it("lets admins approve or deny members' requests", async () => {
+    signIn("bob");
+    expectSuccess(
+      await createAccessRequest(
+        null,
+        form({ organization: "acme", role: "admin", reason: "on call" })
+      )
+    );
+
+    signIn("alice");
+    const [request] = await getPendingAccessRequests();
+    expect(request).toMatchObject({ username: "bob", role: "admin" });
+    await approveAccessRequest(request.id);
+    expect(await rolesOf("bob")).toEqual({ acme: "admin" });
+
+    signIn("bob");
+    expectSuccess(
+      await createAccessRequest(
+        null,
+        form({ organization: "acme", role: "member", reason: "step down" })
+      )
+    );
+    signIn("alice");
+    const [next] = await getPendingAccessRequests();
+    await denyAccessRequest(next.id, "still needed");
+    expect(await rolesOf("bob")).toEqual({ acme: "admin" });
+    signIn("root");
+    await editUsersRoleByUsername([
+      { username: "bob", org: "acme", role: "member" },
+    ]);
+  });
+
+  it("only lets admins of a request's organization decide it", async () => {
+    signIn("root");
+    expectSuccess(await createOrg(null, form({ orgName: "stark" })));
+    await newUser("tony", "stark", "admin");
+    expectSuccess(
+      await addMembership(
+        null,
+        form({ username: "bob", organization: "stark", role: "member" })
+      )
+    );
+    signIn("bob");
+    expectSuccess(
+      await createAccessRequest(
+        null,
+        form({ organization: "acme", role: "admin", reason: "on call" })
+      )
+    );
+
+    // tony can edit bob's roles, but only in stark.
+    signIn("tony");
+    expect(await getPendingAccessRequests()).toEqual([]);
+    signIn("alice");
+    const [request] = await getPendingAccessRequests();
+    signIn("tony");
+    await expect(denyAccessRequest(request.id, "no")).rejects.toThrow(
+      /not permitted/
+    );
+    await expect(approveAccessRequest(request.id)).rejects.toThrow(
+      /not permitted/
+    );
+
+    signIn("alice");
+    await denyAccessRequest(request.id, "not on call");
+    signIn("root");
+    await removeMembership("bob", "stark");
+  });
+
+  it("leaves requests pending when their role change fails", async () => {
+    signIn("root");
+    expectSuccess(await createOrg(null, form({ orgName: "wayne" })));
+    await newUser("wanda", "wayne", "admin");
+    signIn("wanda");
+    expectSuccess(
+      await createAccessRequest(
+        null,
+        form({ organization: "wayne", role: "member", reason: "step down" })
+      )
+    );
+
+    // Approving the request would leave wayne without an admin.
+    signIn("root");
+    const [request] = await getPendingAccessRequests();
+    await expect(approveAccessRequest(request.id)).rejects.toThrow(
+      /last admin/
+    );
+    expect(await rolesOf("wanda")).toEqual({ wayne: "admin" });
+    expect(await getPendingAccessRequests()).toMatchObject([
+      { id: request.id, status: "pending" },
+    ]);
+    await denyAccessRequest(request.id, "only admin");
+  });
+});
+
+describe("import", () => {
+  it("previews and imports users", async () => {
+    signIn("alice");
+    const data = "username,org,role\nheidi,acme,member\nmallory,globex,admin";
+    const preview = expectSuccess(
+      await previewUserImport(null, form({ data }))
+    );
+    expect(preview).toMatchObject({ accepted: 1, rejected: 1 });
+    expect((await importUsers(null, form({ data }))).success).toBe(false);
+
+    const accepted = "username,org,role\nheidi,acme,member";
+    expectSuccess(await importUsers(null, form({ data: accepted })));
+    expect(await rolesOf("heidi")).toEqual({ acme: "member" });
+  });
+});
+
+describe("permission matrix", () => {
+  it("only includes organizations the requestor can read", async () => {
+    signIn("gina");
+    const matrix = await getPermissionMatrix({});
+    expect(matrix.orgs).toEqual(["globex"]);
+  });
+});
+
+describe("explanations", () => {
+  it("explains the requestor's own permissions", async () => {
+    const acme = { type: "Organization", id: "acme" };
+    signIn("alice");
+    expect(await explainPermission("create_user", acme)).toMatchObject({
+      holds: true,
+    });
+    signIn("bob");
+    expect(await explainPermission("create_user", acme)).toMatchObject({
+      holds: false,
+    });
+  });
+
+  it("explains that suspended users have no roles", async () => {
+    signIn("root");
+    await newUser("stan", "acme", "member");
+    await suspendUser("stan");
+    signIn("stan");
+    const derivation = await explainPermission("read", {
+      type: "Organization",
+      id: "acme",
+    });
+    expect(derivation.holds).toBe(false);
+    expect(JSON.stringify(derivation)).toContain("User:stan is suspended");
+  });
+});
+
+describe("sessions", () => {
+  it("signs in users with their password", async () => {
+    expect(
+      await login(null, form({ username: "alice", password: "wrong" }))
+    ).toMatchObject({ success: false });
+    await expect(
+      login(null, form({ username: "alice", password: "password" }))
+    ).rejects.toThrow(/NEXT_REDIRECT/);
+  });
+
+  it("signs in root with the password migrations set", async () => {
+    await expect(
+      login(
+        null,
+        form({ username: "root", password: process.env.ROOT_PASSWORD! })
+      )
+    ).rejects.toThrow(/NEXT_REDIRECT/);
+  });
+
+  it("records impersonations", async () => {
+    signIn("root");
+    await expect(startImpersonation("bob", form({}))).rejects.toThrow(
+      /NEXT_REDIRECT/
+    );
+    expect(
+      await query(
+        `SELECT real_user, effective_user FROM impersonation_sessions`
+      )
+    ).toEqual([{ real_user: "root", effective_user: "bob" }]);
+
+    await signInWithSessionCookie();
+    expect(await getUserWOrgPermissions()).toMatchObject({ username: "bob" });
+  });
+
+  it("refuses impersonations once they end", async () => {
+    signIn("root");
+    await expect(startImpersonation("bob", form({}))).rejects.toThrow(
+      /NEXT_REDIRECT/
+    );
+    await signInWithSessionCookie();
+    // Ends the impersonation, but a stolen copy of the cookie remains valid.
+    const cookie = requestCookies.get(SESSION_COOKIE)!;
+    await expect(stopImpersonation()).rejects.toThrow(/NEXT_REDIRECT/);
+    requestCookies.set(SESSION_COOKIE, cookie);
+    await signInWithSessionCookie();
+    await expect(getUserWOrgPermissions()).rejects.toThrow(
+      /impersonation has ended/
+    );
+  });
+
+  it("refuses impersonations by suspended users", async () => {
+    signIn("root");
+    await createOrg(null, form({ orgName: "umbrella" }));
+    await newUser("uma", "umbrella", "admin");
+    await newUser("ursula", "umbrella", "admin");
+    await newUser("ugo", "umbrella", "member");
+
+    signIn("uma");
+    await expect(startImpersonation("ugo", form({}))).rejects.toThrow(
+      /NEXT_REDIRECT/
+    );
+    signIn("ursula");
+    await suspendUser("uma");
+
+    await signInWithSessionCookie();
+    await expect(getUserWOrgPermissions()).rejects.toThrow(
+      /impersonation has ended/
+    );
+  });
+
+  it("refuses and audits impersonations of suspended users", async () => {
+    signIn("root");
+    await suspendUser("ugo");
+    await expect(startImpersonation("ugo", form({}))).rejects.toThrow(
+      /cannot impersonate suspended User ugo/
+    );
+    expect(
+      await query(
+        `SELECT requestor, allowed FROM audit_events
+        WHERE action = 'startImpersonation' AND target_id = 'ugo'
+          AND requestor = 'root'`
+      )
+    ).toEqual([{ requestor: "root", allowed: false }]);
+  });
+});
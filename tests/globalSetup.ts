@@ -0,0 +1,81 @@
+import { execFileSync } from "child_process";
+import { createServer } from "net";
+import os from "os";
+import path from "path";
+import EmbeddedPostgres from "embedded-postgres";
+import type { GlobalSetupContext } from "vitest/node";
+
+declare module "vitest" {
+  export interface ProvidedContext {
+    // The environment variables the app reads, pointing at the test database.
+    env: Record<string, string>;
+  }
+}
+
+// Returns a port nothing is listening on.
+async function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = createServer();
+    server.once("error", reject);
+    server.listen(0, () => {
+      const address = server.address();
+      server.close(() =>
+        resolve(typeof address === "object" && address ? address.port : 0)
+      );
+    });
+  });
+}
+
+/**
+ * Starts a disposable PostgreSQL server and migrates `users_template`, which
+ * tests/setup.ts copies into a fresh `users` database for each test file.
+ *
+ * Runs offline: the server's binaries come from the `embedded-postgres`
+ * package.
+ */
+export default async function setup({ provide }: GlobalSetupContext) {
+  const port = await freePort();
+  const env = {
+    DB_USER: "postgres",
+    DB_PASS: "postgres",
+    DB_HOST: "localhost",
+    DB_PORT: String(port),
+    DB_SSL: "disable",
+    // Includes a quote, which migrations must not paste into their SQL.
+    ROOT_PASSWORD: "ro'ot",
+    SESSION_SECRET: "test-session-secret",
+    OSO_LOCAL_STAND_IN: "true",
+  };
+
+  const postgres = new EmbeddedPostgres({
+    databaseDir: path.join(os.tmpdir(), `user-mgmt-test-${process.pid}`),
+    port,
+    user: env.DB_USER,
+    password: env.DB_PASS,
+    persistent: false,
+    // PostgreSQL refuses to run as root, e.g. in CI containers.
+    createPostgresUser: process.getuid?.() === 0,
+    onLog: () => {},
+  });
+  await postgres.initialise();
+  await postgres.start();
+  try {
+    await postgres.createDatabase("users");
+    execFileSync(process.execPath, ["scripts/migrate.mjs", "up"], {
+      env: { ...process.env, ...env },
+      stdio: "pipe",
+    });
+    const client = postgres.getPgClient("postgres");
+    await client.connect();
+    await client.query(`ALTER DATABASE users RENAME TO users_template`);
+    await client.end();
+  } catch (error) {
+    await postgres.stop();
+    throw error;
+  }
+
+  provide("env", env);
+  return async () => {
+    await postgres.stop();
+  };
+}
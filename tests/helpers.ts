@@ -0,0 +1,121 @@
+import { expect } from "vitest";
+
+import { createUser } from "@/actions/user";
+import { usersPool } from "@/lib/db";
+import { Result } from "@/lib/result";
+import {
+  ALLOW_DESTRUCTIVE_HEADER,
+  IMPERSONATION_HEADER,
+  REQUESTOR_HEADER,
+  SESSION_COOKIE,
+  SESSION_USER_HEADER,
+  verifySession,
+} from "@/lib/session";
+import { requestCookies, requestHeaders } from "./request";
+
+/**
+ * Makes subsequent actions run as if `middleware.ts` had verified a session
+ * for `username`, optionally impersonating `actingAs`.
+ */
+export function signIn(
+  username: string,
+  impersonation: {
+    actingAs: string;
+    impersonationId: string;
+    allowDestructive?: boolean;
+  } | null = null
+): void {
+  requestHeaders.set(SESSION_USER_HEADER, username);
+  requestHeaders.set(REQUESTOR_HEADER, impersonation?.actingAs ?? username);
+  requestHeaders.set(
+    ALLOW_DESTRUCTIVE_HEADER,
+    String(impersonation?.allowDestructive ?? false)
+  );
+  if (impersonation) {
+    requestHeaders.set(IMPERSONATION_HEADER, impersonation.impersonationId);
+  } else {
+    requestHeaders.delete(IMPERSONATION_HEADER);
+  }
+}
+
+/**
+ * Makes subsequent actions run with the session that earlier actions stored in
+ * the session cookie, e.g. by impersonating someone.
+ */
+export async function signInWithSessionCookie(): Promise<void> {
+  const session = await verifySession(requestCookies.get(SESSION_COOKIE));
+  if (!session) {
+    throw new Error("no valid session cookie");
+  }
+  signIn(
+    session.username,
+    session.actingAs
+      ? {
+          actingAs: session.actingAs,
+          impersonationId: session.impersonationId!,
+          allowDestructive: session.allowDestructive,
+        }
+      : null
+  );
+}
+
+/**
+ * Returns `FormData` with `fields`, as submitted by the app's forms.
+ */
+export function form(fields: Record<string, string | string[]>): FormData {
+  const data = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    for (const v of Array.isArray(value) ? value : [value]) {
+      data.append(name, v);
+    }
+  }
+  return data;
+}
+
+/**
+ * Returns the value of a successful `result`, failing the test otherwise.
+ */
+export function expectSuccess<T>(result: Result<T>): T {
+  expect(result).toMatchObject({ success: true });
+  return (result as { success: true; value: T }).value;
+}
+
+/**
+ * Creates `username` with `role` in `org` and the password "password", as the
+ * signed-in user, failing the test if they cannot.
+ */
+export async function newUser(
+  username: string,
+  org: string,
+  role: string
+): Promise<void> {
+  expectSuccess(
+    await createUser(
+      null,
+      form({ username, organization: org, role, password: "password" })
+    )
+  );
+}
+
+/**
+ * Runs `text` against the test database, returning its rows.
+ */
+export async function query<T extends object = Record<string, unknown>>(
+  text: string,
+  params?: unknown[]
+): Promise<T[]> {
+  return (await usersPool.query<T>(text, params)).rows;
+}
+
+/**
+ * Returns `username`'s role in each of their organizations, by organization.
+ */
+export async function rolesOf(
+  username: string
+): Promise<Record<string, string>> {
+  const rows = await query<{ org: string; role: string }>(
+    `SELECT org, role FROM memberships WHERE username = $1`,
+    [username]
+  );
+  return Object.fromEntries(rows.map(({ org, role }) => [org, role]));
+}
@@ -0,0 +1,97 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { createOrg } from "@/actions/org";
+import { usersPool } from "@/lib/db";
+import { editRoles } from "@/lib/memberships";
+import {
+  expectSuccess,
+  form,
+  newUser,
+  query,
+  rolesOf,
+  signIn,
+} from "./helpers";
+
+// Demotes `username` to a member of `org` as root in its own transaction,
+// calling `beforeCommit` once the demotion is made but not yet committed.
+async function demote(
+  username: string,
+  org: string,
+  beforeCommit: () => Promise<void> = async () => {}
+): Promise<void> {
+  const client = await usersPool.connect();
+  try {
+    await client.query("BEGIN");
+    await editRoles(client, "root", [{ username, org, role: "member" }]);
+    await beforeCommit();
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+// Waits until another connection is waiting to acquire a lock.
+async function waitForLockWaiter(): Promise<void> {
+  for (let i = 0; i < 100; i++) {
+    const waiting = await query(
+      `SELECT 1 FROM pg_stat_activity
+      WHERE datname = current_database() AND wait_event_type = 'Lock'`
+    );
+    if (waiting.length > 0) {
+      return;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error("no connection is waiting for a lock");
+}
+
+beforeAll(async () => {
+  signIn("root");
+  expectSuccess(await createOrg(null, form({ orgName: "acme" })));
+  await newUser("alice", "acme", "admin");
+  await newUser("abe", "acme", "admin");
+
+  expectSuccess(await createOrg(null, form({ orgName: "globex" })));
+  expectSuccess(
+    await createOrg(null, form({ orgName: "globex-eng", parent: "globex" }))
+  );
+  await newUser("gina", "globex", "admin");
+  await newUser("gus", "globex", "admin");
+});
+
+describe("editRoles", () => {
+  // Each demotion alone would leave an admin, so only the lock taken by
+  // `lockOrgsWithAdmins` stops both from committing. The first demotion holds
+  // its transaction open until the second is waiting on that lock. globex's
+  // admins are also the only admins of globex-eng.
+  it.each([
+    ["an organization", "acme", ["alice", "abe"]],
+    ["a parent organization", "globex", ["gina", "gus"]],
+  ])(
+    "lets only one of two concurrent demotions remove the last admins of %s",
+    async (_, org, [first, second]) => {
+      let firstDemoted!: () => void;
+      const demoted = new Promise<void>((resolve) => (firstDemoted = resolve));
+      const results = await Promise.allSettled([
+        demote(first, org, async () => {
+          firstDemoted();
+          await waitForLockWaiter();
+        }),
+        demoted.then(() => demote(second, org)),
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual([
+        "fulfilled",
+        "rejected",
+      ]);
+      expect((results[1] as PromiseRejectedResult).reason.message).toBe(
+        `cannot remove the last admin of Organization ${org}`
+      );
+      expect(await rolesOf(first)).toEqual({ [org]: "member" });
+      expect(await rolesOf(second)).toEqual({ [org]: "admin" });
+    }
+  );
+});
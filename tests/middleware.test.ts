@@ -0,0 +1,69 @@
+import { NextRequest } from "next/server";
+import { describe, expect, it } from "vitest";
+
+import { signApiToken } from "@/lib/apiTokens";
+import { SESSION_COOKIE, signSession } from "@/lib/session";
+import { middleware } from "@/middleware";
+
+function session() {
+  return signSession({
+    username: "root",
+    actingAs: null,
+    impersonationId: null,
+    allowDestructive: false,
+    expires: Date.now() + 60_000,
+  });
+}
+
+function request(
+  path: string,
+  { cookie, bearer }: { cookie?: string; bearer?: string } = {}
+): NextRequest {
+  const headers = new Headers();
+  if (cookie) {
+    headers.set("cookie", `${SESSION_COOKIE}=${cookie}`);
+  }
+  if (bearer) {
+    headers.set("authorization", `Bearer ${bearer}`);
+  }
+  return new NextRequest(new URL(path, "http://localhost"), { headers });
+}
+
+// Whether `middleware` let the request through, rather than redirecting to the
+// login page or refusing it.
+async function passes(req: NextRequest): Promise<boolean> {
+  const res = await middleware(req);
+  return res.status === 200 && !res.headers.get("location");
+}
+
+describe("middleware", () => {
+  it("accepts sessions and API tokens where each belongs", async () => {
+    expect(
+      await passes(request("/user/root", { cookie: await session() }))
+    ).toBe(true);
+    const token = await signApiToken({ username: "root", id: "1" });
+    expect(await passes(request("/api/users", { bearer: token }))).toBe(true);
+  });
+
+  it("refuses session cookies as bearer tokens", async () => {
+    const res = await middleware(
+      request("/api/users", { bearer: await session() })
+    );
+    expect(res.status).toBe(401);
+  });
+
+  it("refuses API tokens as session cookies", async () => {
+    const token = await signApiToken({ username: "root", id: "1" });
+    expect(await passes(request("/user/root", { cookie: token }))).toBe(false);
+  });
+
+  it("only lets public paths through without signing in", async () => {
+    expect(await passes(request("/login"))).toBe(true);
+    expect(await passes(request("/invite/abc"))).toBe(true);
+    expect(await passes(request("/api/openapi.json"))).toBe(true);
+
+    expect(await passes(request("/login-as-root"))).toBe(false);
+    expect(await passes(request("/invites"))).toBe(false);
+    expect(await passes(request("/api/openapi.jsonx"))).toBe(false);
+  });
+});
@@ -0,0 +1,169 @@
+import { IntoFact } from "oso-cloud";
+import { beforeEach, describe, expect, it } from "vitest";
+
+import { usersPool } from "@/lib/db";
+import {
+  BatchClient,
+  dispatchOutbox,
+  enqueueBatch,
+  FactChange,
+  OutboxTransaction,
+} from "@/lib/outbox";
+import { query } from "./helpers";
+
+/**
+ * Stands in for Oso Cloud's batch API, recording the changes of each batch and
+ * failing the first `failures` calls.
+ */
+class StubBatchApi implements BatchClient {
+  batches: FactChange[][] = [];
+
+  constructor(public failures = 0) {}
+
+  async batch(
+    f: (
+      tx: Pick<OutboxTransaction, "insert" | "delete">
+    ) => void | Promise<void>
+  ): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error("Oso Cloud is unavailable");
+    }
+    const tx = new OutboxTransaction();
+    await f(tx);
+    this.batches.push(tx.changes);
+  }
+}
+
+function parentFact(id: string): IntoFact {
+  return [
+    "has_relation",
+    { type: "User", id },
+    "parent",
+    { type: "Organization", id: "acme" },
+  ];
+}
+
+function inserted(id: string): FactChange {
+  return { op: "insert", fact: parentFact(id) };
+}
+
+// Writes an outbox entry inserting `parentFact(id)`.
+async function enqueue(id: string): Promise<void> {
+  const client = await usersPool.connect();
+  try {
+    await enqueueBatch(client, (tx) => tx.insert(parentFact(id)));
+  } finally {
+    client.release();
+  }
+}
+
+// Makes every entry waiting for its backoff due.
+async function skipBackoff(): Promise<void> {
+  await query(`UPDATE oso_outbox SET next_attempt_at = now()`);
+}
+
+beforeEach(async () => {
+  await query(`DELETE FROM oso_outbox`);
+});
+
+describe("dispatchOutbox", () => {
+  it("delivers entries once, in the order they were written", async () => {
+    await enqueue("a");
+    await enqueue("b");
+    await enqueue("c");
+    const oso = new StubBatchApi();
+
+    expect(await dispatchOutbox(usersPool, oso)).toBe(3);
+    expect(oso.batches).toEqual([
+      [inserted("a")],
+      [inserted("b")],
+      [inserted("c")],
+    ]);
+
+    expect(await dispatchOutbox(usersPool, oso)).toBe(0);
+    expect(oso.batches).toHaveLength(3);
+  });
+
+  it("backs off failed entries without delivering later ones", async () => {
+    await enqueue("a");
+    await enqueue("b");
+    const oso = new StubBatchApi(1);
+
+    expect(await dispatchOutbox(usersPool, oso)).toBe(0);
+    const [entry] = await query<{
+      attempts: number;
+      last_error: string;
+      backoff: number;
+    }>(
+      `SELECT attempts, last_error,
+        extract(epoch FROM next_attempt_at - now())::FLOAT AS backoff
+      FROM oso_outbox ORDER BY id LIMIT 1`
+    );
+    expect(entry).toMatchObject({
+      attempts: 1,
+      last_error: "Oso Cloud is unavailable",
+    });
+    expect(entry.backoff).toBeGreaterThan(1);
+    expect(entry.backoff).toBeLessThanOrEqual(2);
+
+    // Neither entry is delivered until the first's backoff elapses.
+    expect(await dispatchOutbox(usersPool, oso)).toBe(0);
+    expect(oso.batches).toEqual([]);
+
+    await skipBackoff();
+    expect(await dispatchOutbox(usersPool, oso)).toBe(2);
+    expect(oso.batches).toEqual([[inserted("a")], [inserted("b")]]);
+  });
+
+  it("doubles the backoff of each failed attempt", async () => {
+    await enqueue("a");
+    const oso = new StubBatchApi(3);
+    for (let i = 0; i < 3; i++) {
+      await skipBackoff();
+      await dispatchOutbox(usersPool, oso);
+    }
+    const [entry] = await query<{ attempts: number; backoff: number }>(
+      `SELECT attempts, extract(epoch FROM next_attempt_at - now())::FLOAT AS backoff
+      FROM oso_outbox`
+    );
+    expect(entry.attempts).toBe(3);
+    expect(entry.backoff).toBeGreaterThan(7);
+    expect(entry.backoff).toBeLessThanOrEqual(8);
+  });
+
+  it("dead-letters entries that keep failing, then delivers later ones", async () => {
+    await enqueue("a");
+    await enqueue("b");
+    const oso = new StubBatchApi(Infinity);
+    for (let i = 0; i < 10; i++) {
+      await skipBackoff();
+      await dispatchOutbox(usersPool, oso);
+    }
+    const dead = await query<{ changes: FactChange[]; attempts: number }>(
+      `SELECT changes, attempts FROM oso_outbox_dead_letters`
+    );
+    expect(dead).toEqual([{ changes: [inserted("a")], attempts: 10 }]);
+
+    oso.failures = 0;
+    await skipBackoff();
+    expect(await dispatchOutbox(usersPool, oso)).toBe(1);
+    expect(oso.batches).toEqual([[inserted("b")]]);
+  });
+
+  it("only lets one dispatcher deliver at a time", async () => {
+    await enqueue("a");
+    const oso = new StubBatchApi();
+    const client = await usersPool.connect();
+    try {
+      // Holds the dispatcher's advisory lock, as a concurrent dispatcher would.
+      await client.query("BEGIN");
+      await client.query(`SELECT pg_advisory_xact_lock($1)`, [0x050_0b0c]);
+      expect(await dispatchOutbox(usersPool, oso)).toBe(0);
+      await client.query("COMMIT");
+    } finally {
+      client.release();
+    }
+    expect(await dispatchOutbox(usersPool, oso)).toBe(1);
+  });
+});
@@ -0,0 +1,23 @@
+// Stands in for the incoming request that `next/headers` exposes, which
+// tests/setup.ts mocks. Use `signIn` in tests/helpers.ts rather than changing
+// these directly.
+
+export const requestHeaders = new Headers();
+
+export const requestCookies = new Map<string, string>();
+
+export const nextHeaders = {
+  headers: () => requestHeaders,
+  cookies: () => ({
+    get: (name: string) => {
+      const value = requestCookies.get(name);
+      return value === undefined ? undefined : { name, value };
+    },
+    set: (name: string, value: string) => {
+      requestCookies.set(name, value);
+    },
+    delete: (name: string) => {
+      requestCookies.delete(name);
+    },
+  }),
+};
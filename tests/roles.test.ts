@@ -0,0 +1,186 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { getAuditEvents } from "@/actions/audit";
+import { importUsers } from "@/actions/import";
+import { acceptInvite, createInvite } from "@/actions/invites";
+import { createOrg } from "@/actions/org";
+import { deleteRole, getCustomRoles, saveRole } from "@/actions/roles";
+import {
+  addMembership,
+  createUser,
+  deleteUser,
+  editUsersRoleByUsername,
+} from "@/actions/user";
+import {
+  expectSuccess,
+  form,
+  newUser,
+  query,
+  rolesOf,
+  signIn,
+} from "./helpers";
+
+beforeAll(async () => {
+  signIn("root");
+  expectSuccess(await createOrg(null, form({ orgName: "acme" })));
+  await newUser("alice", "acme", "admin");
+});
+
+describe("custom roles", () => {
+  it("grants the permissions of custom roles", async () => {
+    signIn("alice");
+    expectSuccess(
+      await saveRole(
+        null,
+        form({ org: "acme", name: "auditor", permission: ["read_audit"] })
+      )
+    );
+    expect(await getCustomRoles("acme")).toContainEqual(
+      expect.objectContaining({ name: "auditor", permissions: ["read_audit"] })
+    );
+
+    await newUser("quinn", "acme", "auditor");
+    signIn("quinn");
+    const { events } = await getAuditEvents({ org: "acme" });
+    expect(events.length).toBeGreaterThan(0);
+
+    signIn("alice");
+    await deleteUser("quinn");
+    await deleteRole("acme", "auditor");
+    expect(await getCustomRoles("acme")).toEqual([]);
+  });
+
+  it("only lets users assign roles that permit no more than they have", async () => {
+    signIn("alice");
+    expectSuccess(
+      await saveRole(
+        null,
+        form({
+          org: "acme",
+          name: "recruiter",
+          permission: ["read", "create_user"],
+        })
+      )
+    );
+    await newUser("rita", "acme", "recruiter");
+
+    signIn("rita");
+    const denied = { success: false, error: /not permitted to assign role/ };
+    expect(
+      await createUser(
+        null,
+        form({ username: "mallory", organization: "acme", role: "admin" })
+      )
+    ).toMatchObject(denied);
+    expect(
+      await addMembership(
+        null,
+        form({ username: "rita", organization: "acme", role: "admin" })
+      )
+    ).toMatchObject(denied);
+    expect(
+      await createInvite(
+        null,
+        form({
+          organization: "acme",
+          role: "admin",
+          invitee: "mallory@example.com",
+          expiresInDays: "7",
+        })
+      )
+    ).toMatchObject(denied);
+    expect(
+      await importUsers(
+        null,
+        form({ data: "username,org,role\nmal,acme,admin" })
+      )
+    ).toMatchObject({ success: false });
+    expect(await rolesOf("rita")).toEqual({ acme: "recruiter" });
+
+    // Roles whose permissions the requestor has can be assigned.
+    await newUser("mia", "acme", "member");
+    await newUser("rex", "acme", "recruiter");
+  });
+
+  it("refuses invitations whose inviters can no longer assign their role", async () => {
+    signIn("alice");
+    await newUser("olga", "acme", "admin");
+    signIn("olga");
+    const path = expectSuccess(
+      await createInvite(
+        null,
+        form({
+          organization: "acme",
+          role: "admin",
+          invitee: "mallory@example.com",
+          expiresInDays: "7",
+        })
+      )
+    );
+
+    // Recruiters can still create users, but not admins.
+    signIn("alice");
+    await editUsersRoleByUsername([
+      { username: "olga", org: "acme", role: "recruiter" },
+    ]);
+    expect(
+      await acceptInvite(
+        path.split("/").pop()!,
+        null,
+        form({ username: "mallory", password: "password" })
+      )
+    ).toMatchObject({ success: false, error: /no longer valid/ });
+    expect(await rolesOf("mallory")).toEqual({});
+    expect(
+      await query(
+        `SELECT requestor, allowed FROM audit_events
+        WHERE action = 'acceptInvite' AND target_id = 'mallory'`
+      )
+    ).toEqual([{ requestor: "olga", allowed: false }]);
+  });
+
+  it("only lets users grant permissions they have", async () => {
+    signIn("alice");
+    expectSuccess(
+      await saveRole(
+        null,
+        form({
+          org: "acme",
+          name: "steward",
+          permission: ["read", "manage_roles"],
+        })
+      )
+    );
+    await newUser("stella", "acme", "steward");
+
+    signIn("stella");
+    expect(
+      await saveRole(
+        null,
+        form({
+          org: "acme",
+          name: "steward",
+          permission: ["read", "manage_roles", "create_user"],
+        })
+      )
+    ).toMatchObject({ success: false, error: /not permitted to grant/ });
+    expectSuccess(
+      await saveRole(
+        null,
+        form({ org: "acme", name: "reader", permission: ["read"] })
+      )
+    );
+  });
+
+  it("refuses custom roles named after the policy's roles or permissions", async () => {
+    signIn("alice");
+    for (const name of ["create_user", "edit_role", "admin"]) {
+      expect(
+        await saveRole(null, form({ org: "acme", name, permission: ["read"] }))
+      ).toMatchObject({ success: false, error: /reserved/ });
+    }
+    expect(await getCustomRoles("acme")).not.toContainEqual(
+      expect.objectContaining({ name: "create_user" })
+    );
+  });
+});
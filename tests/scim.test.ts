@@ -0,0 +1,62 @@
+import { beforeAll, describe, expect, it } from "vitest";
+
+import { createOrg } from "@/actions/org";
+import { createUser } from "@/actions/user";
+import {
+  findScimUser,
+  readPatchOperations,
+  updateScimUser,
+  userChangesFromPatch,
+} from "@/lib/scim";
+import { expectSuccess, form, query, signIn } from "./helpers";
+
+describe("readPatchOperations", () => {
+  it("reads the operations of a PatchOp", () => {
+    expect(
+      readPatchOperations({
+        Operations: [{ op: "Replace", path: "active", value: false }],
+      })
+    ).toEqual([{ op: "replace", path: "active", value: false }]);
+  });
+
+  it("rejects malformed operations", () => {
+    expect(() => readPatchOperations({})).toThrow(/Operations/);
+    expect(() => readPatchOperations({ Operations: [null] })).toThrow(
+      /unsupported PATCH op/
+    );
+    expect(() =>
+      readPatchOperations({
+        Operations: [{ op: "replace", path: 1, value: false }],
+      })
+    ).toThrow(/path must be a string/);
+  });
+});
+
+describe("updateScimUser", () => {
+  beforeAll(async () => {
+    signIn("root");
+    expectSuccess(await createOrg(null, form({ orgName: "acme" })));
+    for (const [username, role] of [
+      ["alice", "admin"],
+      ["bob", "member"],
+    ]) {
+      expectSuccess(
+        await createUser(null, form({ username, organization: "acme", role }))
+      );
+    }
+  });
+
+  it("suspends deactivated users rather than deleting them", async () => {
+    signIn("alice");
+    const changes = userChangesFromPatch(
+      readPatchOperations({
+        Operations: [{ op: "replace", path: "active", value: false }],
+      })
+    );
+    const user = await updateScimUser(await findScimUser("bob"), changes);
+    expect(user).toMatchObject({ username: "bob", active: false });
+    expect(
+      await query(`SELECT status FROM users WHERE username = 'bob'`)
+    ).toEqual([{ status: "suspended" }]);
+  });
+});
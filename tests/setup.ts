@@ -0,0 +1,33 @@
+import { Client } from "pg";
+import { afterAll, beforeAll, inject, vi } from "vitest";
+
+// Runs before each test file imports the app, so that lib/db.ts and lib/oso.ts
+// read the test database's settings.
+const env = inject("env");
+Object.assign(process.env, env);
+
+vi.mock("next/headers", async () => (await import("./request")).nextHeaders);
+
+// Give each test file a fresh copy of the migrated database. The app's pool
+// only connects once tests run, after this.
+beforeAll(async () => {
+  const admin = new Client({
+    host: env.DB_HOST,
+    port: Number(env.DB_PORT),
+    user: env.DB_USER,
+    password: env.DB_PASS,
+    database: "postgres",
+  });
+  await admin.connect();
+  try {
+    await admin.query(`DROP DATABASE IF EXISTS users WITH (FORCE)`);
+    await admin.query(`CREATE DATABASE users TEMPLATE users_template`);
+  } finally {
+    await admin.end();
+  }
+});
+
+afterAll(async () => {
+  const { usersPool } = await import("@/lib/db");
+  await usersPool.end();
+});